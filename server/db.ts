@@ -0,0 +1,342 @@
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+
+type ColumnType = 'text' | 'numeric' | 'json';
+
+interface TableSchema {
+  columns: Record<string, ColumnType>;
+  orderBy: string;
+}
+
+// Mirrors the Supabase tables in supabase_schema.sql. jsonb columns are stored
+// as JSON text and parsed again on the way out.
+export const TABLES: Record<string, TableSchema> = {
+  menu_items: {
+    columns: {
+      id: 'text',
+      name: 'text',
+      base_price: 'numeric',
+      category: 'text',
+      image: 'text',
+      bundle_config: 'json',
+      modifier_groups: 'json',
+      recipe: 'json',
+      station_id: 'text',
+      created_at: 'text',
+    },
+    orderBy: 'created_at ASC',
+  },
+  orders: {
+    columns: {
+      id: 'text',
+      queue_number: 'numeric',
+      queue_date: 'text',
+      order_type: 'text',
+      table_id: 'text',
+      table_name: 'text',
+      delivery: 'json',
+      merged_into: 'text',
+      customer_name: 'text',
+      customer_id: 'text',
+      loyalty: 'json',
+      items: 'json',
+      subtotal: 'numeric',
+      discount_total: 'numeric',
+      applied_promotions: 'json',
+      service_charge: 'numeric',
+      taxes: 'json',
+      tax_total: 'numeric',
+      tax_inclusive: 'json',
+      total: 'numeric',
+      status: 'text',
+      status_history: 'json',
+      amendments: 'json',
+      payment_status: 'text',
+      payments: 'json',
+      refunds: 'json',
+      voided: 'json',
+      session_id: 'text',
+      staff_id: 'text',
+      staff_name: 'text',
+      note: 'text',
+      created_at: 'text',
+    },
+    orderBy: 'created_at DESC',
+  },
+  cash_sessions: {
+    columns: {
+      id: 'text',
+      till_id: 'text',
+      opened_at: 'text',
+      opening_float: 'numeric',
+      movements: 'json',
+      closed_at: 'text',
+      counted_cash: 'numeric',
+      expected_cash: 'numeric',
+      closing_note: 'text',
+    },
+    orderBy: 'opened_at DESC',
+  },
+  settings: {
+    columns: {
+      id: 'text',
+      shop_name: 'text',
+      time_zone: 'text',
+      receipt: 'json',
+      tax: 'json',
+      kitchen: 'json',
+      stations: 'json',
+      loyalty: 'json',
+    },
+    orderBy: 'id ASC',
+  },
+  promotions: {
+    columns: {
+      id: 'text',
+      name: 'text',
+      type: 'text',
+      enabled: 'json',
+      scope: 'json',
+      value: 'numeric',
+      value_kind: 'text',
+      buy_quantity: 'numeric',
+      get_quantity: 'numeric',
+      bundle_price: 'numeric',
+      min_spend: 'numeric',
+      schedule: 'json',
+      valid_from: 'text',
+      valid_until: 'text',
+      stackable: 'json',
+      priority: 'numeric',
+    },
+    orderBy: 'priority DESC',
+  },
+  ingredients: {
+    columns: {
+      id: 'text',
+      name: 'text',
+      unit: 'text',
+      on_hand: 'numeric',
+      low_stock_threshold: 'numeric',
+      cost_per_unit: 'numeric',
+    },
+    orderBy: 'name ASC',
+  },
+  stock_movements: {
+    columns: {
+      id: 'text',
+      ingredient_id: 'text',
+      type: 'text',
+      quantity: 'numeric',
+      order_id: 'text',
+      note: 'text',
+      created_at: 'text',
+    },
+    orderBy: 'created_at DESC',
+  },
+  staff: {
+    columns: {
+      id: 'text',
+      name: 'text',
+      role: 'text',
+      pin_hash: 'text',
+      active: 'json',
+      created_at: 'text',
+    },
+    orderBy: 'name ASC',
+  },
+  categories: {
+    columns: {
+      id: 'text',
+      name: 'text',
+      color: 'text',
+      icon: 'text',
+      position: 'numeric',
+      hidden: 'json',
+    },
+    orderBy: 'position ASC',
+  },
+  customers: {
+    columns: {
+      id: 'text',
+      name: 'text',
+      phone: 'text',
+      notes: 'text',
+      created_at: 'text',
+    },
+    orderBy: 'name ASC',
+  },
+  dining_tables: {
+    columns: {
+      id: 'text',
+      name: 'text',
+      area: 'text',
+      seats: 'numeric',
+      position: 'numeric',
+    },
+    orderBy: 'position ASC',
+  },
+  parked_carts: {
+    columns: {
+      id: 'text',
+      label: 'text',
+      items: 'json',
+      order_type: 'text',
+      table_id: 'text',
+      delivery: 'json',
+      customer_name: 'text',
+      customer_id: 'text',
+      note: 'text',
+      staff_id: 'text',
+      created_at: 'text',
+    },
+    orderBy: 'created_at ASC',
+  },
+};
+
+export type Row = Record<string, unknown>;
+
+export class UnknownColumnError extends Error {
+  constructor(table: string, column: string) {
+    super(`Unknown column "${column}" on table "${table}"`);
+    this.name = 'UnknownColumnError';
+  }
+}
+
+export class InvalidValueError extends Error {
+  constructor(table: string, column: string) {
+    super(`Invalid value for column "${column}" on table "${table}"`);
+    this.name = 'InvalidValueError';
+  }
+}
+
+// Own keys only, so names like "constructor" are unknown columns rather than
+// reaching SQLite
+const getColumnType = (table: string, column: string): ColumnType => {
+  const { columns } = TABLES[table];
+  if (!Object.hasOwn(columns, column)) throw new UnknownColumnError(table, column);
+  return columns[column];
+};
+
+const SQL_TYPES: Record<ColumnType, string> = {
+  text: 'TEXT',
+  numeric: 'REAL',
+  json: 'TEXT',
+};
+
+export function openDatabase(path: string) {
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+
+  Object.entries(TABLES).forEach(([table, schema]) => {
+    const columns = Object.entries(schema.columns).map(([column, type]) => {
+      if (column === 'id') return 'id TEXT PRIMARY KEY';
+      if (column === 'created_at') return `created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`;
+      return `${column} ${SQL_TYPES[type]}`;
+    });
+    db.exec(`CREATE TABLE IF NOT EXISTS ${table} (${columns.join(', ')})`);
+
+    // Add columns introduced after the database file was created
+    const existing = new Set((db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name));
+    Object.entries(schema.columns)
+      .filter(([column]) => !existing.has(column))
+      .forEach(([column, type]) => db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${SQL_TYPES[type]}`));
+  });
+
+  // Not one of the synced tables; tills only reach it through claimQueueNumber
+  db.exec('CREATE TABLE IF NOT EXISTS queue_counters (queue_date TEXT PRIMARY KEY, last_number INTEGER NOT NULL)');
+
+  const decode = (table: string, row: Row): Row => {
+    const decoded: Row = {};
+    Object.entries(TABLES[table].columns).forEach(([column, type]) => {
+      const value = row[column];
+      decoded[column] = type === 'json' && typeof value === 'string' ? JSON.parse(value) : value;
+    });
+    return decoded;
+  };
+
+  const encode = (table: string, values: Row): Row => {
+    const encoded: Row = {};
+    Object.entries(values).forEach(([column, value]) => {
+      const type = getColumnType(table, column);
+      if (type !== 'json' && value !== null && typeof value === 'object') throw new InvalidValueError(table, column);
+      encoded[column] = type === 'json' && value !== null && value !== undefined ? JSON.stringify(value) : value;
+    });
+    return encoded;
+  };
+
+  const find = (table: string, id: string): Row | undefined => {
+    const row = db.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(id) as Row | undefined;
+    return row && decode(table, row);
+  };
+
+  return {
+    list(table: string): Row[] {
+      const rows = db.prepare(`SELECT * FROM ${table} ORDER BY ${TABLES[table].orderBy}`).all() as Row[];
+      return rows.map(row => decode(table, row));
+    },
+
+    // Inserts the row or overwrites the given columns of an existing one
+    upsert(table: string, id: string | undefined, values: Row): Row {
+      const encoded = encode(table, { ...values, id: id || values.id || randomUUID() });
+      const columns = Object.keys(encoded);
+      const updates = columns.filter(c => c !== 'id').map(c => `${c} = excluded.${c}`);
+      db.prepare(
+        `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(c => `@${c}`).join(', ')})
+         ON CONFLICT(id) DO ${updates.length > 0 ? `UPDATE SET ${updates.join(', ')}` : 'NOTHING'}`
+      ).run(encoded);
+      return find(table, encoded.id as string)!;
+    },
+
+    update(table: string, id: string, values: Row): Row | undefined {
+      const { id: _ignored, ...rest } = values;
+      const encoded = encode(table, rest);
+      const columns = Object.keys(encoded);
+      if (columns.length > 0) {
+        db.prepare(`UPDATE ${table} SET ${columns.map(c => `${c} = @${c}`).join(', ')} WHERE id = @id`)
+          .run({ ...encoded, id });
+      }
+      return find(table, id);
+    },
+
+    // Saves a stock movement and adds its quantity to the ingredient's stock
+    // in one transaction, so concurrent sales from several tills all count. A
+    // movement saved before is skipped and gives undefined, so a till retrying
+    // a request whose response it lost never counts twice.
+    moveStock(values: Row): { movement: Row; ingredient: Row | undefined } | undefined {
+      const encoded = encode('stock_movements', { ...values, id: values.id || randomUUID() });
+      if (typeof encoded.quantity !== 'number') throw new InvalidValueError('stock_movements', 'quantity');
+      const columns = Object.keys(encoded);
+      return db.transaction(() => {
+        const inserted = db.prepare(
+          `INSERT INTO stock_movements (${columns.join(', ')}) VALUES (${columns.map(c => `@${c}`).join(', ')})
+           ON CONFLICT(id) DO NOTHING`
+        ).run(encoded).changes > 0;
+        if (!inserted) return undefined;
+        db.prepare('UPDATE ingredients SET on_hand = COALESCE(on_hand, 0) + ? WHERE id = ?')
+          .run(encoded.quantity, encoded.ingredient_id);
+        return {
+          movement: find('stock_movements', encoded.id as string)!,
+          ingredient: find('ingredients', encoded.ingredient_id as string),
+        };
+      })();
+    },
+
+    remove(table: string, id: string): boolean {
+      return db.prepare(`DELETE FROM ${table} WHERE id = ?`).run(id).changes > 0;
+    },
+
+    // Next queue number for a shop day. A single statement, so two tills
+    // asking at once never get the same number.
+    claimQueueNumber(date: string): number {
+      const row = db.prepare(
+        `INSERT INTO queue_counters (queue_date, last_number) VALUES (?, 1)
+         ON CONFLICT(queue_date) DO UPDATE SET last_number = last_number + 1
+         RETURNING last_number`
+      ).get(date) as { last_number: number };
+      return row.last_number;
+    },
+  };
+}
+
+export type PosDatabase = ReturnType<typeof openDatabase>;
@@ -0,0 +1,168 @@
+import 'dotenv/config';
+import express, { NextFunction, Request, Response } from 'express';
+import Database from 'better-sqlite3';
+import path from 'path';
+import { existsSync } from 'fs';
+import { TABLES, Row, InvalidValueError, UnknownColumnError, openDatabase } from './db';
+
+const PORT = Number(process.env.POS_SERVER_PORT) || 4000;
+const DB_PATH = process.env.POS_DB_PATH || 'pos.sqlite';
+const HEARTBEAT_MS = 25000;
+// Other origins the app may be loaded from, such as the Vite dev server. The
+// app served by this server itself needs no entry.
+const ALLOWED_ORIGINS = new Set(
+  (process.env.POS_ALLOWED_ORIGINS || 'http://localhost:3000')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean)
+);
+
+type Change =
+  | { table: string; type: 'upsert'; row: Row }
+  | { table: string; type: 'delete'; id: string };
+
+// There is no authentication: every device on the network can read and write
+// every table, staff PIN hashes included. Staff permissions are only applied
+// by the app, so the server belongs on a network only the tills can join.
+const db = openDatabase(DB_PATH);
+const app = express();
+const feeds = new Set<Response>();
+
+const broadcast = (change: Change) => {
+  const message = `data: ${JSON.stringify(change)}\n\n`;
+  feeds.forEach(res => res.write(message));
+};
+
+app.use(express.json({ limit: '5mb' }));
+
+// Tills may load the app from an allowed origin such as the Vite dev server.
+// Requests from any other page open in a till's browser are turned away, so
+// it cannot read or change the shop's data.
+app.use((req, res, next) => {
+  const origin = req.get('Origin');
+  if (origin && origin !== `${req.protocol}://${req.get('Host')}`) {
+    if (!ALLOWED_ORIGINS.has(origin)) {
+      res.status(403).json({ error: `Origin ${origin} is not allowed` });
+      return;
+    }
+    res.header('Access-Control-Allow-Origin', origin);
+    res.header('Vary', 'Origin');
+    res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+    res.header('Access-Control-Allow-Headers', 'Content-Type');
+  }
+  if (req.method === 'OPTIONS') {
+    res.sendStatus(204);
+    return;
+  }
+  next();
+});
+
+// Server-sent change feed, the equivalent of Supabase realtime
+app.get('/api/changes', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+  res.write(': connected\n\n');
+  feeds.add(res);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    feeds.delete(res);
+  });
+});
+
+app.post('/api/queue-numbers/:date', (req, res) => {
+  const { date } = req.params;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    res.status(400).json({ error: `Invalid date "${date}"` });
+    return;
+  }
+  res.json({ queueNumber: db.claimQueueNumber(date) });
+});
+
+// Saves a stock movement and applies it to the ingredient's stock. Sending
+// the same movement again changes nothing.
+app.post('/api/stock-movements', (req, res) => {
+  const moved = db.moveStock(req.body);
+  if (moved) {
+    broadcast({ table: 'stock_movements', type: 'upsert', row: moved.movement });
+    if (moved.ingredient) broadcast({ table: 'ingredients', type: 'upsert', row: moved.ingredient });
+  }
+  res.sendStatus(204);
+});
+
+app.param('table', (req, res, next, table: string) => {
+  if (!Object.hasOwn(TABLES, table)) {
+    res.status(404).json({ error: `Unknown table "${table}"` });
+    return;
+  }
+  next();
+});
+
+app.get('/api/:table', (req, res) => {
+  res.json(db.list(req.params.table));
+});
+
+app.put('/api/:table/:id', (req, res) => {
+  const { table, id } = req.params;
+  const row = db.upsert(table, id, req.body);
+  broadcast({ table, type: 'upsert', row });
+  res.json(row);
+});
+
+app.patch('/api/:table/:id', (req, res) => {
+  const { table, id } = req.params;
+  const row = db.update(table, id, req.body);
+  if (!row) {
+    res.status(404).json({ error: `No ${table} row with id "${id}"` });
+    return;
+  }
+  broadcast({ table, type: 'upsert', row });
+  res.json(row);
+});
+
+app.delete('/api/:table/:id', (req, res) => {
+  const { table, id } = req.params;
+  // Tills taking a row (e.g. resuming a parked cart) learn whether they got it
+  if (!db.remove(table, id)) {
+    res.status(404).json({ error: `No ${table} row with id "${id}"` });
+    return;
+  }
+  broadcast({ table, type: 'delete', id });
+  res.sendStatus(204);
+});
+
+// Serve the built app so tills only need the server's address
+const distDir = path.resolve('dist');
+if (existsSync(distDir)) {
+  app.use(express.static(distDir));
+  app.get('*', (req, res) => res.sendFile(path.join(distDir, 'index.html')));
+}
+
+// Rows the server rejects answer 4xx. Tills retry anything 5xx, so a bad row
+// answered that way would hold up every write queued behind it.
+app.use((err: Error & { status?: number }, req: Request, res: Response, next: NextFunction) => {
+  if (
+    err instanceof UnknownColumnError ||
+    err instanceof InvalidValueError ||
+    (err instanceof Database.SqliteError && err.code.startsWith('SQLITE_CONSTRAINT'))
+  ) {
+    res.status(400).json({ error: err.message });
+    return;
+  }
+  // Malformed or oversized request bodies, from express.json
+  if (err.status && err.status >= 400 && err.status < 500) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+  console.error(err);
+  res.status(500).json({ error: 'Internal server error' });
+});
+
+app.listen(PORT, '0.0.0.0', () => {
+  console.log(`POS server listening on http://0.0.0.0:${PORT} (database: ${DB_PATH})`);
+});
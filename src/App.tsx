@@ -5,13 +5,61 @@
 
 import { useState } from 'react';
 import { CashierView } from './components/CashierView';
-import { AdminDashboard } from './components/AdminDashboard';
+import { ADMIN_TABS, AdminDashboard } from './components/AdminDashboard';
+import { KitchenDisplay } from './components/KitchenDisplay';
+import { PickupDisplay } from './components/PickupDisplay';
+import { StaffLogin } from './components/StaffLogin';
 import { useStore } from './hooks/useStore';
-import { LayoutDashboard, Store, Wifi, WifiOff } from 'lucide-react';
+import { ConnectionStatus, NewOrder } from './types';
+import { printOrderDocument } from './lib/printer';
+import { ROLE_LABELS } from './lib/staff';
+import { LayoutDashboard, Store, ChefHat, MonitorPlay, Wifi, WifiOff, RefreshCw, HardDrive, LogOut } from 'lucide-react';
+
+const CONNECTION_BADGES: Record<ConnectionStatus, { label: string; className: string }> = {
+  online: { label: 'Online', className: 'bg-green-50 text-green-600 border border-green-100' },
+  syncing: { label: 'Syncing', className: 'bg-amber-50 text-amber-600 border border-amber-100' },
+  offline: { label: 'Offline', className: 'bg-red-50 text-red-600 border border-red-100' },
+  local: { label: 'Local Only', className: 'bg-gray-100 text-gray-500 border border-gray-200' },
+};
+
+type View = 'cashier' | 'admin' | 'kitchen' | 'pickup';
 
 export default function App() {
-  const [view, setView] = useState<'cashier' | 'admin'>('cashier');
-  const { menu, createOrder, isRealtime } = useStore();
+  const [selectedView, setView] = useState<View>('cashier');
+  const { menu, categories, promotions, ingredients, customers, addCustomer, getCustomerPoints, diningTables, orders, createOrder, amendOrder, parkedCarts, parkCart, resumeParkedCart, deleteParkedCart, currentSession, settings, connectionStatus, pendingSyncCount, currentStaff, signOut, can } = useStore();
+  const badge = CONNECTION_BADGES[connectionStatus];
+
+  const canUseView: Record<View, boolean> = {
+    cashier: can('take_orders'),
+    kitchen: can('use_kitchen'),
+    pickup: can('view_orders'),
+    admin: ADMIN_TABS.some(tab => can(tab.permission)),
+  };
+  // Kitchen staff land straight on the kitchen display
+  const view = canUseView[selectedView] ? selectedView : (['cashier', 'kitchen', 'admin'] as View[]).find(v => canUseView[v]);
+
+  const handleCreateOrder = async (orderData: NewOrder) => {
+    const order = await createOrder(orderData);
+    if (settings.receipt.autoPrintKitchenTicket) {
+      await printOrderDocument('kitchen', order, settings);
+    }
+    if (settings.receipt.autoPrintReceipt) {
+      await printOrderDocument('receipt', order, settings);
+    }
+    return order;
+  };
+
+  if (!currentStaff) {
+    return <StaffLogin />;
+  }
+
+  if (view === 'kitchen') {
+    return <KitchenDisplay onExit={() => canUseView.cashier ? setView('cashier') : signOut()} />;
+  }
+
+  if (view === 'pickup') {
+    return <PickupDisplay onExit={() => setView(canUseView.cashier ? 'cashier' : 'admin')} />;
+  }
 
   return (
     <div className="min-h-screen bg-gray-50 font-sans text-gray-900">
@@ -26,36 +74,81 @@ export default function App() {
           </h1>
           
           {/* Connection Status Badge */}
-          <div className={`ml-4 flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[10px] font-semibold tracking-wide uppercase ${
-            isRealtime ? 'bg-green-50 text-green-600 border border-green-100' : 'bg-gray-100 text-gray-500 border border-gray-200'
-          }`}>
-            {isRealtime ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
-            {isRealtime ? 'Online' : 'Offline'}
+          <div
+            className={`ml-4 flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[10px] font-semibold tracking-wide uppercase ${badge.className}`}
+            title={pendingSyncCount > 0 ? `${pendingSyncCount} change(s) waiting to sync` : undefined}
+          >
+            {connectionStatus === 'online' && <Wifi className="w-3 h-3" />}
+            {connectionStatus === 'syncing' && <RefreshCw className="w-3 h-3 animate-spin" />}
+            {connectionStatus === 'offline' && <WifiOff className="w-3 h-3" />}
+            {connectionStatus === 'local' && <HardDrive className="w-3 h-3" />}
+            {badge.label}
+            {pendingSyncCount > 0 && (
+              <span className="ml-0.5 px-1.5 rounded-full bg-white/80 tabular-nums">{pendingSyncCount}</span>
+            )}
           </div>
         </div>
 
-        <div className="flex bg-gray-100 p-1 rounded-xl">
-          <button
-            onClick={() => setView('cashier')}
-            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
-              view === 'cashier'
-                ? 'bg-white text-orange-600 shadow-sm'
-                : 'text-gray-500 hover:text-gray-700'
-            }`}
-          >
-            <Store className="w-4 h-4" />
-            Cashier
-          </button>
+        <div className="flex items-center gap-3">
+          <div className="flex bg-gray-100 p-1 rounded-xl">
+            {canUseView.cashier && (
+              <button
+                onClick={() => setView('cashier')}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  view === 'cashier'
+                    ? 'bg-white text-orange-600 shadow-sm'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <Store className="w-4 h-4" />
+                Cashier
+              </button>
+            )}
+            {canUseView.kitchen && (
+              <button
+                onClick={() => setView('kitchen')}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all text-gray-500 hover:text-gray-700"
+              >
+                <ChefHat className="w-4 h-4" />
+                Kitchen
+              </button>
+            )}
+            {canUseView.pickup && (
+              <button
+                onClick={() => setView('pickup')}
+                title="Customer pickup screen"
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all text-gray-500 hover:text-gray-700"
+              >
+                <MonitorPlay className="w-4 h-4" />
+                Pickup
+              </button>
+            )}
+            {canUseView.admin && (
+              <button
+                onClick={() => setView('admin')}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  view === 'admin'
+                    ? 'bg-white text-orange-600 shadow-sm'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <LayoutDashboard className="w-4 h-4" />
+                Dashboard
+              </button>
+            )}
+          </div>
+
+          {/* Signed-in staff member */}
+          <div className="text-right leading-tight">
+            <p className="text-sm font-medium text-gray-900">{currentStaff.name}</p>
+            <p className="text-xs text-gray-500">{ROLE_LABELS[currentStaff.role]}</p>
+          </div>
           <button
-            onClick={() => setView('admin')}
-            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
-              view === 'admin'
-                ? 'bg-white text-orange-600 shadow-sm'
-                : 'text-gray-500 hover:text-gray-700'
-            }`}
+            onClick={signOut}
+            title="Sign out"
+            className="p-2 rounded-lg text-gray-500 hover:text-gray-700 hover:bg-gray-100 transition-colors"
           >
-            <LayoutDashboard className="w-4 h-4" />
-            Dashboard
+            <LogOut className="w-5 h-5" />
           </button>
         </div>
       </nav>
@@ -63,10 +156,30 @@ export default function App() {
       {/* Main Content */}
       <main className="max-w-[1600px] mx-auto">
         {view === 'cashier' ? (
-          <CashierView menu={menu} onCreateOrder={createOrder} />
-        ) : (
+          <CashierView
+            menu={menu}
+            categories={categories}
+            promotions={promotions}
+            taxSettings={settings.tax}
+            timeZone={settings.timeZone}
+            ingredients={ingredients}
+            customers={customers}
+            loyaltySettings={settings.loyalty}
+            getCustomerPoints={getCustomerPoints}
+            onAddCustomer={addCustomer}
+            diningTables={diningTables}
+            orders={orders}
+            onCreateOrder={handleCreateOrder}
+            onAmendOrder={amendOrder}
+            parkedCarts={parkedCarts}
+            onParkCart={parkCart}
+            onResumeParkedCart={resumeParkedCart}
+            onDeleteParkedCart={deleteParkedCart}
+            hasOpenSession={Boolean(currentSession)}
+          />
+        ) : view === 'admin' ? (
           <AdminDashboard />
-        )}
+        ) : null}
       </main>
     </div>
   );
@@ -1,11 +1,32 @@
 import { useState } from 'react';
 import React from 'react';
 import { useStore } from '../hooks/useStore';
-import { formatCurrency } from '../utils';
+import { formatCurrency, getOrderLabel } from '../utils';
+import { getOrderPaymentStatus } from '../lib/payments';
+import { Permission } from '../lib/staff';
+import { ORDER_TYPES, ORDER_TYPE_LABELS, describeOrderType, getOrderType } from '../lib/orderTypes';
+import { getRefundState, getRefundableAmount, getRefundedAmount } from '../lib/refunds';
 import { ItemModal } from './ItemModal';
 import { OrderDetailPanel } from './OrderDetailPanel';
 import { DailyAnalytics } from './DailyAnalytics';
-import { MenuItem, Order, OrderStatus } from '../types';
+import { ReportsPanel } from './ReportsPanel';
+import { ExportPanel } from './ExportPanel';
+import { MenuImportModal } from './MenuImportModal';
+import { MenuBulkBar } from './MenuBulkBar';
+import { CategoriesPanel } from './CategoriesPanel';
+import { CategoryBadge } from './CategoryBadge';
+import { downloadFile } from '../lib/exports';
+import { exportMenuCsv, exportMenuJson } from '../lib/menuTransfer';
+import { CashSessionPanel } from './CashSessionPanel';
+import { SettingsPanel } from './SettingsPanel';
+import { BackupPanel } from './BackupPanel';
+import { CustomersPanel } from './CustomersPanel';
+import { TablesPanel } from './TablesPanel';
+import { PromotionsPanel } from './PromotionsPanel';
+import { InventoryPanel } from './InventoryPanel';
+import { StaffPanel } from './StaffPanel';
+import { AdjustmentMode, RefundModal } from './RefundModal';
+import { MenuItem, Order, OrderStatus, OrderType } from '../types';
 import { motion, AnimatePresence } from 'motion/react';
 import { 
   LayoutGrid, 
@@ -17,6 +38,9 @@ import {
   Clock, 
   CheckCircle2, 
   XCircle,
+  Undo2,
+  Upload,
+  Download,
   MoreVertical,
   DollarSign,
   Package,
@@ -27,21 +51,49 @@ import {
   WifiOff
 } from 'lucide-react';
 
+type AdminTab = 'orders' | 'tables' | 'menu' | 'categories' | 'promotions' | 'customers' | 'inventory' | 'analytics' | 'reports' | 'export' | 'shift' | 'staff' | 'settings' | 'backup';
+
+// Each tab is shown only to staff with its permission
+export const ADMIN_TABS: { id: AdminTab; label: string; permission: Permission }[] = [
+  { id: 'orders', label: 'Orders History', permission: 'view_orders' },
+  { id: 'tables', label: 'Tables', permission: 'take_orders' },
+  { id: 'menu', label: 'Menu Management', permission: 'manage_menu' },
+  { id: 'categories', label: 'Categories', permission: 'manage_menu' },
+  { id: 'promotions', label: 'Promotions', permission: 'manage_promotions' },
+  { id: 'customers', label: 'Customers', permission: 'manage_customers' },
+  { id: 'inventory', label: 'Inventory', permission: 'manage_inventory' },
+  { id: 'analytics', label: 'Analytics', permission: 'view_revenue' },
+  { id: 'reports', label: 'Reports', permission: 'view_revenue' },
+  { id: 'export', label: 'Export', permission: 'view_revenue' },
+  { id: 'shift', label: 'Cash Drawer', permission: 'manage_cash_drawer' },
+  { id: 'staff', label: 'Staff', permission: 'manage_staff' },
+  { id: 'settings', label: 'Settings', permission: 'manage_settings' },
+  { id: 'backup', label: 'Backup', permission: 'manage_settings' },
+];
+
 export function AdminDashboard() {
-  const { menu, orders, addMenuItem, updateMenuItem, deleteMenuItem, updateOrderStatus, deleteOrder, isRealtime } = useStore();
-  const [activeTab, setActiveTab] = useState<'orders' | 'menu' | 'analytics'>('orders');
+  const { menu, categories, orders, ingredients, settings, addMenuItem, updateMenuItem, deleteMenuItem, deleteOrder, can, isRealtime } = useStore();
+  const [selectedTab, setSelectedTab] = useState<AdminTab>('orders');
   const [orderFilter, setOrderFilter] = useState<OrderStatus | 'All'>('All');
+  const [orderTypeFilter, setOrderTypeFilter] = useState<OrderType | 'All'>('All');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<MenuItem | undefined>(undefined);
   const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [selectedMenuIds, setSelectedMenuIds] = useState<string[]>([]);
+  const [adjusting, setAdjusting] = useState<{ orderId: string; mode: AdjustmentMode } | null>(null);
 
   // Derive selectedOrder from the live orders array to ensure updates (like checklist toggles) reflect immediately
   const selectedOrder = orders.find(o => o.id === selectedOrderId) || null;
+  const adjustingOrder = adjusting ? orders.find(o => o.id === adjusting.orderId) : undefined;
+
+  const visibleTabs = ADMIN_TABS.filter(tab => can(tab.permission));
+  const activeTab = visibleTabs.some(tab => tab.id === selectedTab) ? selectedTab : visibleTabs[0]?.id;
 
   // Stats
   const totalRevenue = orders
     .filter(o => o.status !== 'Cancelled')
-    .reduce((sum, o) => sum + o.total, 0);
+    .reduce((sum, o) => sum + o.total - getRefundedAmount(o), 0);
   
   const pendingOrders = orders.filter(o => o.status === 'Pending' || o.status === 'Preparing').length;
   const completedOrders = orders.filter(o => o.status === 'Completed' || o.status === 'Picked Up').length;
@@ -60,6 +112,22 @@ export function AdminDashboard() {
     setEditingItem(undefined);
   };
 
+  const toggleMenuSelection = (id: string) => {
+    setSelectedMenuIds(selectedMenuIds.includes(id) ? selectedMenuIds.filter(i => i !== id) : [...selectedMenuIds, id]);
+  };
+
+  // Items deleted elsewhere drop out of the selection
+  const selectedMenuItems = menu.filter(item => selectedMenuIds.includes(item.id));
+
+  const handleExportMenu = (format: 'csv' | 'json') => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+      downloadFile(`menu_${date}.csv`, exportMenuCsv(menu, categories), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(`menu_${date}.json`, exportMenuJson(menu), 'application/json');
+    }
+  };
+
   const handleDeleteOrder = (e: React.MouseEvent, orderId: string) => {
     e.stopPropagation();
     if (window.confirm('Are you sure you want to permanently delete this order? This action cannot be undone.')) {
@@ -67,14 +135,23 @@ export function AdminDashboard() {
     }
   };
 
-  const handleCancelOrder = (e: React.MouseEvent, orderId: string) => {
+  const handleAdjustOrder = (e: React.MouseEvent, orderId: string, mode: AdjustmentMode) => {
     e.stopPropagation();
-    if (window.confirm('Are you sure you want to cancel this order?')) {
-      updateOrderStatus(orderId, 'Cancelled');
-    }
+    setAdjusting({ orderId, mode });
+  };
+
+  // Paid orders are refunded rather than voided, and never deleted, so the
+  // money trail stays intact
+  const canVoidOrder = (order: Order) => {
+    return can('void_orders') && getOrderPaymentStatus(order) === 'Unpaid' && order.status !== 'Cancelled' && order.status !== 'Picked Up';
+  };
+  const canRefundOrder = (order: Order) => can('refund_orders') && getRefundableAmount(order) > 0;
+  const canDeleteOrder = (order: Order) => {
+    return can('delete_orders') && getOrderPaymentStatus(order) === 'Unpaid' && !order.payments?.length && !order.refunds?.length;
   };
 
   const filteredOrders = orders.filter(order => {
+    if (orderTypeFilter !== 'All' && getOrderType(order) !== orderTypeFilter) return false;
     if (orderFilter === 'All') return true;
     return order.status === orderFilter;
   });
@@ -84,16 +161,18 @@ export function AdminDashboard() {
   return (
     <div className="p-6 max-w-7xl mx-auto space-y-8">
       {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <div className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm flex items-center gap-4">
-          <div className="p-3 bg-green-100 rounded-xl text-green-600">
-            <DollarSign className="w-6 h-6" />
-          </div>
-          <div>
-            <p className="text-sm text-gray-500 font-medium">Total Revenue</p>
-            <h3 className="text-2xl font-bold text-gray-900">{formatCurrency(totalRevenue)}</h3>
+      <div className={`grid grid-cols-1 gap-6 ${can('view_revenue') ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+        {can('view_revenue') && (
+          <div className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm flex items-center gap-4">
+            <div className="p-3 bg-green-100 rounded-xl text-green-600">
+              <DollarSign className="w-6 h-6" />
+            </div>
+            <div>
+              <p className="text-sm text-gray-500 font-medium">Total Revenue</p>
+              <h3 className="text-2xl font-bold text-gray-900">{formatCurrency(totalRevenue)}</h3>
+            </div>
           </div>
-        </div>
+        )}
         <div className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm flex items-center gap-4">
           <div className="p-3 bg-orange-100 rounded-xl text-orange-600">
             <Clock className="w-6 h-6" />
@@ -115,40 +194,21 @@ export function AdminDashboard() {
       </div>
 
       {/* Tabs */}
-      <div className="flex gap-6 border-b border-gray-200">
-        <button
-          onClick={() => setActiveTab('orders')}
-          className={`pb-4 text-sm font-medium transition-colors relative ${
-            activeTab === 'orders' ? 'text-orange-600' : 'text-gray-500 hover:text-gray-700'
-          }`}
-        >
-          Orders History
-          {activeTab === 'orders' && (
-            <motion.div layoutId="tab" className="absolute bottom-0 left-0 right-0 h-0.5 bg-orange-500" />
-          )}
-        </button>
-        <button
-          onClick={() => setActiveTab('menu')}
-          className={`pb-4 text-sm font-medium transition-colors relative ${
-            activeTab === 'menu' ? 'text-orange-600' : 'text-gray-500 hover:text-gray-700'
-          }`}
-        >
-          Menu Management
-          {activeTab === 'menu' && (
-            <motion.div layoutId="tab" className="absolute bottom-0 left-0 right-0 h-0.5 bg-orange-500" />
-          )}
-        </button>
-        <button
-          onClick={() => setActiveTab('analytics')}
-          className={`pb-4 text-sm font-medium transition-colors relative ${
-            activeTab === 'analytics' ? 'text-orange-600' : 'text-gray-500 hover:text-gray-700'
-          }`}
-        >
-          Analytics
-          {activeTab === 'analytics' && (
-            <motion.div layoutId="tab" className="absolute bottom-0 left-0 right-0 h-0.5 bg-orange-500" />
-          )}
-        </button>
+      <div className="flex gap-6 border-b border-gray-200 overflow-x-auto scrollbar-hide">
+        {visibleTabs.map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setSelectedTab(tab.id)}
+            className={`pb-4 text-sm font-medium transition-colors relative whitespace-nowrap ${
+              activeTab === tab.id ? 'text-orange-600' : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {tab.label}
+            {activeTab === tab.id && (
+              <motion.div layoutId="tab" className="absolute bottom-0 left-0 right-0 h-0.5 bg-orange-500" />
+            )}
+          </button>
+        ))}
       </div>
 
       {/* Content */}
@@ -170,6 +230,14 @@ export function AdminDashboard() {
                   {status}
                 </button>
               ))}
+              <select
+                value={orderTypeFilter}
+                onChange={(e) => setOrderTypeFilter(e.target.value as OrderType | 'All')}
+                className="ml-auto px-3 py-2 rounded-full text-sm font-medium bg-white text-gray-600 border border-gray-200 outline-none focus:ring-2 focus:ring-orange-500"
+              >
+                <option value="All">All types</option>
+                {ORDER_TYPES.map(type => <option key={type} value={type}>{ORDER_TYPE_LABELS[type]}</option>)}
+              </select>
             </div>
 
             {filteredOrders.map(order => (
@@ -198,11 +266,11 @@ export function AdminDashboard() {
                   <div>
                     <div className="flex items-center gap-2">
                       <h4 className={`font-semibold text-gray-900 ${order.status === 'Cancelled' ? 'line-through text-gray-500' : ''}`}>{order.customerName}</h4>
-                      <span className="text-xs text-gray-400">#{order.id}</span>
+                      <span className="text-xs text-gray-400">{getOrderLabel(order)}</span>
                       {order.status === 'Picked Up' && <Lock className="w-3 h-3 text-gray-400" />}
                     </div>
                     <p className="text-sm text-gray-500">
-                      {order.items.length} items • {new Date(order.createdAt).toLocaleTimeString()}
+                      {describeOrderType(order)} • {order.items.length} items • {new Date(order.createdAt).toLocaleTimeString()}
                     </p>
                   </div>
                 </div>
@@ -211,10 +279,17 @@ export function AdminDashboard() {
                   <div className="text-right">
                     <p className={`font-bold text-gray-900 ${order.status === 'Cancelled' ? 'line-through text-gray-400' : ''}`}>{formatCurrency(order.total)}</p>
                     <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${
-                      order.paymentStatus === 'Paid' ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+                      getOrderPaymentStatus(order) === 'Paid' ? 'bg-green-100 text-green-700' :
+                      getOrderPaymentStatus(order) === 'Partially Paid' ? 'bg-amber-100 text-amber-700' :
+                      'bg-gray-100 text-gray-600'
                     }`}>
-                      {order.paymentStatus}
+                      {getOrderPaymentStatus(order)}
                     </span>
+                    {getRefundState(order) !== 'none' && (
+                      <span className="ml-1 text-xs font-medium px-2 py-0.5 rounded-full bg-red-50 text-red-600">
+                        {getRefundState(order) === 'full' ? 'Refunded' : 'Partially refunded'}
+                      </span>
+                    )}
                   </div>
 
                   <div className="flex gap-2 items-center">
@@ -227,22 +302,33 @@ export function AdminDashboard() {
                     }`}>
                       {order.status}
                     </span>
-                    {order.status !== 'Cancelled' && order.status !== 'Picked Up' && (
+                    {canVoidOrder(order) && (
                       <button
-                        onClick={(e) => handleCancelOrder(e, order.id)}
+                        onClick={(e) => handleAdjustOrder(e, order.id, 'void')}
                         className="p-1.5 text-gray-400 hover:text-orange-500 hover:bg-orange-50 rounded-lg transition-colors"
-                        title="Cancel Order"
+                        title="Void Order"
                       >
                         <XCircle className="w-4 h-4" />
                       </button>
                     )}
-                    <button
-                      onClick={(e) => handleDeleteOrder(e, order.id)}
-                      className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
-                      title="Delete Order"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
+                    {canRefundOrder(order) && (
+                      <button
+                        onClick={(e) => handleAdjustOrder(e, order.id, 'refund')}
+                        className="p-1.5 text-gray-400 hover:text-orange-500 hover:bg-orange-50 rounded-lg transition-colors"
+                        title="Refund"
+                      >
+                        <Undo2 className="w-4 h-4" />
+                      </button>
+                    )}
+                    {canDeleteOrder(order) && (
+                      <button
+                        onClick={(e) => handleDeleteOrder(e, order.id)}
+                        className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Delete Order"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                 </div>
               </motion.div>
@@ -254,9 +340,42 @@ export function AdminDashboard() {
               </div>
             )}
           </div>
+        ) : activeTab === 'tables' ? (
+          <TablesPanel onOpenOrder={setSelectedOrderId} />
         ) : activeTab === 'menu' ? (
           <div>
-            <div className="flex justify-end mb-6">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-6">
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setIsImportOpen(true)}
+                  className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+                >
+                  <Upload className="w-4 h-4" />
+                  Import
+                </button>
+                <button
+                  onClick={() => handleExportMenu('csv')}
+                  className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  CSV
+                </button>
+                <button
+                  onClick={() => handleExportMenu('json')}
+                  className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  JSON
+                </button>
+                {menu.length > 0 && (
+                  <button
+                    onClick={() => setSelectedMenuIds(selectedMenuItems.length === menu.length ? [] : menu.map(item => item.id))}
+                    className="px-3 py-2 text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    {selectedMenuItems.length === menu.length ? 'Select none' : 'Select all'}
+                  </button>
+                )}
+              </div>
               <button
                 onClick={() => {
                   setEditingItem(undefined);
@@ -269,13 +388,28 @@ export function AdminDashboard() {
               </button>
             </div>
 
+            {selectedMenuItems.length > 0 && (
+              <MenuBulkBar items={selectedMenuItems} onClear={() => setSelectedMenuIds([])} />
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {menu.map(item => (
-                <div key={item.id} className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm group hover:shadow-md transition-all">
+                <div
+                  key={item.id}
+                  className={`bg-white p-4 rounded-xl border shadow-sm group hover:shadow-md transition-all ${
+                    selectedMenuIds.includes(item.id) ? 'border-orange-300 ring-1 ring-orange-200' : 'border-gray-100'
+                  }`}
+                >
                   <div className="flex justify-between items-start mb-2">
-                    <span className="text-xs font-medium text-gray-500 bg-gray-100 px-2 py-1 rounded-md">
-                      {item.category}
-                    </span>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedMenuIds.includes(item.id)}
+                        onChange={() => toggleMenuSelection(item.id)}
+                        className="rounded text-orange-500 focus:ring-orange-500"
+                      />
+                      <CategoryBadge category={categories.find(c => c.id === item.category)} />
+                    </label>
                     <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                       <button
                         onClick={() => handleEdit(item)}
@@ -283,12 +417,14 @@ export function AdminDashboard() {
                       >
                         <Edit2 className="w-4 h-4" />
                       </button>
-                      <button
-                        onClick={() => deleteMenuItem(item.id)}
-                        className="p-1.5 hover:bg-red-50 text-red-600 rounded-lg"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
+                      {can('delete_menu_items') && (
+                        <button
+                          onClick={() => deleteMenuItem(item.id)}
+                          className="p-1.5 hover:bg-red-50 text-red-600 rounded-lg"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
                     </div>
                   </div>
                   
@@ -307,9 +443,29 @@ export function AdminDashboard() {
               ))}
             </div>
           </div>
-        ) : (
-          <DailyAnalytics orders={orders} />
-        )}
+        ) : activeTab === 'categories' ? (
+          <CategoriesPanel />
+        ) : activeTab === 'promotions' ? (
+          <PromotionsPanel />
+        ) : activeTab === 'customers' ? (
+          <CustomersPanel />
+        ) : activeTab === 'inventory' ? (
+          <InventoryPanel />
+        ) : activeTab === 'analytics' ? (
+          <DailyAnalytics orders={orders} timeZone={settings.timeZone} />
+        ) : activeTab === 'reports' ? (
+          <ReportsPanel orders={orders} menu={menu} categories={categories} timeZone={settings.timeZone} />
+        ) : activeTab === 'export' ? (
+          <ExportPanel />
+        ) : activeTab === 'shift' ? (
+          <CashSessionPanel />
+        ) : activeTab === 'staff' ? (
+          <StaffPanel />
+        ) : activeTab === 'settings' ? (
+          <SettingsPanel />
+        ) : activeTab === 'backup' ? (
+          <BackupPanel />
+        ) : null}
       </div>
 
       <ItemModal
@@ -317,6 +473,9 @@ export function AdminDashboard() {
         onClose={() => setIsModalOpen(false)}
         onSave={handleSaveItem}
         initialData={editingItem}
+        ingredients={ingredients}
+        categories={categories}
+        stations={settings.stations}
       />
 
       <AnimatePresence>
@@ -327,6 +486,20 @@ export function AdminDashboard() {
           />
         )}
       </AnimatePresence>
+
+      <AnimatePresence>
+        {isImportOpen && <MenuImportModal onClose={() => setIsImportOpen(false)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {adjusting && adjustingOrder && (
+          <RefundModal
+            order={adjustingOrder}
+            mode={adjusting.mode}
+            onClose={() => setAdjusting(null)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
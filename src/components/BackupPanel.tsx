@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { useStore } from '../hooks/useStore';
+import { downloadFile } from '../lib/exports';
+import { BACKUP_TABLE_LABELS, Backup, BackupError, RestoreMode, getBackupFileName, parseBackup } from '../lib/backup';
+import { DatabaseBackup, Download, Upload, AlertTriangle } from 'lucide-react';
+
+const BACKEND_LABELS: Record<string, string> = {
+  supabase: 'Supabase',
+  server: 'POS server',
+  local: 'this browser',
+  memory: 'memory',
+};
+
+const RESTORE_MODES: { id: RestoreMode; label: string; description: string }[] = [
+  { id: 'merge', label: 'Merge', description: 'Add and update records from the backup, keep everything else' },
+  { id: 'replace', label: 'Replace', description: 'Make the data match the backup. Orders are never removed.' },
+];
+
+export function BackupPanel() {
+  const { backendKind, createBackup, previewRestore, restoreBackup } = useStore();
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [restored, setRestored] = useState(false);
+
+  // Memoised so records given new ids keep the ids they were previewed with
+  const plan = useMemo(() => backup ? previewRestore(backup, mode) : null, [backup, mode]);
+  const changeCount = plan ? plan.tables.reduce((sum, t) => sum + t.upserts.length + t.removals.length, 0) : 0;
+
+  const handleDownload = () => {
+    const data = createBackup();
+    downloadFile(getBackupFileName(data), JSON.stringify(data), 'application/json');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    setBackup(null);
+    setError('');
+    setRestored(false);
+    try {
+      setBackup(parseBackup(await file.text()));
+    } catch (err) {
+      if (!(err instanceof BackupError)) throw err;
+      setError(err.message);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!plan) return;
+    if (!window.confirm(`Apply ${changeCount} changes from this backup? This cannot be undone.`)) return;
+    restoreBackup(plan);
+    setBackup(null);
+    setRestored(true);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-4">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <DatabaseBackup className="w-5 h-5 text-orange-500" />
+          Backup
+        </h3>
+        <p className="text-sm text-gray-500">
+          Downloads the menu, orders, settings, promotions, stock, cash drawer history and staff as one file.
+          Data is currently stored in {BACKEND_LABELS[backendKind] ?? backendKind}.
+        </p>
+        <button
+          onClick={handleDownload}
+          className="flex items-center gap-2 px-4 py-2 bg-orange-500 text-white rounded-xl hover:bg-orange-600 transition-colors shadow-sm shadow-orange-200"
+        >
+          <Download className="w-4 h-4" />
+          Download Backup
+        </button>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-4">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <Upload className="w-5 h-5 text-orange-500" />
+          Restore
+        </h3>
+        <p className="text-sm text-gray-500">
+          Restoring a backup from another till moves its data here, including from browser storage to Supabase.
+        </p>
+        <label className="flex items-center justify-center gap-2 p-4 border-2 border-dashed border-gray-200 rounded-xl cursor-pointer hover:border-orange-300 hover:bg-orange-50/40 transition-colors text-sm font-medium text-gray-700">
+          <Upload className="w-4 h-4 text-gray-400" />
+          {fileName || 'Choose a backup file'}
+          <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+        </label>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {restored && <p className="text-sm text-green-600">Backup restored.</p>}
+
+        {backup && plan && (
+          <div className="space-y-4">
+            <p className="text-xs text-gray-500">
+              {backup.shopName || 'Backup'} from {new Date(backup.createdAt).toLocaleString()}, taken from {BACKEND_LABELS[backup.source] ?? backup.source}
+            </p>
+
+            <div className="grid grid-cols-2 gap-2">
+              {RESTORE_MODES.map(m => (
+                <button
+                  key={m.id}
+                  onClick={() => setMode(m.id)}
+                  className={`p-3 rounded-xl border text-left transition-colors ${
+                    mode === m.id ? 'border-orange-500 bg-orange-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <p className="text-sm font-medium text-gray-900">{m.label}</p>
+                  <p className="text-xs text-gray-500">{m.description}</p>
+                </button>
+              ))}
+            </div>
+
+            <table className="w-full text-sm">
+              <thead className="text-gray-500 text-left">
+                <tr>
+                  <th className="py-1 font-medium" />
+                  <th className="py-1 font-medium text-right">New</th>
+                  <th className="py-1 font-medium text-right">Updated</th>
+                  <th className="py-1 font-medium text-right">Removed</th>
+                  <th className="py-1 font-medium text-right">Same</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {plan.tables.map(t => (
+                  <tr key={t.table}>
+                    <td className="py-1.5 text-gray-900">{BACKUP_TABLE_LABELS[t.table]}</td>
+                    <td className="py-1.5 text-right tabular-nums text-green-600">{t.added || '—'}</td>
+                    <td className="py-1.5 text-right tabular-nums text-blue-600">{t.updated || '—'}</td>
+                    <td className="py-1.5 text-right tabular-nums text-red-600">{t.removals.length || '—'}</td>
+                    <td className="py-1.5 text-right tabular-nums text-gray-400">{t.unchanged}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {plan.staffWithoutPin.length > 0 && (
+              <p className="text-xs text-amber-700 flex items-start gap-1.5">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                The backup has no PIN for {plan.staffWithoutPin.map(s => s.name).join(', ')}, so they will not be restored. Backups from Supabase leave PINs out; add these staff again under Staff.
+              </p>
+            )}
+
+            {plan.tables.some(t => t.removals.length > 0) && (
+              <p className="text-xs text-amber-700 flex items-start gap-1.5">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                Records that are not in the backup will be deleted. Download a backup of the current data first.
+              </p>
+            )}
+
+            <button
+              onClick={handleRestore}
+              disabled={changeCount === 0}
+              className="w-full px-4 py-2 text-white bg-orange-500 hover:bg-orange-600 rounded-xl font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {changeCount === 0 ? 'Nothing to restore' : `Restore ${changeCount} changes`}
+            </button>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { CashMovementType, CashSession } from '../types';
+import { formatCurrency } from '../utils';
+import { useStore } from '../hooks/useStore';
+import { CASH_MOVEMENT_TYPES, buildZReport, getExpectedCash } from '../lib/cashSession';
+import { PAYMENT_METHODS } from '../lib/payments';
+import { Wallet, ArrowDownCircle, ArrowUpCircle, Lock, Unlock, FileText, ChevronDown } from 'lucide-react';
+
+export function CashSessionPanel() {
+  const { orders, cashSessions, tillId, currentSession, openCashSession, addCashMovement, closeCashSession } = useStore();
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [movementType, setMovementType] = useState<CashMovementType>('Payout');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [countedCash, setCountedCash] = useState('');
+  const [closingNote, setClosingNote] = useState('');
+  const [expandedSessionId, setExpandedSessionId] = useState<string | null>(null);
+
+  const closedSessions = cashSessions.filter(s => s.closedAt);
+
+  const handleOpen = (e: React.FormEvent) => {
+    e.preventDefault();
+    openCashSession(parseInt(openingFloat) || 0);
+    setOpeningFloat('');
+  };
+
+  const handleMovement = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseInt(movementAmount) || 0;
+    if (amount <= 0) return;
+    addCashMovement(movementType, amount, movementReason.trim() || undefined);
+    setMovementAmount('');
+    setMovementReason('');
+  };
+
+  const handleClose = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentSession) return;
+    if (!window.confirm('Close this shift? The drawer count cannot be changed afterwards.')) return;
+    closeCashSession(parseInt(countedCash) || 0, closingNote.trim() || undefined);
+    setExpandedSessionId(currentSession.id);
+    setCountedCash('');
+    setClosingNote('');
+  };
+
+  return (
+    <div className="space-y-6">
+      {currentSession ? (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-4">
+            <div className="flex items-center gap-2 text-green-600 font-semibold">
+              <Unlock className="w-5 h-5" />
+              Shift Open
+            </div>
+            <div className="text-sm text-gray-500 space-y-1">
+              <p>Opened {new Date(currentSession.openedAt).toLocaleString()}</p>
+              <p>Opening float {formatCurrency(currentSession.openingFloat)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 font-medium mb-1">Expected Cash in Drawer</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(getExpectedCash(currentSession, orders))}</p>
+            </div>
+          </div>
+
+          <form onSubmit={handleMovement} className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-3">
+            <h3 className="font-semibold text-gray-900">Cash In / Out</h3>
+            <div className="flex bg-gray-100 rounded-lg p-1">
+              {CASH_MOVEMENT_TYPES.map(type => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => setMovementType(type)}
+                  className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${
+                    movementType === type ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+            <input
+              type="number"
+              min="1"
+              required
+              placeholder="Amount (Rp)"
+              value={movementAmount}
+              onChange={(e) => setMovementAmount(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm"
+            />
+            <input
+              type="text"
+              placeholder="Reason (e.g. ice delivery, bank drop)"
+              value={movementReason}
+              onChange={(e) => setMovementReason(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm"
+            />
+            <button type="submit" className="w-full py-2 text-sm font-medium text-white bg-gray-900 hover:bg-gray-800 rounded-xl">
+              Record {movementType}
+            </button>
+
+            {currentSession.movements.length > 0 && (
+              <ul className="pt-3 border-t border-gray-100 space-y-1.5 text-sm">
+                {currentSession.movements.map(m => (
+                  <li key={m.id} className="flex justify-between text-gray-600">
+                    <span className="flex items-center gap-1.5">
+                      {m.type === 'Pay In'
+                        ? <ArrowDownCircle className="w-3.5 h-3.5 text-green-500" />
+                        : <ArrowUpCircle className="w-3.5 h-3.5 text-red-500" />}
+                      {m.type}{m.reason ? ` · ${m.reason}` : ''}
+                    </span>
+                    <span className="font-medium">{formatCurrency(m.amount)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </form>
+
+          <form onSubmit={handleClose} className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-3">
+            <h3 className="font-semibold text-gray-900">Close Shift</h3>
+            <input
+              type="number"
+              min="0"
+              required
+              placeholder="Counted cash (Rp)"
+              value={countedCash}
+              onChange={(e) => setCountedCash(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm"
+            />
+            <input
+              type="text"
+              placeholder="Closing note (optional)"
+              value={closingNote}
+              onChange={(e) => setClosingNote(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm"
+            />
+            <button type="submit" className="w-full py-2 text-sm font-medium text-white bg-orange-500 hover:bg-orange-600 rounded-xl flex items-center justify-center gap-2 shadow-sm shadow-orange-200">
+              <Lock className="w-4 h-4" />
+              Close Shift
+            </button>
+          </form>
+        </div>
+      ) : (
+        <form onSubmit={handleOpen} className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm flex flex-col md:flex-row md:items-end gap-4">
+          <div className="flex-1">
+            <div className="flex items-center gap-2 text-gray-900 font-semibold mb-1">
+              <Wallet className="w-5 h-5 text-orange-500" />
+              No shift open
+            </div>
+            <p className="text-sm text-gray-500">Count the starting cash in the drawer to open a new shift.</p>
+          </div>
+          <input
+            type="number"
+            min="0"
+            required
+            placeholder="Opening float (Rp)"
+            value={openingFloat}
+            onChange={(e) => setOpeningFloat(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm"
+          />
+          <button type="submit" className="px-4 py-2 text-sm font-medium text-white bg-orange-500 hover:bg-orange-600 rounded-xl shadow-lg shadow-orange-200">
+            Open Shift
+          </button>
+        </form>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <FileText className="w-4 h-4" />
+          Closed Shifts
+        </h3>
+        {closedSessions.length === 0 && (
+          <p className="text-sm text-gray-400">No closed shifts yet</p>
+        )}
+        {closedSessions.map(session => (
+          <div key={session.id} className="bg-white rounded-xl border border-gray-100 shadow-sm">
+            <button
+              onClick={() => setExpandedSessionId(expandedSessionId === session.id ? null : session.id)}
+              className="w-full p-4 flex items-center justify-between text-left"
+            >
+              <div>
+                <p className="font-medium text-gray-900">
+                  {new Date(session.openedAt).toLocaleString()} – {new Date(session.closedAt!).toLocaleTimeString()}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {session.tillId === tillId ? 'This till' : 'Another till'} · Counted {formatCurrency(session.countedCash || 0)}
+                </p>
+              </div>
+              <ChevronDown className={`w-4 h-4 text-gray-400 transition-transform ${expandedSessionId === session.id ? 'rotate-180' : ''}`} />
+            </button>
+            <AnimatePresence>
+              {expandedSessionId === session.id && (
+                <motion.div
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: 'auto', opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  className="overflow-hidden"
+                >
+                  <ZReportView session={session} />
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ZReportView({ session }: { session: CashSession }) {
+  const { orders } = useStore();
+  const report = buildZReport(session, orders);
+  const variance = report.variance || 0;
+
+  const row = (label: string, value: number, emphasis = false) => (
+    <div className={`flex justify-between ${emphasis ? 'font-semibold text-gray-900' : 'text-gray-600'}`}>
+      <span>{label}</span>
+      <span>{formatCurrency(value)}</span>
+    </div>
+  );
+
+  return (
+    <div className="px-4 pb-4 grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+      <div className="space-y-1.5">
+        <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Cash Drawer</p>
+        {row('Opening float', report.openingFloat)}
+        {row('Cash sales', report.cashSales)}
+        {row('Cash refunds', -report.cashRefunds)}
+        {row('Pay ins', report.payIns)}
+        {row('Payouts', -report.payouts)}
+        {row('Drops', -report.drops)}
+        {row('Expected cash', report.expectedCash, true)}
+        {row('Counted cash', report.countedCash || 0, true)}
+        <div className={`flex justify-between font-semibold ${
+          variance === 0 ? 'text-green-600' : variance > 0 ? 'text-blue-600' : 'text-red-600'
+        }`}>
+          <span>{variance === 0 ? 'Balanced' : variance > 0 ? 'Over' : 'Short'}</span>
+          <span>{formatCurrency(variance)}</span>
+        </div>
+        {session.closingNote && <p className="text-xs text-gray-500 italic pt-1">{session.closingNote}</p>}
+      </div>
+      <div className="space-y-1.5">
+        <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Sales</p>
+        {row('Gross sales', report.grossSales, true)}
+        {PAYMENT_METHODS.map(method => row(method, report.salesByMethod[method]))}
+        {row('Refunds', -report.refunds)}
+        {row('Unpaid balance', report.unpaidTotal)}
+        <div className="flex justify-between text-gray-600">
+          <span>Orders / cancelled</span>
+          <span>{report.orderCount} / {report.cancelledCount}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,46 +1,265 @@
 import { useState } from 'react';
-import { MenuItem, CartItem, Category } from '../types';
-import { calculateItemTotal, formatCurrency } from '../utils';
+import { MenuItem, CartItem, Category, Customer, DiningTable, LoyaltySettings, Order, OrderType, NewOrder, ParkedCart, Tender, SelectedModifier, Promotion, TaxSettings, Ingredient } from '../types';
+import { formatCurrency, generateId, getLineId, getOrderLabel } from '../utils';
+import { getCategoryName } from '../lib/categories';
+import { LoyaltyError, applyPointsRedemption, getMaxRedeemablePoints } from '../lib/loyalty';
+import { DELIVERY_PLATFORMS, ORDER_TYPES, ORDER_TYPE_LABELS, describeOrderType } from '../lib/orderTypes';
+import { TableError } from '../lib/tables';
+import { AmendmentError, isLineLocked, isOrderOpen } from '../lib/amendments';
+import { describeParkedCart, refreshParkedItems } from '../lib/parkedCarts';
+import { priceCart } from '../lib/promotions';
+import { calculateOrderTotals } from '../lib/totals';
+import { getAvailableQuantity, getStockUsage } from '../lib/inventory';
+import { describeModifiers, getCartLineKey, getLineKey, hasModifiers } from '../lib/modifiers';
+import { ModifierPicker } from './ModifierPicker';
+import { CustomerPicker } from './CustomerPicker';
+import { TableMap } from './TableMap';
+import { CATEGORY_COLOR_CLASSES, CATEGORY_ICON_COMPONENTS } from './CategoryBadge';
+import { getAmountPaid, getBalanceDue, getChangeDue, getOrderBalanceDue } from '../lib/payments';
+import { TenderForm, TenderList } from './TenderForm';
+import { OrderSummaryLines } from './OrderSummaryLines';
 import { motion, AnimatePresence } from 'motion/react';
-import { Plus, Minus, Tag, ShoppingCart, Trash2, CreditCard, User, FileText, CheckCircle, AlertCircle, Search, Filter } from 'lucide-react';
+import { Plus, Minus, Tag, ShoppingCart, Trash2, CreditCard, Star, FileText, CheckCircle, AlertCircle, Search, Filter, Utensils, ShoppingBag, Bike, LucideIcon, LayoutGrid, X, ChefHat, FolderOpen, PencilLine, CirclePause } from 'lucide-react';
+
+// Cards show how many are left once stock gets this low
+const LOW_AVAILABILITY = 5;
+
+const ORDER_TYPE_ICONS: Record<OrderType, LucideIcon> = {
+  dine_in: Utensils,
+  takeaway: ShoppingBag,
+  delivery: Bike,
+};
 
 interface CashierViewProps {
   menu: MenuItem[];
-  onCreateOrder: (order: any) => void;
+  categories: Category[];
+  promotions: Promotion[];
+  taxSettings: TaxSettings;
+  timeZone: string;
+  ingredients: Ingredient[];
+  customers: Customer[];
+  loyaltySettings: LoyaltySettings;
+  getCustomerPoints: (customerId: string) => number;
+  onAddCustomer: (customer: Omit<Customer, 'id' | 'createdAt'>) => Customer;
+  diningTables: DiningTable[];
+  orders: Order[]; // For reopening unpaid orders and the tabs on each table
+  onCreateOrder: (order: NewOrder) => Promise<Order>;
+  onAmendOrder: (orderId: string, items: CartItem[]) => void;
+  parkedCarts: ParkedCart[];
+  onParkCart: (cart: Omit<ParkedCart, 'id' | 'staffId' | 'createdAt'>) => ParkedCart;
+  onResumeParkedCart: (id: string) => Promise<ParkedCart | undefined>;
+  onDeleteParkedCart: (id: string) => void;
+  hasOpenSession: boolean;
 }
 
-export function CashierView({ menu, onCreateOrder }: CashierViewProps) {
+export function CashierView({
+  menu,
+  categories,
+  promotions,
+  taxSettings,
+  timeZone,
+  ingredients,
+  customers,
+  loyaltySettings,
+  getCustomerPoints,
+  onAddCustomer,
+  diningTables,
+  orders,
+  onCreateOrder,
+  onAmendOrder,
+  parkedCarts,
+  onParkCart,
+  onResumeParkedCart,
+  onDeleteParkedCart,
+  hasOpenSession,
+}: CashierViewProps) {
   const [cart, setCart] = useState<CartItem[]>([]);
   const [customerName, setCustomerName] = useState('');
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [pointsToRedeem, setPointsToRedeem] = useState(0);
+  const [orderType, setOrderType] = useState<OrderType>('takeaway');
+  const [tableId, setTableId] = useState<string | null>(null);
+  const [isTablePickerOpen, setIsTablePickerOpen] = useState(false);
+  const [deliveryPlatform, setDeliveryPlatform] = useState(DELIVERY_PLATFORMS[0]);
+  const [deliveryReference, setDeliveryReference] = useState('');
+  const [orderError, setOrderError] = useState('');
+  // The unpaid order reopened for changes; the cart then holds its lines
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isOpenOrdersOpen, setIsOpenOrdersOpen] = useState(false);
+  const [parkLabel, setParkLabel] = useState<string | null>(null); // Set while naming a cart to park
+  const [isParkedListOpen, setIsParkedListOpen] = useState(false);
   const [globalNote, setGlobalNote] = useState('');
-  const [paymentStatus, setPaymentStatus] = useState<'Paid' | 'Unpaid'>('Unpaid');
+  const [tenders, setTenders] = useState<Tender[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState<Category | 'All'>('All');
+  const [selectedCategory, setSelectedCategory] = useState<string>('All');
+
+  const [modifierItem, setModifierItem] = useState<MenuItem | null>(null);
 
-  const addToCart = (item: MenuItem) => {
+  const addToCart = (item: MenuItem, modifiers: SelectedModifier[] = []) => {
+    const key = getLineKey(item.id, modifiers);
     setCart(prev => {
-      const existing = prev.find(i => i.id === item.id);
+      // Lines the kitchen has made stay as they are; more of the same is a new line
+      const existing = prev.find(i => getCartLineKey(i) === key && !isLineLocked(i));
       if (existing) {
-        return prev.map(i => i.id === item.id ? { ...i, quantity: i.quantity + 1 } : i);
+        return prev.map(i => i === existing ? { ...i, quantity: i.quantity + 1 } : i);
       }
-      return [...prev, { ...item, quantity: 1 }];
+      return [...prev, { ...item, lineId: generateId(), modifiers, quantity: 1 }];
+    });
+  };
+
+  const editing = editingId ? orders.find(o => o.id === editingId) : undefined;
+  const openOrders = orders
+    .filter(isOrderOpen)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  // Stock the cart still needs, so the grid shows what is left to sell. A
+  // reopened order's own lines have taken theirs already.
+  const reservedStock = getStockUsage(cart, menu);
+  if (editing) {
+    getStockUsage(editing.items, menu).forEach((quantity, ingredientId) => {
+      reservedStock.set(ingredientId, (reservedStock.get(ingredientId) || 0) - quantity);
     });
+  }
+  const getAvailable = (item: MenuItem) => getAvailableQuantity(item, ingredients, reservedStock);
+
+  // Items with modifier groups ask for their options first
+  const handleMenuItemClick = (item: MenuItem) => {
+    if (getAvailable(item) <= 0) return;
+    if (hasModifiers(item)) {
+      setModifierItem(item);
+    } else {
+      addToCart(item);
+    }
   };
 
-  const updateQuantity = (itemId: string, delta: number) => {
+  const updateQuantity = (lineId: string, delta: number) => {
     setCart(prev => prev.map(item => {
-      if (item.id === itemId) {
+      if (getLineId(item) === lineId) {
         return { ...item, quantity: Math.max(0, item.quantity + delta) };
       }
       return item;
     }).filter(item => item.quantity > 0));
   };
 
-  const updateItemNote = (itemId: string, note: string) => {
-    setCart(prev => prev.map(item => item.id === itemId ? { ...item, note } : item));
+  const updateItemNote = (lineId: string, note: string) => {
+    setCart(prev => prev.map(item => getLineId(item) === lineId ? { ...item, note } : item));
+  };
+
+  // More of a line the kitchen has made goes on a new line for them to make
+  const addMoreOf = (item: CartItem) => {
+    const menuItem = menu.find(m => m.id === item.id);
+    if (menuItem) addToCart(menuItem, item.modifiers);
   };
 
-  const cartTotal = cart.reduce((sum, item) => sum + calculateItemTotal(item, item.quantity), 0);
+  const table = orderType === 'dine_in' ? diningTables.find(t => t.id === tableId) : undefined;
+
+  // Anything already in the cart is added to the reopened order
+  const startEditing = (order: Order) => {
+    setEditingId(order.id);
+    setCart(prev => [...order.items, ...prev]);
+    setTenders([]);
+    setPointsToRedeem(0);
+    setOrderError('');
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    setCart([]);
+    setOrderError('');
+  };
+
+  const customerPoints = customer ? getCustomerPoints(customer.id) : 0;
+  const promotionPricing = priceCart(cart, promotions, menu, timeZone);
+  const maxRedeemable = customer && !editingId ? getMaxRedeemablePoints(customerPoints, promotionPricing.total, loyaltySettings) : 0;
+  // A reopened order keeps the points it redeemed
+  const pointsRedeemed = editingId ? editing?.loyalty?.pointsRedeemed || 0 : Math.min(pointsToRedeem, maxRedeemable);
+  const pricing = applyPointsRedemption(promotionPricing, pointsRedeemed, loyaltySettings);
+  const totals = calculateOrderTotals(cart, pricing, taxSettings);
+  const cartTotal = totals.total;
+  const amountPaid = getAmountPaid(tenders);
+  const balanceDue = getBalanceDue(cartTotal, tenders);
+  const changeDue = getChangeDue(tenders);
+
+  const removeTender = (tenderId: string) => {
+    setTenders(prev => prev.filter(t => t.id !== tenderId));
+  };
+
+  const clearCart = () => {
+    if (editingId) {
+      stopEditing();
+      return;
+    }
+    setCart([]);
+    setTenders([]);
+    setPointsToRedeem(0);
+  };
+
+  // Back to an empty till for the next customer
+  const resetTill = () => {
+    setCart([]);
+    setEditingId(null);
+    setCustomerName('');
+    setCustomer(null);
+    setPointsToRedeem(0);
+    setTableId(null);
+    setDeliveryReference('');
+    setGlobalNote('');
+    setTenders([]);
+  };
+
+  const handlePark = (label: string) => {
+    onParkCart({
+      label,
+      items: cart,
+      orderType,
+      tableId: table?.id,
+      delivery: orderType === 'delivery' ? { platform: deliveryPlatform, reference: deliveryReference.trim() || undefined } : undefined,
+      customerName: customer?.name || customerName.trim() || undefined,
+      customerId: customer?.id,
+      note: globalNote || undefined,
+    });
+    resetTill();
+    setParkLabel(null);
+  };
+
+  const handleResume = async (parked: ParkedCart) => {
+    setIsParkedListOpen(false);
+    let resumed: ParkedCart | undefined;
+    try {
+      resumed = await onResumeParkedCart(parked.id);
+    } catch (e) {
+      setOrderError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    if (!resumed) {
+      setOrderError('That cart was already resumed at another till');
+      return;
+    }
+    const { items, missing } = refreshParkedItems(resumed.items, menu);
+    setCart(items);
+    setOrderType(resumed.orderType);
+    setTableId(resumed.tableId ?? null);
+    setDeliveryPlatform(resumed.delivery?.platform ?? DELIVERY_PLATFORMS[0]);
+    setDeliveryReference(resumed.delivery?.reference ?? '');
+    setCustomer(customers.find(c => c.id === resumed.customerId) ?? null);
+    setCustomerName(resumed.customerName ?? '');
+    setPointsToRedeem(0);
+    setGlobalNote(resumed.note ?? '');
+    setTenders([]);
+    setOrderError(missing.length > 0 ? `No longer on the menu: ${missing.join(', ')}` : '');
+  };
+
+  const handleDeleteParked = (parked: ParkedCart) => {
+    if (window.confirm(`Discard the parked cart "${parked.label}"?`)) {
+      onDeleteParkedCart(parked.id);
+    }
+  };
+
+  const handleSelectCustomer = (picked: Customer | null) => {
+    setCustomer(picked);
+    setCustomerName(picked?.name ?? '');
+    setPointsToRedeem(0);
+  };
 
   const [isConfirming, setIsConfirming] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
@@ -49,39 +268,62 @@ export function CashierView({ menu, onCreateOrder }: CashierViewProps) {
     if (cart.length === 0) return;
     
     setIsConfirming(true);
+    setOrderError('');
     
     // Simulate processing delay for animation
     await new Promise(resolve => setTimeout(resolve, 600));
 
-    onCreateOrder({
-      customerName: customerName || 'Guest',
-      items: cart,
-      total: cartTotal,
-      paymentStatus,
-      note: globalNote,
-    });
+    try {
+      if (editingId) {
+        onAmendOrder(editingId, cart);
+      } else {
+        await onCreateOrder({
+          orderType,
+          tableId: table?.id,
+          delivery: orderType === 'delivery' ? { platform: deliveryPlatform, reference: deliveryReference.trim() || undefined } : undefined,
+          customerName: customer?.name || customerName || 'Guest',
+          customerId: customer?.id,
+          loyalty: customer ? { earnRate: loyaltySettings.enabled ? loyaltySettings.spendPerPoint : 0, pointsRedeemed } : undefined,
+          items: cart.map((item, index) => ({ ...item, discount: pricing.lines[index].discount })),
+          ...totals,
+          appliedPromotions: pricing.applied,
+          payments: tenders,
+          note: globalNote,
+        });
+      }
+    } catch (e) {
+      // Anything from permissions to a status the order can no longer take is
+      // shown here; rethrowing from a click handler would leave the till spinning
+      if (!(e instanceof TableError) && !(e instanceof LoyaltyError) && !(e instanceof AmendmentError)) {
+        console.error('Failed to save order', e);
+      }
+      setOrderError(e instanceof Error ? e.message : String(e));
+      return;
+    } finally {
+      setIsConfirming(false);
+    }
 
-    setIsConfirming(false);
     setShowSuccess(true);
 
     // Reset after showing success
     setTimeout(() => {
-      setCart([]);
-      setCustomerName('');
-      setGlobalNote('');
-      setPaymentStatus('Unpaid');
+      resetTill();
       setShowSuccess(false);
     }, 1500);
   };
 
+  // Hidden categories are left off the till altogether
+  const tillCategories = categories.filter(c => !c.hidden);
+  const activeCategory = tillCategories.some(c => c.id === selectedCategory) ? selectedCategory : 'All';
+
   const filteredMenu = menu.filter(item => {
     const matchesSearch = item.name.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesCategory = selectedCategory === 'All' || item.category === selectedCategory;
+    const matchesCategory = activeCategory === 'All'
+      ? tillCategories.some(c => c.id === item.category)
+      : item.category === activeCategory;
     return matchesSearch && matchesCategory;
   });
 
-  const categories: (Category | 'All')[] = ['All', 'Coffee', 'Tea', 'Food', 'Dessert', 'Other'];
-
   return (
     <div className="flex h-[calc(100vh-4rem)] gap-6 p-6 bg-gray-50/50">
       {/* Left Side - Menu */}
@@ -99,113 +341,221 @@ export function CashierView({ menu, onCreateOrder }: CashierViewProps) {
             />
           </div>
           <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
-            {categories.map(cat => (
-              <button
-                key={cat}
-                onClick={() => setSelectedCategory(cat)}
-                className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
-                  selectedCategory === cat
-                    ? 'bg-orange-500 text-white shadow-md shadow-orange-200'
-                    : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
-                }`}
-              >
-                {cat}
-              </button>
-            ))}
+            <button
+              onClick={() => setSelectedCategory('All')}
+              className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
+                activeCategory === 'All'
+                  ? 'bg-orange-500 text-white shadow-md shadow-orange-200'
+                  : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              All
+            </button>
+            {tillCategories.map(cat => {
+              const Icon = CATEGORY_ICON_COMPONENTS[cat.icon];
+              return (
+                <button
+                  key={cat.id}
+                  onClick={() => setSelectedCategory(cat.id)}
+                  className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
+                    activeCategory === cat.id
+                      ? `${CATEGORY_COLOR_CLASSES[cat.color].active} shadow-md`
+                      : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  {Icon && <Icon className="w-4 h-4" />}
+                  {cat.name}
+                </button>
+              );
+            })}
           </div>
         </div>
 
         {/* Menu Grid */}
         <div className="grid grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 overflow-y-auto pr-2 pb-20">
-          {filteredMenu.map(item => (
-            <motion.div
-              key={item.id}
-              layoutId={item.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="group bg-white rounded-2xl border border-gray-100 shadow-sm hover:shadow-md transition-all cursor-pointer relative overflow-hidden flex flex-col h-full"
-              onClick={() => addToCart(item)}
-            >
-              {/* Promo Label */}
-              {item.bundle?.showPromoLabel && (
-                <div className="absolute top-2 right-2 z-10">
-                  <span className="bg-orange-500 text-white text-[10px] font-bold px-2 py-1 rounded-full flex items-center gap-1 shadow-sm">
-                    <Tag className="w-3 h-3" />
-                    PROMO
-                  </span>
-                </div>
-              )}
-              
-              {/* Image Area */}
-              <div className="aspect-[4/3] w-full bg-gray-100 relative overflow-hidden">
-                 <img 
-                    src={`https://picsum.photos/seed/${item.id}/400/300`} 
-                    alt={item.name}
-                    className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
-                    referrerPolicy="no-referrer"
-                 />
-                 <div className="absolute inset-0 bg-black/5 group-hover:bg-transparent transition-colors" />
-              </div>
+          {filteredMenu.map(item => {
+            const available = getAvailable(item);
+            const isOutOfStock = available <= 0;
+            return (
+              <motion.div
+                key={item.id}
+                layoutId={item.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className={`group bg-white rounded-2xl border border-gray-100 shadow-sm transition-all relative overflow-hidden flex flex-col h-full ${
+                  isOutOfStock ? 'opacity-60 grayscale cursor-not-allowed' : 'hover:shadow-md cursor-pointer'
+                }`}
+                onClick={() => handleMenuItemClick(item)}
+                aria-disabled={isOutOfStock}
+              >
+                {/* Stock Label */}
+                {(isOutOfStock || available <= LOW_AVAILABILITY) && (
+                  <div className="absolute top-2 left-2 z-10">
+                    <span className={`text-[10px] font-bold px-2 py-1 rounded-full shadow-sm ${
+                      isOutOfStock ? 'bg-gray-900 text-white' : 'bg-amber-100 text-amber-800'
+                    }`}>
+                      {isOutOfStock ? 'OUT OF STOCK' : `${available} LEFT`}
+                    </span>
+                  </div>
+                )}
 
-              {/* Content Area */}
-              <div className="p-4 flex flex-col flex-1">
-                <div className="flex-1">
-                    <h3 className="font-semibold text-gray-900 mb-1 line-clamp-2 leading-tight">{item.name}</h3>
-                    <p className="text-sm text-gray-500 mb-2">{item.category}</p>
-                </div>
+                {/* Promo Label */}
+                {item.bundle?.showPromoLabel && (
+                  <div className="absolute top-2 right-2 z-10">
+                    <span className="bg-orange-500 text-white text-[10px] font-bold px-2 py-1 rounded-full flex items-center gap-1 shadow-sm">
+                      <Tag className="w-3 h-3" />
+                      PROMO
+                    </span>
+                  </div>
+                )}
                 
-                <div className="mt-auto pt-2 border-t border-gray-50">
-                    <div className="flex items-baseline justify-between">
-                        <p className="text-lg font-bold text-orange-600">{formatCurrency(item.basePrice)}</p>
-                    </div>
-                    
-                    {item.bundle?.enabled && (
-                        <div className="mt-2 text-xs bg-orange-50 text-orange-700 px-2 py-1 rounded-lg border border-orange-100 flex items-center gap-1">
-                            <span className="font-medium">Bundle:</span>
-                            Buy {item.bundle.buyQuantity} for {formatCurrency(item.bundle.bundlePrice)}
-                        </div>
-                    )}
+                {/* Image Area */}
+                <div className="aspect-[4/3] w-full bg-gray-100 relative overflow-hidden">
+                   <img 
+                      src={`https://picsum.photos/seed/${item.id}/400/300`} 
+                      alt={item.name}
+                      className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                      referrerPolicy="no-referrer"
+                   />
+                   <div className="absolute inset-0 bg-black/5 group-hover:bg-transparent transition-colors" />
                 </div>
-              </div>
 
-              {/* Hover Effect Overlay */}
-              <div className="absolute inset-0 bg-orange-500/5 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
-            </motion.div>
-          ))}
+                {/* Content Area */}
+                <div className="p-4 flex flex-col flex-1">
+                  <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900 mb-1 line-clamp-2 leading-tight">{item.name}</h3>
+                      <p className="text-sm text-gray-500 mb-2">{getCategoryName(categories, item.category)}</p>
+                  </div>
+                  
+                  <div className="mt-auto pt-2 border-t border-gray-50">
+                      <div className="flex items-baseline justify-between">
+                          <p className="text-lg font-bold text-orange-600">{formatCurrency(item.basePrice)}</p>
+                      </div>
+                      
+                      {item.bundle?.enabled && (
+                          <div className="mt-2 text-xs bg-orange-50 text-orange-700 px-2 py-1 rounded-lg border border-orange-100 flex items-center gap-1">
+                              <span className="font-medium">Bundle:</span>
+                              Buy {item.bundle.buyQuantity} for {formatCurrency(item.bundle.bundlePrice)}
+                          </div>
+                      )}
+                  </div>
+                </div>
+
+                {/* Hover Effect Overlay */}
+                {!isOutOfStock && (
+                  <div className="absolute inset-0 bg-orange-500/5 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
+                )}
+              </motion.div>
+            );
+          })}
         </div>
       </div>
 
       {/* Right Side - Cart */}
       <div className="w-96 bg-white rounded-2xl shadow-xl border border-gray-100 flex flex-col overflow-hidden">
-        <div className="p-4 border-b border-gray-100 bg-gray-50/50">
-          <div className="flex items-center gap-2 mb-4">
-            <User className="w-5 h-5 text-gray-400" />
-            <input
-              type="text"
-              placeholder="Customer Name"
-              value={customerName}
-              onChange={(e) => setCustomerName(e.target.value)}
-              className="flex-1 bg-transparent border-none outline-none text-gray-900 font-medium placeholder-gray-400 focus:ring-0"
-            />
-          </div>
-          <div className="flex bg-gray-200 rounded-lg p-1">
-            <button
-              onClick={() => setPaymentStatus('Unpaid')}
-              className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${
-                paymentStatus === 'Unpaid' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              Not Paid
-            </button>
-            <button
-              onClick={() => setPaymentStatus('Paid')}
-              className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${
-                paymentStatus === 'Paid' ? 'bg-green-500 text-white shadow-sm' : 'text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              Paid
-            </button>
-          </div>
+        <div className="p-4 border-b border-gray-100 bg-gray-50/50 space-y-3">
+          {editingId ? (
+            <div className="flex items-start justify-between gap-2 px-3 py-2 bg-blue-50 border border-blue-100 rounded-xl text-sm">
+              <div className="min-w-0">
+                <p className="flex items-center gap-1.5 font-medium text-blue-800">
+                  <PencilLine className="w-4 h-4" />
+                  Editing order {editing && getOrderLabel(editing)}
+                </p>
+                {editing && <p className="text-blue-700 truncate">{editing.customerName} · {describeOrderType(editing)}</p>}
+                {editing && !isOrderOpen(editing) && <p className="text-red-600">This order was paid or closed meanwhile</p>}
+              </div>
+              <button onClick={stopEditing} title="Discard changes" className="p-1 text-blue-400 hover:text-blue-700 rounded-lg transition-colors">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ) : (
+            <>
+              {(parkedCarts.length > 0 || openOrders.length > 0) && (
+                <div className="flex gap-2">
+                  {parkedCarts.length > 0 && (
+                    <button
+                      onClick={() => setIsParkedListOpen(true)}
+                      className="flex-1 flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm text-gray-700 hover:border-orange-300 transition-colors"
+                    >
+                      <CirclePause className="w-4 h-4 text-gray-400" />
+                      Parked
+                      <span className="ml-auto text-xs font-medium text-blue-700 bg-blue-50 px-2 py-0.5 rounded-full">{parkedCarts.length}</span>
+                    </button>
+                  )}
+                  {openOrders.length > 0 && (
+                    <button
+                      onClick={() => setIsOpenOrdersOpen(true)}
+                      className="flex-1 flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm text-gray-700 hover:border-orange-300 transition-colors"
+                    >
+                      <FolderOpen className="w-4 h-4 text-gray-400" />
+                      Unpaid
+                      <span className="ml-auto text-xs font-medium text-orange-700 bg-orange-50 px-2 py-0.5 rounded-full">{openOrders.length}</span>
+                    </button>
+                  )}
+                </div>
+              )}
+              <div className="grid grid-cols-3 gap-1 p-1 bg-gray-100 rounded-xl">
+                {ORDER_TYPES.map(type => {
+                  const Icon = ORDER_TYPE_ICONS[type];
+                  return (
+                    <button
+                      key={type}
+                      onClick={() => setOrderType(type)}
+                      className={`flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                        orderType === type ? 'bg-white text-orange-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                      }`}
+                    >
+                      <Icon className="w-4 h-4" />
+                      {ORDER_TYPE_LABELS[type]}
+                    </button>
+                  );
+                })}
+              </div>
+              {orderType === 'dine_in' && (
+                <button
+                  onClick={() => setIsTablePickerOpen(true)}
+                  className="w-full flex items-center gap-2 px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm hover:border-orange-300 transition-colors"
+                >
+                  <LayoutGrid className="w-4 h-4 text-gray-400" />
+                  <span className={table ? 'font-medium text-gray-900' : 'text-gray-400'}>{table ? table.name : 'Choose a table'}</span>
+                </button>
+              )}
+              {orderType === 'delivery' && (
+                <div className="flex gap-2">
+                  <select
+                    value={deliveryPlatform}
+                    onChange={(e) => setDeliveryPlatform(e.target.value)}
+                    className="px-2 py-2 bg-white border border-gray-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-orange-500"
+                  >
+                    {DELIVERY_PLATFORMS.map(platform => <option key={platform} value={platform}>{platform}</option>)}
+                  </select>
+                  <input
+                    type="text"
+                    placeholder="Platform order no."
+                    value={deliveryReference}
+                    onChange={(e) => setDeliveryReference(e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-orange-500"
+                  />
+                </div>
+              )}
+              <CustomerPicker
+                customers={customers}
+                customerName={customerName}
+                customer={customer}
+                points={customerPoints}
+                loyaltyEnabled={loyaltySettings.enabled}
+                onNameChange={setCustomerName}
+                onSelect={handleSelectCustomer}
+                onAddCustomer={onAddCustomer}
+              />
+            </>
+          )}
+          {!hasOpenSession && (
+            <div className="flex items-center gap-1.5 text-xs text-amber-700 bg-amber-50 border border-amber-100 px-2 py-1.5 rounded-lg">
+              <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+              No shift open. Open the cash drawer from the Dashboard.
+            </div>
+          )}
         </div>
 
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
@@ -216,15 +566,15 @@ export function CashierView({ menu, onCreateOrder }: CashierViewProps) {
             </div>
           ) : (
             <AnimatePresence>
-              {cart.map(item => {
-                const itemTotal = calculateItemTotal(item, item.quantity);
-                const isBundleActive = item.bundle?.enabled && item.quantity >= (item.bundle.buyQuantity || 999);
+              {cart.map((item, index) => {
+                const line = pricing.lines[index];
                 const nextBundleQty = item.bundle?.enabled ? item.bundle.buyQuantity - (item.quantity % item.bundle.buyQuantity) : 0;
-                const showSuggestion = item.bundle?.enabled && !isBundleActive && item.quantity > 0;
+                const showSuggestion = item.bundle?.enabled && line.discount === 0 && item.quantity > 0;
+                const isLocked = isLineLocked(item);
 
                 return (
                   <motion.div
-                    key={item.id}
+                    key={getLineId(item)}
                     layout
                     initial={{ opacity: 0, x: -20 }}
                     animate={{ opacity: 1, x: 0 }}
@@ -233,32 +583,54 @@ export function CashierView({ menu, onCreateOrder }: CashierViewProps) {
                   >
                     <div className="flex justify-between items-start mb-2">
                       <div>
-                        <h4 className="font-medium text-gray-900">{item.name}</h4>
-                        <p className="text-sm text-orange-600 font-semibold">{formatCurrency(itemTotal)}</p>
+                        <h4 className="font-medium text-gray-900">
+                          {item.name}
+                          {isLocked && (
+                            <span className="ml-1.5 inline-flex items-center gap-0.5 text-[10px] font-semibold text-green-700 bg-green-50 px-1.5 py-0.5 rounded-full align-middle">
+                              <ChefHat className="w-3 h-3" />
+                              MADE
+                            </span>
+                          )}
+                        </h4>
+                        {item.modifiers && item.modifiers.length > 0 && (
+                          <p className="text-xs text-gray-500">{describeModifiers(item.modifiers)}</p>
+                        )}
+                        <p className="text-sm text-orange-600 font-semibold">
+                          {formatCurrency(line.net)}
+                          {line.discount > 0 && (
+                            <span className="ml-1.5 text-xs text-gray-400 font-normal line-through">{formatCurrency(line.gross)}</span>
+                          )}
+                        </p>
                       </div>
                       <div className="flex items-center gap-3 bg-white rounded-lg border border-gray-200 p-1">
                         <button
-                          onClick={() => updateQuantity(item.id, -1)}
-                          className="w-6 h-6 flex items-center justify-center rounded hover:bg-gray-100 text-gray-600"
+                          onClick={() => updateQuantity(getLineId(item), -1)}
+                          disabled={isLocked}
+                          title={isLocked ? 'Already made; void or refund it instead' : undefined}
+                          className="w-6 h-6 flex items-center justify-center rounded hover:bg-gray-100 text-gray-600 disabled:opacity-30 disabled:hover:bg-transparent"
                         >
                           <Minus className="w-3 h-3" />
                         </button>
                         <span className="text-sm font-medium w-4 text-center">{item.quantity}</span>
                         <button
-                          onClick={() => updateQuantity(item.id, 1)}
-                          className="w-6 h-6 flex items-center justify-center rounded hover:bg-gray-100 text-gray-600"
+                          onClick={() => isLocked ? addMoreOf(item) : updateQuantity(getLineId(item), 1)}
+                          disabled={getAvailable(item) <= 0}
+                          className="w-6 h-6 flex items-center justify-center rounded hover:bg-gray-100 text-gray-600 disabled:opacity-30 disabled:hover:bg-transparent"
                         >
                           <Plus className="w-3 h-3" />
                         </button>
                       </div>
                     </div>
 
-                    {isBundleActive && (
-                      <div className="flex items-center gap-1 text-xs text-green-600 font-medium mb-2">
-                        <Tag className="w-3 h-3" />
-                        Bundle price applied
+                    {line.promotions.map(promo => (
+                      <div key={promo.promotionId} className="flex items-center justify-between text-xs text-green-600 font-medium mb-2">
+                        <span className="flex items-center gap-1">
+                          <Tag className="w-3 h-3" />
+                          {promo.name}
+                        </span>
+                        <span>-{formatCurrency(promo.amount)}</span>
                       </div>
-                    )}
+                    ))}
 
                     {showSuggestion && nextBundleQty === 1 && (
                       <div className="flex items-center gap-1 text-xs text-orange-600 font-medium mb-2">
@@ -271,7 +643,8 @@ export function CashierView({ menu, onCreateOrder }: CashierViewProps) {
                       type="text"
                       placeholder="Add note..."
                       value={item.note || ''}
-                      onChange={(e) => updateItemNote(item.id, e.target.value)}
+                      onChange={(e) => updateItemNote(getLineId(item), e.target.value)}
+                      readOnly={isLocked}
                       className="w-full text-xs bg-transparent border-b border-gray-200 focus:border-orange-500 outline-none py-1 text-gray-600 placeholder-gray-400"
                     />
                   </motion.div>
@@ -283,36 +656,110 @@ export function CashierView({ menu, onCreateOrder }: CashierViewProps) {
 
         <div className="p-4 bg-white border-t border-gray-100 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.05)]">
           <div className="mb-4">
-            <div className="flex items-center gap-2 mb-2">
-              <FileText className="w-4 h-4 text-gray-400" />
-              <input
-                type="text"
-                placeholder="Order Note..."
-                value={globalNote}
-                onChange={(e) => setGlobalNote(e.target.value)}
-                className="flex-1 text-sm bg-transparent border-none outline-none text-gray-600 placeholder-gray-400"
-              />
-            </div>
+            {!editingId && (
+              <div className="flex items-center gap-2 mb-2">
+                <FileText className="w-4 h-4 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="Order Note..."
+                  value={globalNote}
+                  onChange={(e) => setGlobalNote(e.target.value)}
+                  className="flex-1 text-sm bg-transparent border-none outline-none text-gray-600 placeholder-gray-400"
+                />
+              </div>
+            )}
+            {maxRedeemable > 0 && (
+              <div className="flex items-center justify-between gap-2 mb-2 text-sm">
+                <span className="flex items-center gap-1 text-amber-700">
+                  <Star className="w-4 h-4" />
+                  Redeem points
+                </span>
+                <div className="flex items-center gap-1">
+                  <input
+                    type="number"
+                    min="0"
+                    max={maxRedeemable}
+                    value={pointsRedeemed || ''}
+                    onChange={(e) => setPointsToRedeem(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                    placeholder="0"
+                    className="w-20 px-2 py-1 text-right border border-gray-200 rounded-lg outline-none focus:ring-2 focus:ring-orange-500"
+                  />
+                  <button
+                    onClick={() => setPointsToRedeem(pointsRedeemed === maxRedeemable ? 0 : maxRedeemable)}
+                    className="px-2 py-1 text-xs font-medium text-amber-700 bg-amber-50 hover:bg-amber-100 rounded-lg"
+                  >
+                    {pointsRedeemed === maxRedeemable ? 'None' : `Max ${maxRedeemable}`}
+                  </button>
+                </div>
+              </div>
+            )}
+            <OrderSummaryLines breakdown={{ ...totals, appliedPromotions: pricing.applied }} />
             <div className="flex justify-between items-end">
               <span className="text-gray-500">Total</span>
               <span className="text-2xl font-bold text-gray-900">{formatCurrency(cartTotal)}</span>
             </div>
+            {editing && getAmountPaid(editing.payments) > 0 && (
+              <div className="flex justify-between text-sm mt-1">
+                <span className="text-gray-500">Paid so far {formatCurrency(getAmountPaid(editing.payments))}</span>
+                <span className="font-medium text-orange-600">Due {formatCurrency(getBalanceDue(cartTotal, editing.payments))}</span>
+              </div>
+            )}
           </div>
 
-          <div className="grid grid-cols-2 gap-3">
+          {/* Payment */}
+          {!editingId && (
+            <div className="mb-4 p-3 bg-gray-50 rounded-xl border border-gray-100 space-y-2">
+              <TenderList payments={tenders} onRemove={removeTender} />
+              {tenders.length > 0 && (
+                <div className="flex justify-between text-sm pt-1 border-t border-gray-200">
+                  <span className="text-gray-500">Paid {formatCurrency(amountPaid)}</span>
+                  {balanceDue > 0 ? (
+                    <span className="font-medium text-orange-600">Remaining {formatCurrency(balanceDue)}</span>
+                  ) : (
+                    <span className="font-medium text-green-600">Change {formatCurrency(changeDue)}</span>
+                  )}
+                </div>
+              )}
+              <TenderForm
+                balanceDue={balanceDue}
+                onAddTender={(tender) => setTenders(prev => [...prev, tender])}
+                disabled={cart.length === 0 || isConfirming || showSuccess}
+              />
+            </div>
+          )}
+
+          {orderError && (
+            <p className="mb-3 flex items-center gap-1.5 text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {orderError}
+            </p>
+          )}
+
+          <div className="flex gap-3">
             <button
-              onClick={() => setCart([])}
+              onClick={clearCart}
               disabled={isConfirming || showSuccess}
               className="px-4 py-3 text-gray-600 font-medium bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors disabled:opacity-50"
             >
-              Cancel
+              {editingId ? 'Discard' : 'Cancel'}
             </button>
+            {!editingId && (
+              <button
+                onClick={() => setParkLabel(customer?.name || customerName.trim() || table?.name || `Cart ${parkedCarts.length + 1}`)}
+                disabled={cart.length === 0 || tenders.length > 0 || isConfirming || showSuccess}
+                title={tenders.length > 0 ? 'Remove the payments before parking' : 'Park this cart and serve the next customer'}
+                className="px-3 py-3 flex items-center gap-1.5 text-gray-600 font-medium bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors disabled:opacity-50"
+              >
+                <CirclePause className="w-5 h-5" />
+                Park
+              </button>
+            )}
             <motion.button
               onClick={handleConfirmOrder}
               disabled={cart.length === 0 || isConfirming || showSuccess}
               whileTap={{ scale: 0.95 }}
               animate={showSuccess ? { backgroundColor: '#22c55e' } : { backgroundColor: '#f97316' }}
-              className="px-4 py-3 text-white font-medium rounded-xl transition-colors shadow-lg shadow-orange-200 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed overflow-hidden relative"
+              className="flex-1 px-4 py-3 text-white font-medium rounded-xl transition-colors shadow-lg shadow-orange-200 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed overflow-hidden relative"
             >
               <AnimatePresence mode="wait">
                 {showSuccess ? (
@@ -346,7 +793,7 @@ export function CashierView({ menu, onCreateOrder }: CashierViewProps) {
                     className="flex items-center gap-2"
                   >
                     <CheckCircle className="w-5 h-5" />
-                    <span>Confirm</span>
+                    <span>{editingId ? 'Save Changes' : 'Confirm'}</span>
                   </motion.div>
                 )}
               </AnimatePresence>
@@ -354,6 +801,201 @@ export function CashierView({ menu, onCreateOrder }: CashierViewProps) {
           </div>
         </div>
       </div>
+
+      <AnimatePresence>
+        {isTablePickerOpen && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden"
+            >
+              <div className="flex items-center justify-between p-4 border-b border-gray-100">
+                <h2 className="text-lg font-semibold text-gray-900">Choose a Table</h2>
+                <button onClick={() => setIsTablePickerOpen(false)} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+                  <X className="w-5 h-5 text-gray-500" />
+                </button>
+              </div>
+              <div className="p-4 overflow-y-auto">
+                <TableMap
+                  tables={diningTables}
+                  orders={orders}
+                  selectedId={tableId}
+                  onSelect={(picked, tab) => {
+                    if (tab) {
+                      startEditing(tab);
+                    } else {
+                      setTableId(picked.id);
+                    }
+                    setIsTablePickerOpen(false);
+                  }}
+                />
+              </div>
+              <div className="p-4 border-t border-gray-100 flex justify-between items-center">
+                <p className="text-xs text-gray-500">Picking a table with an open tab reopens it to add to.</p>
+                <button
+                  onClick={() => {
+                    setTableId(null);
+                    setIsTablePickerOpen(false);
+                  }}
+                  className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-xl"
+                >
+                  No Table
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isOpenOrdersOpen && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[85vh] flex flex-col overflow-hidden"
+            >
+              <div className="flex items-center justify-between p-4 border-b border-gray-100">
+                <h2 className="text-lg font-semibold text-gray-900">Unpaid Orders</h2>
+                <button onClick={() => setIsOpenOrdersOpen(false)} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+                  <X className="w-5 h-5 text-gray-500" />
+                </button>
+              </div>
+              <div className="p-2 overflow-y-auto divide-y divide-gray-50">
+                {openOrders.length === 0 && <p className="text-sm text-gray-400 text-center py-8">No unpaid orders</p>}
+                {openOrders.map(order => (
+                  <button
+                    key={order.id}
+                    onClick={() => {
+                      startEditing(order);
+                      setIsOpenOrdersOpen(false);
+                    }}
+                    className="w-full flex items-center gap-3 px-3 py-3 text-left rounded-xl hover:bg-gray-50 transition-colors"
+                  >
+                    <span className="font-mono text-sm text-gray-500">{getOrderLabel(order)}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{order.customerName}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {describeOrderType(order)} · {new Date(order.createdAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })} · {order.items.reduce((sum, i) => sum + i.quantity, 0)} items
+                      </p>
+                    </div>
+                    <span className="text-sm font-medium text-orange-700 tabular-nums">{formatCurrency(getOrderBalanceDue(order))}</span>
+                  </button>
+                ))}
+              </div>
+              <p className="p-4 border-t border-gray-100 text-xs text-gray-500">
+                Items already in the cart are added to the order you pick. Lines the kitchen has made cannot be taken off.
+              </p>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {parkLabel !== null && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white rounded-2xl shadow-xl w-full max-w-sm overflow-hidden"
+            >
+              <div className="flex items-center justify-between p-4 border-b border-gray-100">
+                <h2 className="text-lg font-semibold text-gray-900">Park Cart</h2>
+                <button onClick={() => setParkLabel(null)} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+                  <X className="w-5 h-5 text-gray-500" />
+                </button>
+              </div>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handlePark(parkLabel.trim());
+                }}
+                className="p-6 space-y-4"
+              >
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+                  <input
+                    type="text"
+                    required
+                    autoFocus
+                    value={parkLabel}
+                    onChange={(e) => setParkLabel(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm"
+                    placeholder="e.g. Man in the blue shirt"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Any till can resume it from Parked.</p>
+                </div>
+                <button type="submit" className="w-full px-4 py-2 text-white bg-orange-500 hover:bg-orange-600 rounded-xl font-medium transition-colors shadow-sm shadow-orange-200">
+                  Park Cart
+                </button>
+              </form>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isParkedListOpen && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[85vh] flex flex-col overflow-hidden"
+            >
+              <div className="flex items-center justify-between p-4 border-b border-gray-100">
+                <h2 className="text-lg font-semibold text-gray-900">Parked Carts</h2>
+                <button onClick={() => setIsParkedListOpen(false)} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+                  <X className="w-5 h-5 text-gray-500" />
+                </button>
+              </div>
+              <div className="p-2 overflow-y-auto divide-y divide-gray-50">
+                {parkedCarts.length === 0 && <p className="text-sm text-gray-400 text-center py-8">No parked carts</p>}
+                {parkedCarts.map(parked => (
+                  <div key={parked.id} className="flex items-center gap-3 px-3 py-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{parked.label}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {new Date(parked.createdAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })} · {describeParkedCart(parked)}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleDeleteParked(parked)}
+                      title="Discard"
+                      className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleResume(parked)}
+                      disabled={cart.length > 0 || Boolean(editingId)}
+                      className="px-3 py-1.5 text-sm font-medium text-white bg-orange-500 hover:bg-orange-600 rounded-lg transition-colors disabled:opacity-50 disabled:hover:bg-orange-500"
+                    >
+                      Resume
+                    </button>
+                  </div>
+                ))}
+              </div>
+              {cart.length > 0 && (
+                <p className="p-4 border-t border-gray-100 text-xs text-gray-500">Park or clear the current cart before resuming another.</p>
+              )}
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
+      <ModifierPicker
+        item={modifierItem}
+        onClose={() => setModifierItem(null)}
+        onConfirm={(item, modifiers) => {
+          addToCart(item, modifiers);
+          setModifierItem(null);
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,225 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Category, CategoryColor, CategoryIcon } from '../types';
+import { useStore } from '../hooks/useStore';
+import { CATEGORY_COLORS, CATEGORY_ICONS } from '../lib/categories';
+import { CATEGORY_COLOR_CLASSES, CATEGORY_ICON_COMPONENTS, CategoryBadge } from './CategoryBadge';
+import { motion, AnimatePresence, Reorder } from 'motion/react';
+import { Plus, Edit2, Trash2, X, Tags, GripVertical, Eye, EyeOff } from 'lucide-react';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm';
+
+type CategoryFormData = Omit<Category, 'id' | 'position'>;
+
+interface CategoryFormProps {
+  initialData?: Category;
+  // Names are compared without case, so "nasi" and "Nasi" cannot both exist
+  takenNames: string[];
+  onSave: (data: CategoryFormData) => void;
+  onClose: () => void;
+}
+
+function CategoryForm({ initialData, takenNames, onSave, onClose }: CategoryFormProps) {
+  const [name, setName] = useState(initialData?.name || '');
+  const [color, setColor] = useState<CategoryColor>(initialData?.color || 'orange');
+  const [icon, setIcon] = useState<CategoryIcon>(initialData?.icon || 'utensils');
+  const [hidden, setHidden] = useState(initialData?.hidden ?? false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (takenNames.includes(name.trim().toLowerCase())) {
+      setError('There is already a category with this name');
+      return;
+    }
+    onSave({ name: name.trim(), color, icon, hidden });
+    onClose();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-6 space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+        <input type="text" required value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} placeholder="e.g. Nasi" />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Color</label>
+        <div className="flex flex-wrap gap-2">
+          {CATEGORY_COLORS.map(c => (
+            <button
+              key={c}
+              type="button"
+              title={c}
+              onClick={() => setColor(c)}
+              className={`w-7 h-7 rounded-full ${CATEGORY_COLOR_CLASSES[c].swatch} ${color === c ? 'ring-2 ring-offset-2 ring-gray-900' : ''}`}
+            />
+          ))}
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Icon</label>
+        <div className="grid grid-cols-7 gap-1.5">
+          {CATEGORY_ICONS.map(i => {
+            const Icon = CATEGORY_ICON_COMPONENTS[i];
+            return (
+              <button
+                key={i}
+                type="button"
+                title={i}
+                onClick={() => setIcon(i)}
+                className={`p-2 rounded-lg border flex items-center justify-center transition-colors ${
+                  icon === i ? 'border-orange-500 bg-orange-50 text-orange-600' : 'border-gray-200 text-gray-500 hover:bg-gray-50'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            );
+          })}
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input type="checkbox" checked={hidden} onChange={(e) => setHidden(e.target.checked)} className="rounded text-orange-500 focus:ring-orange-500" />
+        Hide from the till
+      </label>
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        Preview: <CategoryBadge category={{ id: '', name: name.trim() || 'Category', color, icon, position: 0, hidden }} />
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button type="submit" className="w-full px-4 py-2 text-white bg-orange-500 hover:bg-orange-600 rounded-xl font-medium transition-colors shadow-sm shadow-orange-200">
+        Save Category
+      </button>
+    </form>
+  );
+}
+
+export function CategoriesPanel() {
+  const { menu, categories, addCategory, updateCategory, reorderCategories, deleteCategory } = useStore();
+  const [editing, setEditing] = useState<Category | 'new' | null>(null);
+
+  // Dragging reorders this copy; the new positions are saved when it is dropped
+  const categoryIds = categories.map(c => c.id);
+  const [order, setOrder] = useState(categoryIds);
+  const orderRef = useRef(order);
+  useEffect(() => {
+    setOrder(categoryIds);
+    orderRef.current = categoryIds;
+  }, [categoryIds.join(',')]);
+
+  const handleReorder = (ids: string[]) => {
+    setOrder(ids);
+    orderRef.current = ids;
+  };
+
+  const getItemCount = (id: string) => menu.filter(item => item.category === id).length;
+
+  const handleSave = (data: CategoryFormData) => {
+    if (editing && editing !== 'new') {
+      updateCategory(editing.id, data);
+    } else {
+      addCategory(data);
+    }
+  };
+
+  const handleDelete = (category: Category) => {
+    if (window.confirm(`Delete the ${category.name} category? Past orders keep showing it.`)) {
+      deleteCategory(category.id);
+    }
+  };
+
+  const takenNames = categories
+    .filter(c => editing === 'new' || c.id !== editing?.id)
+    .map(c => c.name.trim().toLowerCase());
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Tags className="w-5 h-5 text-orange-500" />
+          Categories
+        </h2>
+        <button
+          onClick={() => setEditing('new')}
+          className="flex items-center gap-2 px-4 py-2 bg-orange-500 text-white rounded-xl hover:bg-orange-600 transition-colors shadow-sm shadow-orange-200"
+        >
+          <Plus className="w-4 h-4" />
+          Add Category
+        </button>
+      </div>
+      <p className="text-sm text-gray-500">Drag to change the order of the filters on the till.</p>
+
+      <Reorder.Group
+        axis="y"
+        values={order}
+        onReorder={handleReorder}
+        className="bg-white rounded-2xl border border-gray-100 shadow-sm divide-y divide-gray-50 overflow-hidden"
+      >
+        {order.map(id => {
+          const category = categories.find(c => c.id === id);
+          if (!category) return null;
+          const itemCount = getItemCount(id);
+          return (
+            <Reorder.Item
+              key={id}
+              value={id}
+              onDragEnd={() => reorderCategories(orderRef.current)}
+              className={`flex items-center gap-3 px-4 py-3 bg-white cursor-grab active:cursor-grabbing ${category.hidden ? 'opacity-60' : ''}`}
+            >
+              <GripVertical className="w-4 h-4 text-gray-300 shrink-0" />
+              <CategoryBadge category={category} />
+              <span className="text-xs text-gray-400">{itemCount} {itemCount === 1 ? 'item' : 'items'}</span>
+              {category.hidden && <span className="text-xs text-gray-400">Hidden from the till</span>}
+              <div className="ml-auto flex gap-1">
+                <button
+                  onClick={() => updateCategory(id, { hidden: !category.hidden })}
+                  title={category.hidden ? 'Show on the till' : 'Hide from the till'}
+                  className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  {category.hidden ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => setEditing(category)}
+                  className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                >
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(category)}
+                  disabled={itemCount > 0}
+                  title={itemCount > 0 ? 'Move its items to another category first' : 'Delete'}
+                  className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </Reorder.Item>
+          );
+        })}
+      </Reorder.Group>
+
+      <AnimatePresence>
+        {editing && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white rounded-2xl shadow-xl w-full max-w-sm overflow-hidden"
+            >
+              <div className="flex items-center justify-between p-4 border-b border-gray-100">
+                <h2 className="text-lg font-semibold text-gray-900">{editing === 'new' ? 'Add Category' : 'Edit Category'}</h2>
+                <button onClick={() => setEditing(null)} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+                  <X className="w-5 h-5 text-gray-500" />
+                </button>
+              </div>
+              <CategoryForm
+                initialData={editing === 'new' ? undefined : editing}
+                takenNames={takenNames}
+                onSave={handleSave}
+                onClose={() => setEditing(null)}
+              />
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { Category, CategoryColor, CategoryIcon } from '../types';
+import {
+  Beef,
+  Cake,
+  Citrus,
+  Coffee,
+  Cookie,
+  CupSoda,
+  Drumstick,
+  Egg,
+  Fish,
+  Flame,
+  GlassWater,
+  IceCreamCone,
+  Leaf,
+  LucideIcon,
+  Package,
+  Sandwich,
+  Soup,
+  Star,
+  UtensilsCrossed,
+  Wheat,
+} from 'lucide-react';
+
+export const CATEGORY_ICON_COMPONENTS: Record<CategoryIcon, LucideIcon> = {
+  coffee: Coffee,
+  leaf: Leaf,
+  cup: CupSoda,
+  glass: GlassWater,
+  citrus: Citrus,
+  utensils: UtensilsCrossed,
+  rice: Wheat,
+  soup: Soup,
+  drumstick: Drumstick,
+  beef: Beef,
+  fish: Fish,
+  egg: Egg,
+  sandwich: Sandwich,
+  cake: Cake,
+  'ice-cream': IceCreamCone,
+  cookie: Cookie,
+  flame: Flame,
+  star: Star,
+  package: Package,
+};
+
+// Written out in full so Tailwind sees every class
+export const CATEGORY_COLOR_CLASSES: Record<CategoryColor, { badge: string; active: string; swatch: string }> = {
+  orange: { badge: 'bg-orange-50 text-orange-700', active: 'bg-orange-500 text-white shadow-orange-200', swatch: 'bg-orange-500' },
+  amber: { badge: 'bg-amber-50 text-amber-700', active: 'bg-amber-500 text-white shadow-amber-200', swatch: 'bg-amber-500' },
+  green: { badge: 'bg-green-50 text-green-700', active: 'bg-green-600 text-white shadow-green-200', swatch: 'bg-green-600' },
+  teal: { badge: 'bg-teal-50 text-teal-700', active: 'bg-teal-600 text-white shadow-teal-200', swatch: 'bg-teal-600' },
+  blue: { badge: 'bg-blue-50 text-blue-700', active: 'bg-blue-600 text-white shadow-blue-200', swatch: 'bg-blue-600' },
+  purple: { badge: 'bg-purple-50 text-purple-700', active: 'bg-purple-600 text-white shadow-purple-200', swatch: 'bg-purple-600' },
+  pink: { badge: 'bg-pink-50 text-pink-700', active: 'bg-pink-500 text-white shadow-pink-200', swatch: 'bg-pink-500' },
+  red: { badge: 'bg-red-50 text-red-700', active: 'bg-red-600 text-white shadow-red-200', swatch: 'bg-red-600' },
+  gray: { badge: 'bg-gray-100 text-gray-600', active: 'bg-gray-700 text-white shadow-gray-200', swatch: 'bg-gray-500' },
+};
+
+interface CategoryBadgeProps {
+  category?: Category;
+}
+
+export function CategoryBadge({ category }: CategoryBadgeProps) {
+  if (!category) return null;
+  const Icon = CATEGORY_ICON_COMPONENTS[category.icon] ?? Package;
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-md ${CATEGORY_COLOR_CLASSES[category.color]?.badge ?? CATEGORY_COLOR_CLASSES.gray.badge}`}>
+      <Icon className="w-3 h-3" />
+      {category.name}
+    </span>
+  );
+}
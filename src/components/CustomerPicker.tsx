@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Customer } from '../types';
+import { searchCustomers } from '../lib/loyalty';
+import { User, UserPlus, X, Star } from 'lucide-react';
+
+interface CustomerPickerProps {
+  customers: Customer[];
+  customerName: string;
+  customer: Customer | null;
+  points: number; // The picked customer's balance
+  loyaltyEnabled: boolean;
+  onNameChange: (name: string) => void;
+  onSelect: (customer: Customer | null) => void;
+  onAddCustomer: (customer: Omit<Customer, 'id' | 'createdAt'>) => Customer;
+}
+
+// The till's customer field. Typing searches the directory by name or phone;
+// a name that matches no one can still be used as is for a one-off guest.
+export function CustomerPicker({
+  customers,
+  customerName,
+  customer,
+  points,
+  loyaltyEnabled,
+  onNameChange,
+  onSelect,
+  onAddCustomer,
+}: CustomerPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [phone, setPhone] = useState('');
+
+  const matches = searchCustomers(customers, customerName);
+
+  const handleSelect = (picked: Customer) => {
+    onSelect(picked);
+    setIsOpen(false);
+  };
+
+  const handleAdd = () => {
+    if (!customerName.trim()) return;
+    handleSelect(onAddCustomer({ name: customerName.trim(), phone: phone.trim() || undefined }));
+    setIsAdding(false);
+    setPhone('');
+  };
+
+  if (customer) {
+    return (
+      <div className="flex items-center gap-2">
+        <User className="w-5 h-5 text-orange-500" />
+        <div className="flex-1 min-w-0">
+          <p className="font-medium text-gray-900 truncate">{customer.name}</p>
+          <p className="text-xs text-gray-500 flex items-center gap-2">
+            {customer.phone}
+            {loyaltyEnabled && (
+              <span className="flex items-center gap-0.5 text-amber-600">
+                <Star className="w-3 h-3" />
+                {points} points
+              </span>
+            )}
+          </p>
+        </div>
+        <button onClick={() => onSelect(null)} title="Remove customer" className="p-1 text-gray-400 hover:text-gray-600 rounded-lg">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <div className="flex items-center gap-2">
+        <User className="w-5 h-5 text-gray-400" />
+        <input
+          type="text"
+          placeholder="Customer name or phone"
+          value={customerName}
+          onChange={(e) => {
+            onNameChange(e.target.value);
+            setIsOpen(true);
+            setIsAdding(false);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          className="flex-1 bg-transparent border-none outline-none text-gray-900 font-medium placeholder-gray-400 focus:ring-0"
+        />
+      </div>
+
+      {isOpen && customerName.trim() && !isAdding && (
+        // Suggestions keep the focus on mouse down so the list does not close before the click
+        <div className="absolute z-20 left-0 right-0 mt-2 bg-white border border-gray-200 rounded-xl shadow-lg overflow-hidden">
+          {matches.map(match => (
+            <button
+              key={match.id}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => handleSelect(match)}
+              className="w-full text-left px-3 py-2 hover:bg-orange-50 transition-colors"
+            >
+              <p className="text-sm font-medium text-gray-900">{match.name}</p>
+              {match.phone && <p className="text-xs text-gray-500">{match.phone}</p>}
+            </button>
+          ))}
+          <button
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => setIsAdding(true)}
+            className="w-full text-left px-3 py-2 text-sm text-orange-600 hover:bg-orange-50 flex items-center gap-2 border-t border-gray-100"
+          >
+            <UserPlus className="w-4 h-4" />
+            Add "{customerName.trim()}" as a customer
+          </button>
+        </div>
+      )}
+
+      {isAdding && (
+        <div className="mt-2 flex gap-2">
+          <input
+            type="tel"
+            autoFocus
+            placeholder="Phone (optional)"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none"
+          />
+          <button onClick={handleAdd} className="px-3 py-1.5 text-sm text-white bg-orange-500 hover:bg-orange-600 rounded-lg font-medium">
+            Save
+          </button>
+          <button onClick={() => setIsAdding(false)} className="px-2 py-1.5 text-sm text-gray-500 hover:bg-gray-100 rounded-lg">
+            Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { Customer, Order } from '../types';
+import { useStore } from '../hooks/useStore';
+import { formatCurrency, getOrderLabel } from '../utils';
+import { getCustomerOrders, getPointsEarned, getPointsRedeemed, searchCustomers } from '../lib/loyalty';
+import { getRefundableAmount } from '../lib/refunds';
+import { motion, AnimatePresence } from 'motion/react';
+import { Edit2, Trash2, X, Contact, Search, Star, ChevronDown, ChevronUp } from 'lucide-react';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm';
+
+type CustomerFormData = Omit<Customer, 'id' | 'createdAt'>;
+
+interface CustomerFormProps {
+  initialData: Customer;
+  onSave: (data: CustomerFormData) => void;
+  onClose: () => void;
+}
+
+function CustomerForm({ initialData, onSave, onClose }: CustomerFormProps) {
+  const [name, setName] = useState(initialData.name);
+  const [phone, setPhone] = useState(initialData.phone || '');
+  const [notes, setNotes] = useState(initialData.notes || '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Blank rather than undefined so clearing a field is saved too
+    onSave({ name: name.trim(), phone: phone.trim(), notes: notes.trim() });
+    onClose();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-6 space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+        <input type="text" required value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+        <input type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} className={inputClassName} placeholder="e.g. 0812 3456 7890" />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+        <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} className={inputClassName} placeholder="e.g. Less sugar, allergic to peanuts" />
+      </div>
+      <button type="submit" className="w-full px-4 py-2 text-white bg-orange-500 hover:bg-orange-600 rounded-xl font-medium transition-colors shadow-sm shadow-orange-200">
+        Save Customer
+      </button>
+    </form>
+  );
+}
+
+// Only orders that went through count as visits
+const isCompletedOrder = (order: Order) => !order.voided && order.status !== 'Cancelled';
+
+export function CustomersPanel() {
+  const { customers, orders, settings, getCustomerPoints, updateCustomer, deleteCustomer } = useStore();
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<Customer | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const shown: Customer[] = query.trim() ? searchCustomers(customers, query, customers.length) : customers;
+
+  const getHistory = (customerId: string) =>
+    getCustomerOrders(orders, customerId).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  const handleDelete = (customer: Customer) => {
+    if (window.confirm(`Delete ${customer.name}? Their past orders keep their name, but their points are lost.`)) {
+      deleteCustomer(customer.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center gap-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Contact className="w-5 h-5 text-orange-500" />
+          Customers
+        </h2>
+        <div className="relative w-full max-w-xs">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            placeholder="Search name or phone"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className={`${inputClassName} pl-9`}
+          />
+        </div>
+      </div>
+      <p className="text-sm text-gray-500">Customers are added from the till when taking an order.</p>
+
+      <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-gray-500 text-left">
+            <tr>
+              <th className="px-4 py-3 font-medium">Name</th>
+              <th className="px-4 py-3 font-medium">Phone</th>
+              <th className="px-4 py-3 font-medium text-right">Visits</th>
+              <th className="px-4 py-3 font-medium text-right">Spent</th>
+              {settings.loyalty.enabled && <th className="px-4 py-3 font-medium text-right">Points</th>}
+              <th className="px-4 py-3 font-medium">Last visit</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {shown.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-gray-400">
+                  {query.trim() ? 'No customers match your search' : 'No customers yet'}
+                </td>
+              </tr>
+            )}
+            {shown.map(customer => {
+              const history = getHistory(customer.id);
+              const visits = history.filter(isCompletedOrder);
+              const spent = visits.reduce((sum, o) => sum + getRefundableAmount(o), 0);
+              const isExpanded = expandedId === customer.id;
+              return (
+                <React.Fragment key={customer.id}>
+                  <tr onClick={() => setExpandedId(isExpanded ? null : customer.id)} className="cursor-pointer hover:bg-gray-50">
+                    <td className="px-4 py-3 font-medium text-gray-900">
+                      <span className="flex items-center gap-1">
+                        {isExpanded ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+                        {customer.name}
+                      </span>
+                      {customer.notes && <p className="text-xs font-normal text-gray-500 ml-5">{customer.notes}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{customer.phone || '-'}</td>
+                    <td className="px-4 py-3 text-right tabular-nums">{visits.length}</td>
+                    <td className="px-4 py-3 text-right tabular-nums">{formatCurrency(spent)}</td>
+                    {settings.loyalty.enabled && (
+                      <td className="px-4 py-3 text-right tabular-nums font-medium text-amber-700">{getCustomerPoints(customer.id)}</td>
+                    )}
+                    <td className="px-4 py-3 text-gray-600">{visits[0] ? new Date(visits[0].createdAt).toLocaleDateString() : '-'}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-1" onClick={(e) => e.stopPropagation()}>
+                        <button
+                          onClick={() => setEditing(customer)}
+                          className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(customer)}
+                          className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="bg-gray-50/50">
+                      <td colSpan={7} className="px-4 py-3">
+                        {history.length === 0 ? (
+                          <p className="text-gray-400 text-center py-2">No orders yet</p>
+                        ) : (
+                          <div className="space-y-1">
+                            {history.map(order => {
+                              const earned = getPointsEarned(order);
+                              const redeemed = getPointsRedeemed(order);
+                              return (
+                                <div key={order.id} className={`flex items-center gap-4 text-xs ${isCompletedOrder(order) ? 'text-gray-700' : 'text-gray-400 line-through'}`}>
+                                  <span className="font-mono w-16">{getOrderLabel(order)}</span>
+                                  <span className="w-36">{new Date(order.createdAt).toLocaleString()}</span>
+                                  <span className="flex-1 truncate">{order.items.map(i => `${i.quantity}x ${i.name}`).join(', ')}</span>
+                                  {(earned > 0 || redeemed > 0) && (
+                                    <span className="flex items-center gap-1 text-amber-700">
+                                      <Star className="w-3 h-3" />
+                                      {earned > 0 && `+${earned}`}
+                                      {earned > 0 && redeemed > 0 && ' / '}
+                                      {redeemed > 0 && `-${redeemed}`}
+                                    </span>
+                                  )}
+                                  <span className="tabular-nums font-medium w-24 text-right">{formatCurrency(order.total)}</span>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <AnimatePresence>
+        {editing && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white rounded-2xl shadow-xl w-full max-w-sm overflow-hidden"
+            >
+              <div className="flex items-center justify-between p-4 border-b border-gray-100">
+                <h2 className="text-lg font-semibold text-gray-900">Edit Customer</h2>
+                <button onClick={() => setEditing(null)} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+                  <X className="w-5 h-5 text-gray-500" />
+                </button>
+              </div>
+              <CustomerForm
+                initialData={editing}
+                onSave={(data) => updateCustomer(editing.id, data)}
+                onClose={() => setEditing(null)}
+              />
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
 import React, { useMemo } from 'react';
 import { Order } from '../types';
 import { formatCurrency } from '../utils';
+import { getNetSales } from '../lib/totals';
+import { getStatusDurations } from '../lib/orderStatus';
+import { formatElapsed } from '../lib/kitchen';
+import { getRefundNetSales, getRefundsOnDay } from '../lib/refunds';
+import { ORDER_TYPES, ORDER_TYPE_LABELS, getOrderType } from '../lib/orderTypes';
+import { getShopDate } from '../lib/shopTime';
 import { 
   LineChart, 
   Line, 
@@ -16,29 +22,68 @@ import { TrendingUp, ShoppingBag, CheckCircle2, Clock } from 'lucide-react';
 
 interface DailyAnalyticsProps {
   orders: Order[];
+  timeZone: string;
 }
 
-export function DailyAnalytics({ orders }: DailyAnalyticsProps) {
-  // Filter for today's orders
+export function DailyAnalytics({ orders, timeZone }: DailyAnalyticsProps) {
+  // Filter for today's orders, by the shop's calendar like the reports
+  const today = getShopDate(new Date().toISOString(), timeZone);
   const todayOrders = useMemo(() => {
-    const today = new Date().toDateString();
-    return orders.filter(o => new Date(o.createdAt).toDateString() === today);
-  }, [orders]);
+    return orders.filter(o => getShopDate(o.createdAt, timeZone) === today);
+  }, [orders, today, timeZone]);
+
+  // Refunds count against the day they were given, whenever the order was
+  // placed. Fully refunded orders are cancelled and already left out.
+  const todayRefunds = useMemo(() => {
+    return getRefundsOnDay(orders, today, timeZone)
+      .filter(({ order }) => order.status === 'Completed' || order.status === 'Picked Up');
+  }, [orders, today, timeZone]);
 
   // Calculate stats
   const stats = useMemo(() => {
     const completed = todayOrders.filter(o => o.status === 'Completed' || o.status === 'Picked Up');
     const pending = todayOrders.filter(o => o.status === 'Pending' || o.status === 'Preparing');
     
-    const revenue = completed.reduce((sum, o) => sum + o.total, 0);
+    const refunds = todayRefunds.reduce((sum, { refund }) => sum + refund.amount, 0);
+    const revenue = completed.reduce((sum, o) => sum + o.total, 0) - refunds;
+    const netSales = completed.reduce((sum, o) => sum + getNetSales(o), 0)
+      - todayRefunds.reduce((sum, { order, refund }) => sum + getRefundNetSales(order, refund), 0);
+    const serviceCharge = completed.reduce((sum, o) => sum + (o.serviceCharge || 0), 0);
+    const tax = completed.reduce((sum, o) => sum + (o.taxTotal || 0), 0);
+
+    // Only orders with a recorded history have durations
+    const durations = completed.map(getStatusDurations);
+    const prepTimes = durations.map(d => d.prepMs).filter((ms): ms is number => ms !== undefined);
+    const pickupTimes = durations.map(d => d.pickupMs).filter((ms): ms is number => ms !== undefined);
+    const average = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+
+    // Refunds come off the type of the order they were given on
+    const byType = ORDER_TYPES.map(type => {
+      const ofType = completed.filter(o => getOrderType(o) === type);
+      const typeRefunds = todayRefunds.filter(({ order }) => getOrderType(order) === type).reduce((sum, { refund }) => sum + refund.amount, 0);
+      return {
+        type,
+        orders: ofType.length,
+        revenue: ofType.reduce((sum, o) => sum + o.total, 0) - typeRefunds,
+      };
+    });
     
     return {
       totalOrders: todayOrders.length,
       completedOrders: completed.length,
       pendingOrders: pending.length,
-      revenue
+      revenue,
+      netSales,
+      serviceCharge,
+      tax,
+      refunds,
+      refundCount: todayRefunds.length,
+      voidedOrders: todayOrders.filter(o => o.voided).length,
+      avgPrepMs: average(prepTimes),
+      avgPickupMs: average(pickupTimes),
+      byType
     };
-  }, [todayOrders]);
+  }, [todayOrders, todayRefunds]);
 
   // Prepare chart data (Hourly)
   const chartData = useMemo(() => {
@@ -46,6 +91,7 @@ export function DailyAnalytics({ orders }: DailyAnalyticsProps) {
       hour: i,
       label: `${i}:00`,
       revenue: 0,
+      netSales: 0,
       orders: 0
     }));
 
@@ -59,15 +105,22 @@ export function DailyAnalytics({ orders }: DailyAnalyticsProps) {
       // Only count revenue for completed/picked up
       if (order.status === 'Completed' || order.status === 'Picked Up') {
         hours[hour].revenue += order.total;
+        hours[hour].netSales += getNetSales(order);
       }
     });
 
+    todayRefunds.forEach(({ order, refund }) => {
+      const hour = new Date(refund.createdAt).getHours();
+      hours[hour].revenue -= refund.amount;
+      hours[hour].netSales -= getRefundNetSales(order, refund);
+    });
+
     // Filter out future hours or empty start hours to make chart cleaner? 
     // Let's just show active hours (e.g., from first order to last order, or 8am to 10pm)
     // For now, showing all 24h or maybe just 6am-11pm is safer.
     // Let's just return all for simplicity.
     return hours;
-  }, [todayOrders]);
+  }, [todayOrders, todayRefunds]);
 
   return (
     <div className="space-y-6">
@@ -77,11 +130,29 @@ export function DailyAnalytics({ orders }: DailyAnalyticsProps) {
       </h2>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
         <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
           <p className="text-xs text-gray-500 font-medium mb-1">Today's Revenue</p>
           <p className="text-xl font-bold text-gray-900">{formatCurrency(stats.revenue)}</p>
         </div>
+        <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
+          <p className="text-xs text-gray-500 font-medium mb-1">Net Sales</p>
+          <p className="text-xl font-bold text-gray-900">{formatCurrency(stats.netSales)}</p>
+          <p className="text-xs text-gray-400 mt-1">Excl. tax and service</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
+          <p className="text-xs text-gray-500 font-medium mb-1">Tax Collected</p>
+          <p className="text-xl font-bold text-gray-900">{formatCurrency(stats.tax)}</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
+          <p className="text-xs text-gray-500 font-medium mb-1">Service Charge</p>
+          <p className="text-xl font-bold text-gray-900">{formatCurrency(stats.serviceCharge)}</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
+          <p className="text-xs text-gray-500 font-medium mb-1">Refunds</p>
+          <p className="text-xl font-bold text-red-600">{formatCurrency(stats.refunds)}</p>
+          <p className="text-xs text-gray-400 mt-1">{stats.refundCount} refunds · {stats.voidedOrders} voids</p>
+        </div>
         <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
           <p className="text-xs text-gray-500 font-medium mb-1">Total Orders</p>
           <p className="text-xl font-bold text-gray-900">{stats.totalOrders}</p>
@@ -94,6 +165,32 @@ export function DailyAnalytics({ orders }: DailyAnalyticsProps) {
           <p className="text-xs text-gray-500 font-medium mb-1">Pending</p>
           <p className="text-xl font-bold text-orange-600">{stats.pendingOrders}</p>
         </div>
+        <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
+          <p className="text-xs text-gray-500 font-medium mb-1">Avg Prep Time</p>
+          <p className="text-xl font-bold text-gray-900">{stats.avgPrepMs !== undefined ? formatElapsed(stats.avgPrepMs) : '—'}</p>
+          <p className="text-xs text-gray-400 mt-1">Placed to ready</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
+          <p className="text-xs text-gray-500 font-medium mb-1">Avg Pickup Wait</p>
+          <p className="text-xl font-bold text-gray-900">{stats.avgPickupMs !== undefined ? formatElapsed(stats.avgPickupMs) : '—'}</p>
+          <p className="text-xs text-gray-400 mt-1">Ready to collected</p>
+        </div>
+      </div>
+
+      {/* Order Types */}
+      <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
+        <h3 className="text-sm font-semibold text-gray-700 mb-3">By Order Type</h3>
+        <div className="grid grid-cols-3 gap-4">
+          {stats.byType.map(({ type, orders: count, revenue }) => (
+            <div key={type}>
+              <p className="text-xs text-gray-500 font-medium mb-1">{ORDER_TYPE_LABELS[type]}</p>
+              <p className="text-lg font-bold text-gray-900">{formatCurrency(revenue)}</p>
+              <p className="text-xs text-gray-400">
+                {count} orders{stats.revenue > 0 && ` · ${Math.round(revenue / stats.revenue * 100)}%`}
+              </p>
+            </div>
+          ))}
+        </div>
       </div>
 
       {/* Charts */}
@@ -119,7 +216,7 @@ export function DailyAnalytics({ orders }: DailyAnalyticsProps) {
               />
               <Tooltip 
                 contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)' }}
-                formatter={(value: number) => [formatCurrency(value), 'Revenue']}
+                formatter={(value: number, name: string) => [formatCurrency(value), name === 'netSales' ? 'Net Sales' : 'Revenue']}
               />
               <Line 
                 type="monotone" 
@@ -129,6 +226,14 @@ export function DailyAnalytics({ orders }: DailyAnalyticsProps) {
                 dot={false}
                 activeDot={{ r: 6, fill: '#f97316', stroke: '#fff', strokeWidth: 2 }}
               />
+              <Line 
+                type="monotone" 
+                dataKey="netSales" 
+                stroke="#9ca3af" 
+                strokeWidth={2} 
+                strokeDasharray="4 4"
+                dot={false}
+              />
             </LineChart>
           </ResponsiveContainer>
         </div>
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { useStore } from '../hooks/useStore';
+import { REPORT_PRESETS, ReportRange, getShopToday } from '../lib/reports';
+import { EXPORT_KINDS, ExportFormat, exportOrders } from '../lib/exports';
+import { TIME_ZONES } from '../lib/settings';
+import { Download, FileSpreadsheet } from 'lucide-react';
+
+const FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'xlsx', label: 'Excel (.xlsx)' },
+  { id: 'csv', label: 'CSV' },
+];
+
+export function ExportPanel() {
+  const { orders, categories, settings } = useStore();
+  const [range, setRange] = useState<ReportRange>(() => REPORT_PRESETS[3].getRange(getShopToday(settings.timeZone)));
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const isValidRange = range.from <= range.to;
+  const zoneLabel = TIME_ZONES.find(z => z.id === settings.timeZone)?.label ?? settings.timeZone;
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+        <FileSpreadsheet className="w-5 h-5 text-orange-500" />
+        Export Data
+      </h2>
+
+      <div className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {REPORT_PRESETS.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => setRange(preset.getRange(getShopToday(settings.timeZone)))}
+              className="px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all bg-white text-gray-600 border border-gray-200 hover:bg-gray-50"
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              type="date"
+              value={range.from}
+              onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              type="date"
+              value={range.to}
+              onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-orange-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              {FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+            </select>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Dates and times are in {zoneLabel}. Amounts are plain rupiah numbers without currency formatting.
+        </p>
+        {!isValidRange && <p className="text-sm text-red-600">The start date must be on or before the end date.</p>}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {EXPORT_KINDS.map(kind => (
+          <div key={kind.id} className="bg-white p-5 rounded-2xl border border-gray-100 shadow-sm flex flex-col justify-between gap-4">
+            <div>
+              <h3 className="font-semibold text-gray-900">{kind.label}</h3>
+              <p className="text-sm text-gray-500 mt-1">{kind.description}</p>
+            </div>
+            <button
+              disabled={!isValidRange}
+              onClick={() => exportOrders(kind.id, format, orders, range, settings.timeZone, categories)}
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-orange-500 text-white rounded-xl hover:bg-orange-600 transition-colors shadow-sm shadow-orange-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" />
+              Download
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
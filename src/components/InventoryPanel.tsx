@@ -0,0 +1,346 @@
+import React, { useEffect, useState } from 'react';
+import { Ingredient, IngredientUnit, StockMovementType } from '../types';
+import { useStore } from '../hooks/useStore';
+import { formatCurrency } from '../utils';
+import { INGREDIENT_UNITS, STOCK_MOVEMENT_LABELS, formatQuantity, isLowStock } from '../lib/inventory';
+import { motion, AnimatePresence } from 'motion/react';
+import { Plus, Edit2, Trash2, X, Boxes, PackagePlus, ClipboardCheck, AlertTriangle, History } from 'lucide-react';
+
+type AdjustmentType = Exclude<StockMovementType, 'sale' | 'cancel'>;
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm';
+
+const ADJUSTMENT_TITLES: Record<AdjustmentType, string> = {
+  receive: 'Receive Stock',
+  adjust: 'Stock Count',
+  waste: 'Record Waste',
+};
+
+const RECENT_MOVEMENTS = 20;
+
+interface ModalShellProps {
+  title: string;
+  onClose: () => void;
+  children: React.ReactNode;
+}
+
+function ModalShell({ title, onClose, children }: ModalShellProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white rounded-2xl shadow-xl w-full max-w-sm overflow-hidden"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+        {children}
+      </motion.div>
+    </div>
+  );
+}
+
+interface IngredientFormProps {
+  initialData?: Ingredient;
+  onSave: (ingredient: Omit<Ingredient, 'id'>) => void;
+  onClose: () => void;
+}
+
+function IngredientForm({ initialData, onSave, onClose }: IngredientFormProps) {
+  const [name, setName] = useState(initialData?.name || '');
+  const [unit, setUnit] = useState<IngredientUnit>(initialData?.unit || 'g');
+  const [onHand, setOnHand] = useState(initialData?.onHand?.toString() || '0');
+  const [threshold, setThreshold] = useState(initialData?.lowStockThreshold?.toString() || '0');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      name: name.trim(),
+      unit,
+      onHand: Number(onHand) || 0,
+      lowStockThreshold: Number(threshold) || 0,
+    });
+    onClose();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-6 space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+        <input type="text" required value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} placeholder="e.g. Espresso beans" />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+          <select value={unit} onChange={(e) => setUnit(e.target.value as IngredientUnit)} className={inputClassName}>
+            {INGREDIENT_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Low Stock At</label>
+          <input type="number" min="0" step="any" value={threshold} onChange={(e) => setThreshold(e.target.value)} className={inputClassName} />
+        </div>
+      </div>
+      {!initialData && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Opening Stock</label>
+          <input type="number" min="0" step="any" value={onHand} onChange={(e) => setOnHand(e.target.value)} className={inputClassName} />
+        </div>
+      )}
+      <button type="submit" className="w-full px-4 py-2 text-white bg-orange-500 hover:bg-orange-600 rounded-xl font-medium transition-colors shadow-sm shadow-orange-200">
+        Save Ingredient
+      </button>
+    </form>
+  );
+}
+
+interface AdjustmentFormProps {
+  ingredient: Ingredient;
+  type: AdjustmentType;
+  onClose: () => void;
+}
+
+function AdjustmentForm({ ingredient, type, onClose }: AdjustmentFormProps) {
+  const { adjustStock, updateIngredient } = useStore();
+  const [quantity, setQuantity] = useState('');
+  const [cost, setCost] = useState('');
+  const [note, setNote] = useState('');
+
+  const value = Number(quantity) || 0;
+  // A stock count records the difference between the count and the system
+  const delta = type === 'adjust' ? value - ingredient.onHand : type === 'waste' ? -value : value;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (delta !== 0) adjustStock(ingredient.id, type, delta, note.trim() || undefined);
+    if (type === 'receive' && cost) {
+      updateIngredient(ingredient.id, { costPerUnit: Number(cost) / value });
+    }
+    onClose();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-6 space-y-4">
+      <p className="text-sm text-gray-500">
+        {ingredient.name}: <span className="font-medium text-gray-900">{formatQuantity(ingredient.onHand, ingredient.unit)}</span> on hand
+      </p>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          {type === 'adjust' ? 'Counted Quantity' : type === 'waste' ? 'Quantity Wasted' : 'Quantity Received'} ({ingredient.unit})
+        </label>
+        <input type="number" min="0" step="any" required autoFocus value={quantity} onChange={(e) => setQuantity(e.target.value)} className={inputClassName} />
+      </div>
+      {type === 'receive' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Total Cost (Rp, optional)</label>
+          <input type="number" min="0" value={cost} onChange={(e) => setCost(e.target.value)} className={inputClassName} />
+        </div>
+      )}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className={inputClassName}
+          placeholder={type === 'receive' ? 'Supplier, invoice no...' : 'Reason'}
+        />
+      </div>
+      {quantity !== '' && (
+        <p className={`text-sm font-medium ${delta < 0 ? 'text-red-600' : 'text-green-600'}`}>
+          {delta > 0 ? '+' : ''}{formatQuantity(delta, ingredient.unit)}
+        </p>
+      )}
+      <button type="submit" className="w-full px-4 py-2 text-white bg-orange-500 hover:bg-orange-600 rounded-xl font-medium transition-colors shadow-sm shadow-orange-200">
+        {ADJUSTMENT_TITLES[type]}
+      </button>
+    </form>
+  );
+}
+
+export function InventoryPanel() {
+  const { ingredients, stockMovements, addIngredient, updateIngredient, deleteIngredient } = useStore();
+  const [editing, setEditing] = useState<Ingredient | 'new' | null>(null);
+  const [adjusting, setAdjusting] = useState<{ ingredientId: string; type: AdjustmentType } | null>(null);
+
+  // Close the adjustment form if its ingredient disappears (e.g. deleted on another till)
+  const adjustingIngredient = adjusting ? ingredients.find(i => i.id === adjusting.ingredientId) : undefined;
+  useEffect(() => {
+    if (adjusting && !adjustingIngredient) setAdjusting(null);
+  }, [adjusting, adjustingIngredient]);
+
+  const lowStock = ingredients.filter(isLowStock);
+  const recent = stockMovements.slice(0, RECENT_MOVEMENTS);
+
+  const handleSave = (data: Omit<Ingredient, 'id'>) => {
+    if (editing && editing !== 'new') {
+      // Quantity on hand only changes through stock movements
+      updateIngredient(editing.id, { name: data.name, unit: data.unit, lowStockThreshold: data.lowStockThreshold });
+    } else {
+      addIngredient(data);
+    }
+  };
+
+  const handleDelete = (ingredient: Ingredient) => {
+    if (window.confirm(`Delete "${ingredient.name}"? Recipes using it will stop tracking it.`)) {
+      deleteIngredient(ingredient.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Boxes className="w-5 h-5 text-orange-500" />
+          Inventory
+        </h2>
+        <button
+          onClick={() => setEditing('new')}
+          className="flex items-center gap-2 px-4 py-2 bg-orange-500 text-white rounded-xl hover:bg-orange-600 transition-colors shadow-sm shadow-orange-200"
+        >
+          <Plus className="w-4 h-4" />
+          Add Ingredient
+        </button>
+      </div>
+
+      {lowStock.length > 0 && (
+        <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-100 rounded-xl text-sm text-amber-800">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <p>Running low: {lowStock.map(i => i.name).join(', ')}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+        {ingredients.length === 0 ? (
+          <div className="text-center py-12 text-gray-400">
+            <Boxes className="w-10 h-10 mx-auto mb-2 opacity-30" />
+            <p>No ingredients yet</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-500 text-left">
+              <tr>
+                <th className="px-4 py-3 font-medium">Ingredient</th>
+                <th className="px-4 py-3 font-medium text-right">On Hand</th>
+                <th className="px-4 py-3 font-medium text-right">Low At</th>
+                <th className="px-4 py-3 font-medium text-right">Cost / Unit</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-50">
+              {ingredients.map(ingredient => {
+                const low = isLowStock(ingredient);
+                return (
+                  <tr key={ingredient.id}>
+                    <td className="px-4 py-3 font-medium text-gray-900">{ingredient.name}</td>
+                    <td className={`px-4 py-3 text-right font-medium ${
+                      ingredient.onHand <= 0 ? 'text-red-600' : low ? 'text-amber-600' : 'text-gray-900'
+                    }`}>
+                      {formatQuantity(ingredient.onHand, ingredient.unit)}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-500">{formatQuantity(ingredient.lowStockThreshold, ingredient.unit)}</td>
+                    <td className="px-4 py-3 text-right text-gray-500">
+                      {ingredient.costPerUnit !== undefined ? formatCurrency(ingredient.costPerUnit) : '—'}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-1">
+                        <button
+                          onClick={() => setAdjusting({ ingredientId: ingredient.id, type: 'receive' })}
+                          title="Receive stock"
+                          className="p-1.5 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                        >
+                          <PackagePlus className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setAdjusting({ ingredientId: ingredient.id, type: 'adjust' })}
+                          title="Stock count"
+                          className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                        >
+                          <ClipboardCheck className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setAdjusting({ ingredientId: ingredient.id, type: 'waste' })}
+                          title="Record waste"
+                          className="p-1.5 text-gray-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-colors"
+                        >
+                          <AlertTriangle className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setEditing(ingredient)}
+                          className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(ingredient)}
+                          className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {recent.length > 0 && (
+        <div className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm">
+          <h3 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+            <History className="w-4 h-4" />
+            Recent Stock Movements
+          </h3>
+          <div className="divide-y divide-gray-50 text-sm">
+            {recent.map(movement => {
+              const ingredient = ingredients.find(i => i.id === movement.ingredientId);
+              return (
+                <div key={movement.id} className="flex justify-between items-center py-2">
+                  <div>
+                    <p className="text-gray-900">
+                      {ingredient?.name || 'Deleted ingredient'}
+                      <span className="text-gray-400"> · {STOCK_MOVEMENT_LABELS[movement.type]}</span>
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {new Date(movement.createdAt).toLocaleString()}
+                      {movement.note && ` · ${movement.note}`}
+                    </p>
+                  </div>
+                  <span className={`font-medium ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {movement.quantity > 0 ? '+' : ''}{formatQuantity(movement.quantity, ingredient?.unit || 'pcs')}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <AnimatePresence>
+        {editing && (
+          <ModalShell title={editing === 'new' ? 'Add Ingredient' : 'Edit Ingredient'} onClose={() => setEditing(null)}>
+            <IngredientForm
+              initialData={editing === 'new' ? undefined : editing}
+              onSave={handleSave}
+              onClose={() => setEditing(null)}
+            />
+          </ModalShell>
+        )}
+      </AnimatePresence>
+      <AnimatePresence>
+        {adjusting && adjustingIngredient && (
+          <ModalShell title={ADJUSTMENT_TITLES[adjusting.type]} onClose={() => setAdjusting(null)}>
+            <AdjustmentForm ingredient={adjustingIngredient} type={adjusting.type} onClose={() => setAdjusting(null)} />
+          </ModalShell>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -1,36 +1,45 @@
 import React, { useState, useEffect } from 'react';
-import { MenuItem, BundleConfig, Category } from '../types';
+import { MenuItem, BundleConfig, Category, ModifierGroup, Ingredient, RecipeLine, Station } from '../types';
 import { motion, AnimatePresence } from 'motion/react';
 import { X, Plus, AlertCircle } from 'lucide-react';
+import { ModifierGroupsEditor } from './ModifierGroupsEditor';
+import { RecipeEditor } from './RecipeEditor';
 
 interface ItemModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (item: Omit<MenuItem, 'id'>) => void;
   initialData?: MenuItem;
+  ingredients: Ingredient[];
+  stations: Station[];
+  categories: Category[];
 }
 
-const CATEGORIES: Category[] = ['Coffee', 'Tea', 'Food', 'Dessert', 'Other'];
-
-export function ItemModal({ isOpen, onClose, onSave, initialData }: ItemModalProps) {
+export function ItemModal({ isOpen, onClose, onSave, initialData, ingredients, stations, categories }: ItemModalProps) {
   const [name, setName] = useState(initialData?.name || '');
   const [basePrice, setBasePrice] = useState(initialData?.basePrice?.toString() || '');
-  const [category, setCategory] = useState<Category>(initialData?.category || 'Coffee');
+  const [category, setCategory] = useState(initialData?.category || categories[0]?.id || '');
   
   const [bundleEnabled, setBundleEnabled] = useState(initialData?.bundle?.enabled || false);
   const [buyQuantity, setBuyQuantity] = useState(initialData?.bundle?.buyQuantity?.toString() || '');
   const [bundlePrice, setBundlePrice] = useState(initialData?.bundle?.bundlePrice?.toString() || '');
   const [showPromoLabel, setShowPromoLabel] = useState(initialData?.bundle?.showPromoLabel || false);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>(initialData?.modifierGroups || []);
+  const [recipe, setRecipe] = useState<RecipeLine[]>(initialData?.recipe || []);
+  const [stationId, setStationId] = useState(initialData?.stationId || '');
 
   useEffect(() => {
     if (isOpen) {
       setName(initialData?.name || '');
       setBasePrice(initialData?.basePrice?.toString() || '');
-      setCategory(initialData?.category || 'Coffee');
+      setCategory(initialData?.category || categories[0]?.id || '');
       setBundleEnabled(initialData?.bundle?.enabled || false);
       setBuyQuantity(initialData?.bundle?.buyQuantity?.toString() || '');
       setBundlePrice(initialData?.bundle?.bundlePrice?.toString() || '');
       setShowPromoLabel(initialData?.bundle?.showPromoLabel || false);
+      setModifierGroups(initialData?.modifierGroups || []);
+      setRecipe(initialData?.recipe || []);
+      setStationId(initialData?.stationId || '');
     }
   }, [isOpen, initialData]);
 
@@ -49,6 +58,10 @@ export function ItemModal({ isOpen, onClose, onSave, initialData }: ItemModalPro
       basePrice: parseInt(basePrice) || 0,
       category,
       bundle,
+      modifierGroups: modifierGroups.filter(g => g.options.length > 0),
+      recipe: recipe.filter(line => line.quantity > 0),
+      // Empty rather than undefined so clearing the override is saved too
+      stationId,
     });
     onClose();
   };
@@ -102,14 +115,28 @@ export function ItemModal({ isOpen, onClose, onSave, initialData }: ItemModalPro
                   <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
                   <select
                     value={category}
-                    onChange={(e) => setCategory(e.target.value as Category)}
+                    onChange={(e) => setCategory(e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all"
                   >
-                    {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                    {categories.map(c => <option key={c.id} value={c.id}>{c.name}{c.hidden ? ' (hidden)' : ''}</option>)}
                   </select>
                 </div>
               </div>
 
+              {stations.length > 1 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Prep Station</label>
+                  <select
+                    value={stationId}
+                    onChange={(e) => setStationId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none transition-all"
+                  >
+                    <option value="">By category ({stations.find(s => s.categories.includes(category))?.name ?? stations[0].name})</option>
+                    {stations.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                  </select>
+                </div>
+              )}
+
               <div className="pt-4 border-t border-gray-100">
                 <div className="flex items-center justify-between mb-4">
                   <div className="flex items-center gap-2">
@@ -177,6 +204,18 @@ export function ItemModal({ isOpen, onClose, onSave, initialData }: ItemModalPro
                 </AnimatePresence>
               </div>
 
+              <div className="pt-4 border-t border-gray-100">
+                <h3 className="text-sm font-medium text-gray-900 mb-1">Modifiers</h3>
+                <p className="text-xs text-gray-500 mb-3">Sizes, milk, sugar level and add-ons the cashier picks when adding this item.</p>
+                <ModifierGroupsEditor groups={modifierGroups} onChange={setModifierGroups} />
+              </div>
+
+              <div className="pt-4 border-t border-gray-100">
+                <h3 className="text-sm font-medium text-gray-900 mb-1">Recipe</h3>
+                <p className="text-xs text-gray-500 mb-3">Ingredients used per item. Stock is deducted when an order is placed.</p>
+                <RecipeEditor recipe={recipe} ingredients={ingredients} onChange={setRecipe} />
+              </div>
+
               <div className="pt-4 flex gap-3">
                 <button
                   type="button"
@@ -0,0 +1,335 @@
+import { useEffect, useRef, useState } from 'react';
+import { CartItem, Order } from '../types';
+import { useStore } from '../hooks/useStore';
+import { getLineId, getOrderLabel } from '../utils';
+import { describeModifiers } from '../lib/modifiers';
+import { describeOrderType } from '../lib/orderTypes';
+import { getLineAddedAt } from '../lib/amendments';
+import { TicketUrgency, formatElapsed, getElapsedMs, getOpenTickets, getTicketUrgency, playChime } from '../lib/kitchen';
+import { getItemStationId, getStationItems, isStationDone } from '../lib/stations';
+import { motion, AnimatePresence } from 'motion/react';
+import { ChefHat, CheckCheck, History, LogOut, Maximize, Minimize, RotateCcw, X, AlertCircle } from 'lucide-react';
+
+interface KitchenDisplayProps {
+  onExit: () => void;
+}
+
+// How many bumped tickets stay available for recall
+const RECALL_LIMIT = 10;
+
+// Each screen remembers which station it shows
+const STATION_KEY = 'pos_kds_station';
+
+const URGENCY_HEADER: Record<TicketUrgency, string> = {
+  normal: 'bg-gray-700',
+  warning: 'bg-amber-500',
+  overdue: 'bg-red-600',
+};
+
+interface TicketProps {
+  order: Order;
+  items: CartItem[];
+  getStationName?: (item: CartItem) => string | undefined;
+  urgency: TicketUrgency;
+  elapsed: number;
+  onToggleItem: (lineId: string) => void;
+  onBump: () => void;
+}
+
+function Ticket({ order, items, getStationName, urgency, elapsed, onToggleItem, onBump }: TicketProps) {
+  const remaining = items.filter(i => !i.isPrepared).length;
+
+  return (
+    <div
+      className={`w-72 bg-gray-800 rounded-2xl overflow-hidden flex flex-col max-h-full border-2 ${
+        urgency === 'overdue' ? 'border-red-600' : 'border-transparent'
+      }`}
+    >
+      <div className={`px-4 py-3 text-white ${URGENCY_HEADER[urgency]}`}>
+        <div className="flex justify-between items-baseline">
+          <span className="text-xl font-bold">{getOrderLabel(order)}</span>
+          <span className={`text-lg font-mono font-bold tabular-nums ${urgency === 'overdue' ? 'animate-pulse' : ''}`}>
+            {formatElapsed(elapsed)}
+          </span>
+        </div>
+        <p className="text-sm opacity-90 truncate">{order.customerName} · {describeOrderType(order)}</p>
+      </div>
+
+      {order.note && (
+        <div className="px-4 py-2 bg-orange-500/20 text-orange-200 text-sm flex items-start gap-1.5">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {order.note}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto divide-y divide-gray-700">
+        {items.map(item => {
+          // Lines added after the order was rung up, so a second round stands out
+          const addedAt = getLineAddedAt(order, getLineId(item));
+          return (
+            <button
+              key={getLineId(item)}
+              onClick={() => onToggleItem(getLineId(item))}
+              className={`w-full text-left px-4 py-3 transition-colors hover:bg-gray-700/50 ${
+                item.isPrepared ? 'opacity-40' : ''
+              }`}
+            >
+              <div className="flex justify-between items-start gap-2">
+                <p className={`text-lg font-semibold text-white ${item.isPrepared ? 'line-through' : ''}`}>
+                  <span className="text-orange-400 mr-2">{item.quantity}×</span>
+                  {item.name}
+                </p>
+                {getStationName && (
+                  <span className="mt-1 px-1.5 py-0.5 rounded bg-gray-700 text-[10px] uppercase tracking-wide text-gray-300 flex-shrink-0">
+                    {getStationName(item)}
+                  </span>
+                )}
+              </div>
+              {item.modifiers && item.modifiers.length > 0 && (
+                <p className="text-sm text-gray-300">{describeModifiers(item.modifiers)}</p>
+              )}
+              {item.note && <p className="text-sm text-orange-300 mt-0.5">* {item.note}</p>}
+              {addedAt && (
+                <p className="text-xs font-semibold text-sky-300 mt-0.5">
+                  + Added {new Date(addedAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                </p>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={onBump}
+        className="m-3 py-3 bg-green-600 hover:bg-green-500 text-white font-bold rounded-xl flex items-center justify-center gap-2 transition-colors"
+      >
+        <CheckCheck className="w-5 h-5" />
+        Bump{remaining > 0 && remaining < items.length ? ` (${remaining} left)` : ''}
+      </button>
+    </div>
+  );
+}
+
+export function KitchenDisplay({ onExit }: KitchenDisplayProps) {
+  const { orders, settings, toggleOrderItemPrepared, bumpOrder, recallOrder } = useStore();
+  const [now, setNow] = useState(Date.now());
+  const [recentIds, setRecentIds] = useState<string[]>([]);
+  const [showRecall, setShowRecall] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(Boolean(document.fullscreenElement));
+  const openIdsRef = useRef<Set<string> | null>(null);
+
+  const { stations } = settings;
+  const [storedStationId, setStoredStationId] = useState(() => localStorage.getItem(STATION_KEY) || '');
+  // Falls back to all stations if the saved one was removed
+  const stationId = stations.some(s => s.id === storedStationId) ? storedStationId : '';
+
+  const selectStation = (id: string) => {
+    localStorage.setItem(STATION_KEY, id);
+    setStoredStationId(id);
+  };
+
+  const getTicketItems = (order: Order) => stationId ? getStationItems(order, stationId, stations) : order.items;
+
+  // Whether this screen is finished with an order
+  const isDone = (order: Order) => {
+    if (!stationId) return order.status === 'Completed';
+    return order.status !== 'Cancelled' && getTicketItems(order).length > 0 && isStationDone(order, stationId, stations);
+  };
+
+  const tickets = getOpenTickets(orders).filter(order => getTicketItems(order).length > 0 && !(stationId && isDone(order)));
+  const recent = recentIds
+    .map(id => orders.find(o => o.id === id))
+    .filter((o): o is Order => o !== undefined && isDone(o));
+
+  const getStationName = !stationId && stations.length > 1
+    ? (item: CartItem) => stations.find(s => s.id === getItemStationId(item, stations))?.name
+    : undefined;
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(Boolean(document.fullscreenElement));
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  // Switching station starts a fresh board
+  useEffect(() => {
+    openIdsRef.current = null;
+    setRecentIds([]);
+  }, [stationId]);
+
+  // Compare the board with the previous one: new tickets chime, tickets that
+  // were completed (here or on another screen) go to the recall list.
+  useEffect(() => {
+    const openIds = new Set(tickets.map(o => o.id));
+    const previous = openIdsRef.current;
+    openIdsRef.current = openIds;
+    if (!previous) return;
+
+    const added = [...openIds].filter(id => !previous.has(id));
+    const completed = [...previous].filter(id => {
+      const order = orders.find(o => o.id === id);
+      return !openIds.has(id) && order !== undefined && isDone(order);
+    });
+
+    if (settings.kitchen.chimeOnNewOrder && added.some(id => !recentIds.includes(id))) {
+      playChime();
+    }
+    if (added.length > 0 || completed.length > 0) {
+      setRecentIds(prev => [...completed, ...prev.filter(id => !completed.includes(id) && !added.includes(id))].slice(0, RECALL_LIMIT));
+    }
+  }, [orders, stationId]);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen?.();
+    }
+  };
+
+  const handleExit = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    onExit();
+  };
+
+  const overdueCount = tickets.filter(o => getTicketUrgency(o, settings.kitchen, now) === 'overdue').length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900 text-white flex flex-col">
+      {/* Header */}
+      <div className="h-16 px-6 flex items-center justify-between border-b border-gray-800 flex-shrink-0">
+        <div className="flex items-center gap-3">
+          <ChefHat className="w-6 h-6 text-orange-500" />
+          <h1 className="text-xl font-bold">Kitchen</h1>
+          {stations.length > 0 && (
+            <select
+              value={stationId}
+              onChange={(e) => selectStation(e.target.value)}
+              className="bg-gray-800 text-white text-sm rounded-lg px-3 py-1.5 border border-gray-700 outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="">All stations</option>
+              {stations.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          )}
+          <span className="px-2.5 py-0.5 rounded-full bg-gray-800 text-sm tabular-nums">{tickets.length} open</span>
+          {overdueCount > 0 && (
+            <span className="px-2.5 py-0.5 rounded-full bg-red-600 text-sm font-semibold tabular-nums">{overdueCount} overdue</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-lg font-mono tabular-nums text-gray-400 mr-2">
+            {new Date(now).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+          </span>
+          <button
+            onClick={() => setShowRecall(!showRecall)}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+              showRecall ? 'bg-orange-500 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            <History className="w-4 h-4" />
+            Recall
+            {recent.length > 0 && <span className="tabular-nums">({recent.length})</span>}
+          </button>
+          <button
+            onClick={toggleFullscreen}
+            title={isFullscreen ? 'Exit full screen' : 'Full screen'}
+            className="p-2 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors"
+          >
+            {isFullscreen ? <Minimize className="w-5 h-5" /> : <Maximize className="w-5 h-5" />}
+          </button>
+          <button
+            onClick={handleExit}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 text-sm font-medium transition-colors"
+          >
+            <LogOut className="w-4 h-4" />
+            Exit
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Ticket Board */}
+        <div className="flex-1 flex gap-4 p-4 overflow-x-auto items-start">
+          {tickets.length === 0 ? (
+            <div className="flex-1 h-full flex flex-col items-center justify-center text-gray-600">
+              <ChefHat className="w-16 h-16 mb-3 opacity-40" />
+              <p className="text-lg">All caught up</p>
+            </div>
+          ) : (
+            <AnimatePresence>
+              {tickets.map(order => (
+                <motion.div
+                  key={order.id}
+                  layout
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, scale: 0.9 }}
+                  className="flex-shrink-0 max-h-full flex flex-col"
+                >
+                  <Ticket
+                    order={order}
+                    items={getTicketItems(order)}
+                    getStationName={getStationName}
+                    urgency={getTicketUrgency(order, settings.kitchen, now)}
+                    elapsed={getElapsedMs(order, now)}
+                    onToggleItem={(lineId) => toggleOrderItemPrepared(order.id, lineId)}
+                    onBump={() => bumpOrder(order.id, stationId || undefined)}
+                  />
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          )}
+        </div>
+
+        {/* Recall Tray */}
+        <AnimatePresence>
+          {showRecall && (
+            <motion.div
+              initial={{ width: 0, opacity: 0 }}
+              animate={{ width: 320, opacity: 1 }}
+              exit={{ width: 0, opacity: 0 }}
+              className="border-l border-gray-800 bg-gray-900 overflow-hidden flex-shrink-0"
+            >
+              <div className="w-80 h-full flex flex-col">
+                <div className="px-4 py-3 flex justify-between items-center border-b border-gray-800">
+                  <h2 className="font-semibold">Recently Bumped</h2>
+                  <button onClick={() => setShowRecall(false)} className="p-1 rounded hover:bg-gray-800 text-gray-400">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-3 space-y-2">
+                  {recent.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-8">Nothing to recall yet</p>
+                  ) : (
+                    recent.map(order => (
+                      <div key={order.id} className="p-3 bg-gray-800 rounded-xl flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="font-semibold">{getOrderLabel(order)}</p>
+                          <p className="text-xs text-gray-400 truncate">
+                            {order.customerName} · {getTicketItems(order).reduce((sum, i) => sum + i.quantity, 0)} items
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => recallOrder(order.id, stationId || undefined)}
+                          className="flex items-center gap-1.5 px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-sm font-medium transition-colors"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          Recall
+                        </button>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { MenuItem } from '../types';
+import { useStore } from '../hooks/useStore';
+import { X } from 'lucide-react';
+
+type PriceMode = 'set' | 'percent' | 'amount';
+
+const PRICE_MODES: { id: PriceMode; label: string }[] = [
+  { id: 'percent', label: 'Change by %' },
+  { id: 'amount', label: 'Change by Rp' },
+  { id: 'set', label: 'Set price to' },
+];
+
+// Negative values lower the price; it never drops below zero
+const adjustPrice = (price: number, mode: PriceMode, value: number): number => {
+  if (mode === 'set') return Math.max(0, Math.round(value));
+  if (mode === 'percent') return Math.max(0, Math.round(price * (1 + value / 100)));
+  return Math.max(0, Math.round(price + value));
+};
+
+interface MenuBulkBarProps {
+  items: MenuItem[];
+  onClear: () => void;
+}
+
+// Price changes and category moves for the items ticked in the Menu tab
+export function MenuBulkBar({ items, onClear }: MenuBulkBarProps) {
+  const { categories, applyMenuChanges } = useStore();
+  const [priceMode, setPriceMode] = useState<PriceMode>('percent');
+  const [priceValue, setPriceValue] = useState('');
+  const [category, setCategory] = useState('');
+
+  const applyPrice = () => {
+    const value = Number(priceValue);
+    if (priceValue === '' || Number.isNaN(value)) return;
+    applyMenuChanges({
+      updated: items.map(item => ({ id: item.id, updates: { basePrice: adjustPrice(item.basePrice, priceMode, value) } })),
+    });
+    setPriceValue('');
+  };
+
+  const applyCategory = () => {
+    if (!category) return;
+    applyMenuChanges({
+      updated: items.filter(item => item.category !== category).map(item => ({ id: item.id, updates: { category } })),
+    });
+    setCategory('');
+  };
+
+  return (
+    <div className="sticky top-20 z-30 mb-4 p-3 bg-gray-900 text-white rounded-xl shadow-lg flex flex-wrap items-center gap-3">
+      <span className="text-sm font-medium px-2">{items.length} selected</span>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={priceMode}
+          onChange={(e) => setPriceMode(e.target.value as PriceMode)}
+          className="px-2 py-1.5 rounded-lg bg-gray-800 border border-gray-700 text-sm outline-none"
+        >
+          {PRICE_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+        </select>
+        <input
+          type="number"
+          value={priceValue}
+          onChange={(e) => setPriceValue(e.target.value)}
+          placeholder={priceMode === 'percent' ? 'e.g. 10 or -5' : 'Rp'}
+          className="w-28 px-2 py-1.5 rounded-lg bg-gray-800 border border-gray-700 text-sm outline-none"
+        />
+        <button
+          onClick={applyPrice}
+          disabled={priceValue === ''}
+          className="px-3 py-1.5 rounded-lg bg-orange-500 hover:bg-orange-600 text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          Update Prices
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="px-2 py-1.5 rounded-lg bg-gray-800 border border-gray-700 text-sm outline-none"
+        >
+          <option value="">Move to category...</option>
+          {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+        <button
+          onClick={applyCategory}
+          disabled={!category}
+          className="px-3 py-1.5 rounded-lg bg-orange-500 hover:bg-orange-600 text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          Move
+        </button>
+      </div>
+
+      <button onClick={onClear} title="Clear selection" className="ml-auto p-1.5 rounded-lg hover:bg-gray-800 transition-colors">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
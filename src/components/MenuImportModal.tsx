@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { useStore } from '../hooks/useStore';
+import { formatCurrency } from '../utils';
+import { getCategoryName } from '../lib/categories';
+import { MENU_FIELD_LABELS, MenuDiff, MenuImportError, MenuParseResult, diffMenu, getChangedFields, parseMenuFile } from '../lib/menuTransfer';
+import { motion } from 'motion/react';
+import { X, Upload, Plus, Pencil, Minus, AlertCircle } from 'lucide-react';
+
+interface MenuImportModalProps {
+  onClose: () => void;
+}
+
+export function MenuImportModal({ onClose }: MenuImportModalProps) {
+  const { menu, categories, can, applyMenuChanges } = useStore();
+  const [fileName, setFileName] = useState('');
+  const [result, setResult] = useState<MenuParseResult | null>(null);
+  const [readError, setReadError] = useState('');
+  const [removeMissing, setRemoveMissing] = useState(false);
+
+  // Memoised so new items keep the ids they were previewed with
+  const diff: MenuDiff | null = useMemo(
+    () => result && result.errors.length === 0 ? diffMenu(menu, result.items, categories[0]?.id ?? '') : null,
+    [menu, result]
+  );
+  const canRemove = can('delete_menu_items');
+  const removed = diff && removeMissing && canRemove ? diff.removed : [];
+  const hasChanges = Boolean(diff && (diff.added.length || diff.changed.length || removed.length));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setResult(null);
+    setReadError('');
+    try {
+      setResult(parseMenuFile(await file.text(), categories));
+    } catch (err) {
+      if (!(err instanceof MenuImportError)) throw err;
+      setReadError(err.message);
+    }
+  };
+
+  const handleApply = () => {
+    if (!diff) return;
+    applyMenuChanges({
+      added: diff.added,
+      updated: diff.changed.map(change => ({ id: change.before.id, updates: getChangedFields(change) })),
+      removed: removed.map(item => item.id),
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-900">Import Menu</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <label className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed border-gray-200 rounded-xl cursor-pointer hover:border-orange-300 hover:bg-orange-50/40 transition-colors">
+            <Upload className="w-6 h-6 text-gray-400" />
+            <span className="text-sm font-medium text-gray-700">{fileName || 'Choose a CSV or JSON file'}</span>
+            <span className="text-xs text-gray-400">Columns: name, category, price, image_url, bundle_enabled, bundle_buy_quantity, bundle_price</span>
+            <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} className="hidden" />
+          </label>
+
+          {readError && <p className="text-sm text-red-600">{readError}</p>}
+
+          {result && result.errors.length > 0 && (
+            <div className="p-3 rounded-xl bg-red-50 border border-red-100 space-y-1">
+              <p className="text-sm font-medium text-red-700 flex items-center gap-1.5">
+                <AlertCircle className="w-4 h-4" />
+                Fix these and import again
+              </p>
+              <ul className="text-xs text-red-600 list-disc ml-5 space-y-0.5">
+                {result.errors.slice(0, 20).map(error => <li key={error}>{error}</li>)}
+                {result.errors.length > 20 && <li>and {result.errors.length - 20} more</li>}
+              </ul>
+            </div>
+          )}
+
+          {diff && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-500">
+                {diff.added.length} new, {diff.changed.length} changed, {diff.unchanged} unchanged
+                {diff.removed.length > 0 && `, ${diff.removed.length} not in the file`}
+              </p>
+
+              {diff.added.map(item => (
+                <div key={item.id} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="flex items-center gap-2 text-green-700">
+                    <Plus className="w-4 h-4" />
+                    {item.name}
+                    <span className="text-xs text-gray-400">{getCategoryName(categories, item.category)}</span>
+                  </span>
+                  <span className="tabular-nums">{formatCurrency(item.basePrice)}</span>
+                </div>
+              ))}
+
+              {diff.changed.map(change => (
+                <div key={change.before.id} className="text-sm">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="flex items-center gap-2 text-blue-700">
+                      <Pencil className="w-4 h-4" />
+                      {change.after.name}
+                    </span>
+                    {change.fields.includes('basePrice') && (
+                      <span className="tabular-nums">
+                        <span className="text-gray-400 line-through mr-2">{formatCurrency(change.before.basePrice)}</span>
+                        {formatCurrency(change.after.basePrice)}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-400 ml-6">
+                    {change.fields.map(field => MENU_FIELD_LABELS[field]).join(', ')}
+                    {change.fields.includes('category') && `: ${getCategoryName(categories, change.before.category)} → ${getCategoryName(categories, change.after.category)}`}
+                  </p>
+                </div>
+              ))}
+
+              {diff.removed.length > 0 && (
+                <div className="pt-2 border-t border-gray-100 space-y-2">
+                  <label className={`flex items-center gap-2 text-sm ${canRemove ? 'text-gray-700' : 'text-gray-400'}`}>
+                    <input
+                      type="checkbox"
+                      disabled={!canRemove}
+                      checked={removeMissing && canRemove}
+                      onChange={(e) => setRemoveMissing(e.target.checked)}
+                      className="rounded text-orange-500 focus:ring-orange-500"
+                    />
+                    Remove {diff.removed.length} items that are not in the file
+                    {!canRemove && ' (needs permission to delete menu items)'}
+                  </label>
+                  {removeMissing && canRemove && diff.removed.map(item => (
+                    <div key={item.id} className="flex items-center gap-2 text-sm text-red-600">
+                      <Minus className="w-4 h-4" />
+                      {item.name}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl font-medium transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!hasChanges}
+            className="px-4 py-2 text-white bg-orange-500 hover:bg-orange-600 rounded-xl font-medium transition-colors shadow-sm shadow-orange-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply Changes
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { ModifierGroup, ModifierOption } from '../types';
+import { generateId } from '../utils';
+import { Plus, Trash2, X } from 'lucide-react';
+
+interface ModifierGroupsEditorProps {
+  groups: ModifierGroup[];
+  onChange: (groups: ModifierGroup[]) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1.5 bg-white border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm';
+
+export function ModifierGroupsEditor({ groups, onChange }: ModifierGroupsEditorProps) {
+  const updateGroup = (groupId: string, changes: Partial<ModifierGroup>) => {
+    onChange(groups.map(g => g.id === groupId ? { ...g, ...changes } : g));
+  };
+
+  const updateOption = (group: ModifierGroup, optionId: string, changes: Partial<ModifierOption>) => {
+    updateGroup(group.id, {
+      options: group.options.map(o => o.id === optionId ? { ...o, ...changes } : o),
+    });
+  };
+
+  const addGroup = () => {
+    onChange([...groups, {
+      id: generateId(),
+      name: '',
+      required: false,
+      minSelect: 0,
+      maxSelect: 1,
+      options: [{ id: generateId(), name: '', priceDelta: 0 }],
+    }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {groups.map(group => (
+        <div key={group.id} className="p-3 bg-gray-50 rounded-xl border border-gray-100 space-y-3">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              required
+              placeholder="Group name (e.g. Size)"
+              value={group.name}
+              onChange={(e) => updateGroup(group.id, { name: e.target.value })}
+              className={inputClassName}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(groups.filter(g => g.id !== group.id))}
+              className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 items-end">
+            <label className="flex items-center gap-2 text-xs text-gray-700 cursor-pointer pb-2">
+              <input
+                type="checkbox"
+                checked={group.required}
+                onChange={(e) => updateGroup(group.id, {
+                  required: e.target.checked,
+                  minSelect: e.target.checked ? Math.max(1, group.minSelect) : 0,
+                })}
+                className="w-4 h-4 text-orange-500 border-gray-300 rounded focus:ring-orange-500"
+              />
+              Required
+            </label>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Min</label>
+              <input
+                type="number"
+                min="0"
+                value={group.minSelect}
+                onChange={(e) => updateGroup(group.id, { minSelect: parseInt(e.target.value) || 0 })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Max (0 = any)</label>
+              <input
+                type="number"
+                min="0"
+                value={group.maxSelect}
+                onChange={(e) => updateGroup(group.id, { maxSelect: parseInt(e.target.value) || 0 })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {group.options.map(option => (
+              <div key={option.id} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  required
+                  placeholder="Option (e.g. Large)"
+                  value={option.name}
+                  onChange={(e) => updateOption(group, option.id, { name: e.target.value })}
+                  className={inputClassName}
+                />
+                <input
+                  type="number"
+                  placeholder="+Rp"
+                  value={option.priceDelta || ''}
+                  onChange={(e) => updateOption(group, option.id, { priceDelta: parseInt(e.target.value) || 0 })}
+                  className={`${inputClassName} w-28 flex-shrink-0`}
+                />
+                <button
+                  type="button"
+                  onClick={() => updateGroup(group.id, { options: group.options.filter(o => o.id !== option.id) })}
+                  className="p-1 text-gray-400 hover:text-red-600 rounded"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateGroup(group.id, {
+                options: [...group.options, { id: generateId(), name: '', priceDelta: 0 }],
+              })}
+              className="text-xs font-medium text-orange-600 hover:text-orange-700 flex items-center gap-1"
+            >
+              <Plus className="w-3 h-3" />
+              Add option
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addGroup}
+        className="w-full py-2 text-sm font-medium text-gray-600 border border-dashed border-gray-300 rounded-xl hover:border-orange-300 hover:text-orange-600 flex items-center justify-center gap-1 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        Add modifier group
+      </button>
+    </div>
+  );
+}
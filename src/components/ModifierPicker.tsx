@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { MenuItem, ModifierGroup, SelectedModifier } from '../types';
+import { formatCurrency } from '../utils';
+import { getSelectionError } from '../lib/modifiers';
+import { X, Check } from 'lucide-react';
+
+interface ModifierPickerProps {
+  item: MenuItem | null;
+  onClose: () => void;
+  onConfirm: (item: MenuItem, modifiers: SelectedModifier[]) => void;
+}
+
+export function ModifierPicker({ item, onClose, onConfirm }: ModifierPickerProps) {
+  // Selected option ids per group id
+  const [selection, setSelection] = useState<Record<string, string[]>>({});
+
+  useEffect(() => {
+    setSelection({});
+  }, [item]);
+
+  const groups = (item?.modifierGroups || []).filter(g => g.options.length > 0);
+
+  const toggleOption = (group: ModifierGroup, optionId: string) => {
+    setSelection(prev => {
+      const current = prev[group.id] || [];
+      if (current.includes(optionId)) {
+        return { ...prev, [group.id]: current.filter(id => id !== optionId) };
+      }
+      // Single-choice groups swap the selection instead of adding to it
+      if (group.maxSelect === 1) {
+        return { ...prev, [group.id]: [optionId] };
+      }
+      if (group.maxSelect > 0 && current.length >= group.maxSelect) {
+        return prev;
+      }
+      return { ...prev, [group.id]: [...current, optionId] };
+    });
+  };
+
+  const selected: SelectedModifier[] = groups.flatMap(group =>
+    group.options
+      .filter(option => (selection[group.id] || []).includes(option.id))
+      .map(option => ({
+        groupId: group.id,
+        groupName: group.name,
+        optionId: option.id,
+        optionName: option.name,
+        priceDelta: option.priceDelta,
+      }))
+  );
+
+  const errors = groups.map(group => getSelectionError(group, (selection[group.id] || []).length));
+  const isValid = errors.every(error => error === null);
+  const unitPrice = (item?.basePrice || 0) + selected.reduce((sum, m) => sum + m.priceDelta, 0);
+
+  return (
+    <AnimatePresence>
+      {item && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={onClose}>
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between p-4 border-b border-gray-100">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">{item.name}</h2>
+                <p className="text-sm text-gray-500">{formatCurrency(item.basePrice)}</p>
+              </div>
+              <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-5 max-h-[60vh] overflow-y-auto">
+              {groups.map((group, index) => (
+                <div key={group.id}>
+                  <div className="flex items-baseline justify-between mb-2">
+                    <h3 className="font-medium text-gray-900">{group.name}</h3>
+                    <span className={`text-xs ${errors[index] ? 'text-orange-600 font-medium' : 'text-gray-400'}`}>
+                      {errors[index] || (group.required ? 'Required' : 'Optional')}
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {group.options.map(option => {
+                      const isSelected = (selection[group.id] || []).includes(option.id);
+                      return (
+                        <button
+                          key={option.id}
+                          type="button"
+                          onClick={() => toggleOption(group, option.id)}
+                          className={`flex items-center justify-between gap-2 px-3 py-2 rounded-xl border text-sm text-left transition-all ${
+                            isSelected
+                              ? 'bg-orange-50 border-orange-500 text-orange-700'
+                              : 'bg-white border-gray-200 text-gray-700 hover:border-gray-300'
+                          }`}
+                        >
+                          <span className="flex items-center gap-1.5">
+                            {isSelected && <Check className="w-3.5 h-3.5" />}
+                            {option.name}
+                          </span>
+                          {option.priceDelta !== 0 && (
+                            <span className="text-xs text-gray-500">
+                              {option.priceDelta > 0 ? '+' : ''}{formatCurrency(option.priceDelta)}
+                            </span>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="p-4 border-t border-gray-100 flex gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl font-medium transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                disabled={!isValid}
+                onClick={() => onConfirm(item, selected)}
+                className="flex-1 px-4 py-2 text-white bg-orange-500 hover:bg-orange-600 rounded-xl font-medium transition-colors shadow-sm shadow-orange-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add · {formatCurrency(unitPrice)}
+              </button>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,8 +1,18 @@
 import { motion, AnimatePresence } from 'motion/react';
 import { Order } from '../types';
-import { formatCurrency } from '../utils';
-import { X, CheckCircle2, Clock, ChefHat, AlertCircle, ShoppingBag, Lock } from 'lucide-react';
+import { formatCurrency, getLineId, getOrderLabel, getOrderReference } from '../utils';
+import { X, CheckCircle2, Clock, ChefHat, AlertCircle, ShoppingBag, Lock, Wallet, Printer, ReceiptText, History, Undo2, PencilLine } from 'lucide-react';
 import { useStore } from '../hooks/useStore';
+import { getChangeDue, getOrderBalanceDue, getOrderPaymentStatus } from '../lib/payments';
+import { printOrderDocument } from '../lib/printer';
+import { describeModifiers } from '../lib/modifiers';
+import { getItemStationId, getStationProgress } from '../lib/stations';
+import { canTransition } from '../lib/orderStatus';
+import { REFUND_REASON_LABELS } from '../lib/refunds';
+import { describeOrderType } from '../lib/orderTypes';
+import { describeAmendmentLines } from '../lib/amendments';
+import { TenderForm, TenderList } from './TenderForm';
+import { OrderSummaryLines } from './OrderSummaryLines';
 
 interface OrderDetailPanelProps {
   order: Order;
@@ -10,13 +20,23 @@ interface OrderDetailPanelProps {
 }
 
 export function OrderDetailPanel({ order, onClose }: OrderDetailPanelProps) {
-  const { toggleOrderItemPrepared, updateOrderStatus } = useStore();
+  const { orders, toggleOrderItemPrepared, updateOrderStatus, addPayment, settings, staff } = useStore();
 
   const totalItems = order.items.length;
   const preparedItems = order.items.filter(i => i.isPrepared).length;
   const progress = totalItems > 0 ? (preparedItems / totalItems) * 100 : 0;
   const isAllPrepared = preparedItems === totalItems && totalItems > 0;
   const isPickedUp = order.status === 'Picked Up';
+  const paymentStatus = getOrderPaymentStatus(order);
+  const balanceDue = getOrderBalanceDue(order);
+  const payments = order.payments || [];
+  const stationProgress = getStationProgress(order, settings.stations);
+  const showStations = stationProgress.length > 1;
+  const statusHistory = order.statusHistory || [];
+  const refunds = order.refunds || [];
+  const amendments = order.amendments || [];
+  const mergedInto = order.mergedInto ? orders.find(o => o.id === order.mergedInto) ?? { id: order.mergedInto } : undefined;
+  const getStaffName = (staffId?: string) => staff.find(s => s.id === staffId)?.name ?? 'former staff';
 
   return (
     <motion.div
@@ -39,7 +59,8 @@ export function OrderDetailPanel({ order, onClose }: OrderDetailPanelProps) {
           <div className="flex justify-between items-start mb-4">
             <div>
               <div className="flex items-center gap-2 mb-1">
-                <h2 className="text-xl font-bold text-gray-900">Order #{order.id}</h2>
+                <h2 className="text-xl font-bold text-gray-900">Order {getOrderLabel(order)}</h2>
+                {order.queueNumber && <span className="text-xs font-mono text-gray-400">{getOrderReference(order)}</span>}
                 <span className={`px-2 py-0.5 rounded-full text-xs font-medium border flex items-center gap-1 ${
                   order.status === 'Completed' ? 'bg-green-100 text-green-700 border-green-200' :
                   order.status === 'Preparing' ? 'bg-orange-100 text-orange-700 border-orange-200' :
@@ -51,7 +72,9 @@ export function OrderDetailPanel({ order, onClose }: OrderDetailPanelProps) {
                   {order.status}
                 </span>
               </div>
-              <p className="text-gray-500 font-medium">{order.customerName}</p>
+              <p className="text-gray-500 font-medium">{order.customerName} · {describeOrderType(order)}</p>
+              {mergedInto && <p className="text-xs text-gray-400">Merged into order {getOrderLabel(mergedInto)}</p>}
+              {order.staffName && <p className="text-xs text-gray-400">Taken by {order.staffName}</p>}
             </div>
             <button 
               onClick={onClose}
@@ -67,8 +90,10 @@ export function OrderDetailPanel({ order, onClose }: OrderDetailPanelProps) {
               <span>{new Date(order.createdAt).toLocaleTimeString()}</span>
             </div>
             <div className="flex items-center gap-2 text-gray-600">
-              <div className={`w-2 h-2 rounded-full ${order.paymentStatus === 'Paid' ? 'bg-green-500' : 'bg-gray-300'}`} />
-              <span>{order.paymentStatus}</span>
+              <div className={`w-2 h-2 rounded-full ${
+                paymentStatus === 'Paid' ? 'bg-green-500' : paymentStatus === 'Partially Paid' ? 'bg-amber-400' : 'bg-gray-300'
+              }`} />
+              <span>{paymentStatus}</span>
             </div>
           </div>
         </div>
@@ -90,13 +115,31 @@ export function OrderDetailPanel({ order, onClose }: OrderDetailPanelProps) {
               transition={{ duration: 0.5, ease: "easeOut" }}
             />
           </div>
+          {showStations && (
+            <div className="mt-3 space-y-1.5">
+              {stationProgress.map(({ station, total, prepared }) => (
+                <div key={station.id} className="flex items-center gap-3 text-xs">
+                  <span className="w-16 text-gray-600 font-medium truncate">{station.name}</span>
+                  <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full transition-all ${prepared === total ? 'bg-green-500' : 'bg-orange-400'}`}
+                      style={{ width: `${(prepared / total) * 100}%` }}
+                    />
+                  </div>
+                  <span className={`w-10 text-right tabular-nums ${prepared === total ? 'text-green-600 font-medium' : 'text-gray-500'}`}>
+                    {prepared}/{total}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Items List */}
         <div className={`flex-1 overflow-y-auto p-6 space-y-3 ${isPickedUp ? 'opacity-75 pointer-events-none grayscale-[0.5]' : ''}`}>
           {order.items.map((item) => (
             <motion.div
-              key={item.id}
+              key={getLineId(item)}
               layout
               className={`group relative p-4 rounded-xl border transition-all duration-200 ${
                 item.isPrepared 
@@ -109,7 +152,7 @@ export function OrderDetailPanel({ order, onClose }: OrderDetailPanelProps) {
                   <input
                     type="checkbox"
                     checked={!!item.isPrepared}
-                    onChange={() => !isPickedUp && toggleOrderItemPrepared(order.id, item.id)}
+                    onChange={() => !isPickedUp && toggleOrderItemPrepared(order.id, getLineId(item))}
                     disabled={isPickedUp}
                     className="peer appearance-none w-6 h-6 border-2 border-gray-300 rounded-lg checked:bg-green-500 checked:border-green-500 transition-colors cursor-pointer disabled:cursor-not-allowed"
                   />
@@ -125,7 +168,16 @@ export function OrderDetailPanel({ order, onClose }: OrderDetailPanelProps) {
                     </h4>
                     <span className="font-bold text-gray-900">x{item.quantity}</span>
                   </div>
+                  {showStations && (
+                    <p className="text-[10px] uppercase tracking-wide text-gray-400">
+                      {settings.stations.find(s => s.id === getItemStationId(item, settings.stations))?.name}
+                    </p>
+                  )}
                   
+                  {item.modifiers && item.modifiers.length > 0 && (
+                    <p className="text-sm text-gray-500">{describeModifiers(item.modifiers)}</p>
+                  )}
+
                   {item.note && (
                     <div className="mt-1 flex items-start gap-1.5 text-xs text-orange-600 bg-orange-50 p-1.5 rounded-md inline-block">
                       <AlertCircle className="w-3 h-3 mt-0.5" />
@@ -138,15 +190,142 @@ export function OrderDetailPanel({ order, onClose }: OrderDetailPanelProps) {
           ))}
         </div>
 
+        {/* Payments */}
+        <div className="px-6 py-4 border-t border-gray-100 space-y-3">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center gap-2 text-gray-700 font-medium">
+              <Wallet className="w-4 h-4" />
+              <h3>Payments</h3>
+            </div>
+            {balanceDue > 0 ? (
+              <span className="text-sm font-medium text-orange-600">Due {formatCurrency(balanceDue)}</span>
+            ) : (
+              <span className="text-sm font-medium text-green-600">Settled</span>
+            )}
+          </div>
+          <TenderList payments={payments} />
+          {getChangeDue(payments) > 0 && (
+            <p className="text-xs text-gray-500">Change given: {formatCurrency(getChangeDue(payments))}</p>
+          )}
+          {balanceDue > 0 && order.status !== 'Cancelled' && (
+            <TenderForm balanceDue={balanceDue} onAddTender={(tender) => addPayment(order.id, tender)} />
+          )}
+        </div>
+
+        {/* Voids and Refunds */}
+        {(order.voided || refunds.length > 0) && (
+          <div className="px-6 py-4 border-t border-gray-100 space-y-3">
+            <div className="flex items-center gap-2 text-gray-700 font-medium">
+              <Undo2 className="w-4 h-4" />
+              <h3>{order.voided ? 'Voided' : 'Refunds'}</h3>
+            </div>
+            {order.voided && (
+              <div className="text-sm">
+                <p className="text-gray-900">{REFUND_REASON_LABELS[order.voided.reason]}{order.voided.note && ` · ${order.voided.note}`}</p>
+                <p className="text-xs text-gray-500">
+                  {new Date(order.voided.at).toLocaleString()} · approved by {getStaffName(order.voided.approvedBy)}
+                </p>
+              </div>
+            )}
+            {refunds.map(refund => (
+              <div key={refund.id} className="text-sm">
+                <div className="flex justify-between gap-2">
+                  <span className="text-gray-900">
+                    {refund.lines.map(line => `${line.quantity}x ${line.name}`).join(', ')}
+                  </span>
+                  <span className="font-medium text-red-600 tabular-nums">-{formatCurrency(refund.amount)}</span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {refund.method} · {REFUND_REASON_LABELS[refund.reason]}{refund.note && ` (${refund.note})`} · approved by {getStaffName(refund.approvedBy)}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Changes made after the order was placed */}
+        {amendments.length > 0 && (
+          <div className="px-6 py-4 border-t border-gray-100 space-y-3">
+            <div className="flex items-center gap-2 text-gray-700 font-medium">
+              <PencilLine className="w-4 h-4" />
+              <h3>Changes</h3>
+            </div>
+            <ol className="relative border-l border-gray-200 ml-1.5 space-y-2">
+              {amendments.map((amendment, index) => (
+                <li key={`${amendment.at}-${index}`} className="ml-4 text-sm">
+                  <span className="absolute -left-[5px] mt-1.5 w-2.5 h-2.5 rounded-full bg-blue-300" />
+                  <div className="flex justify-between gap-2">
+                    <div className="min-w-0">
+                      {amendment.added.length > 0 && <p className="text-green-700">+ {describeAmendmentLines(amendment.added)}</p>}
+                      {amendment.removed.length > 0 && <p className="text-red-600">- {describeAmendmentLines(amendment.removed)}</p>}
+                    </div>
+                    <span className="text-gray-400 tabular-nums">
+                      {new Date(amendment.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                    </span>
+                  </div>
+                  {amendment.staffId && <p className="text-xs text-gray-500">by {getStaffName(amendment.staffId)}</p>}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {/* Status History */}
+        {statusHistory.length > 0 && (
+          <div className="px-6 py-4 border-t border-gray-100 space-y-3">
+            <div className="flex items-center gap-2 text-gray-700 font-medium">
+              <History className="w-4 h-4" />
+              <h3>Status History</h3>
+            </div>
+            <ol className="relative border-l border-gray-200 ml-1.5 space-y-2">
+              {statusHistory.map((change, index) => (
+                <li key={`${change.at}-${index}`} className="ml-4 text-sm">
+                  <span className="absolute -left-[5px] mt-1.5 w-2.5 h-2.5 rounded-full bg-gray-300" />
+                  <div className="flex justify-between gap-2">
+                    <span className="text-gray-900">
+                      {change.from ? `${change.from} → ${change.to}` : `Placed as ${change.to}`}
+                    </span>
+                    <span className="text-gray-400 tabular-nums">
+                      {new Date(change.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    by <span className="capitalize">{change.by}</span>
+                    {change.staffId && ` · ${getStaffName(change.staffId)}`}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
         {/* Footer */}
         <div className="p-6 border-t border-gray-100 bg-gray-50">
+          <OrderSummaryLines breakdown={order} />
           <div className="flex justify-between items-center mb-4">
             <span className="text-gray-500 font-medium">Total Amount</span>
             <span className="text-2xl font-bold text-gray-900">{formatCurrency(order.total)}</span>
           </div>
+
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            <button
+              onClick={() => printOrderDocument('receipt', order, settings)}
+              className="py-2 text-sm font-medium text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded-xl flex items-center justify-center gap-2 transition-colors"
+            >
+              <ReceiptText className="w-4 h-4" />
+              Reprint Receipt
+            </button>
+            <button
+              onClick={() => printOrderDocument('kitchen', order, settings)}
+              className="py-2 text-sm font-medium text-gray-700 bg-white border border-gray-200 hover:bg-gray-100 rounded-xl flex items-center justify-center gap-2 transition-colors"
+            >
+              <Printer className="w-4 h-4" />
+              Kitchen Ticket
+            </button>
+          </div>
           
           <AnimatePresence mode="wait">
-            {order.status === 'Completed' && (
+            {canTransition(order.status, 'Picked Up', 'cashier') && (
               <motion.button
                 initial={{ opacity: 0, y: 10 }}
                 animate={{ opacity: 1, y: 0 }}
@@ -0,0 +1,32 @@
+import { formatCurrency } from '../utils';
+import { OrderBreakdown, getSummaryLines } from '../lib/totals';
+import { Tag } from 'lucide-react';
+
+interface OrderSummaryLinesProps {
+  breakdown: OrderBreakdown;
+}
+
+// Subtotal, discounts, service charge and tax, shown above an order's total
+export function OrderSummaryLines({ breakdown }: OrderSummaryLinesProps) {
+  const lines = getSummaryLines(breakdown);
+  if (lines.length === 0) return null;
+
+  return (
+    <div className="space-y-1 mb-2 text-sm">
+      {lines.map((line, index) => (
+        <div
+          key={`${line.kind}-${index}`}
+          className={`flex justify-between ${
+            line.kind === 'discount' ? 'text-green-600' : line.included ? 'text-gray-400 italic' : 'text-gray-500'
+          }`}
+        >
+          <span className="flex items-center gap-1">
+            {line.kind === 'discount' && <Tag className="w-3 h-3" />}
+            {line.label}
+          </span>
+          <span>{line.amount < 0 ? `-${formatCurrency(-line.amount)}` : formatCurrency(line.amount)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
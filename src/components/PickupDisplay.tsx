@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from 'react';
+import { useStore } from '../hooks/useStore';
+import { getOrderLabel } from '../utils';
+import { getPickupBoard } from '../lib/queue';
+import { playChime } from '../lib/kitchen';
+import { motion, AnimatePresence } from 'motion/react';
+import { ChefHat, PackageCheck, LogOut, Maximize, Minimize } from 'lucide-react';
+
+// How long a number stands out after it is ready
+const HIGHLIGHT_MS = 30000;
+
+interface PickupDisplayProps {
+  onExit: () => void;
+}
+
+// Customer-facing screen by the counter. It follows order statuses as they
+// arrive over the realtime feed: numbers move across once the kitchen has
+// made them and drop off when they are collected.
+export function PickupDisplay({ onExit }: PickupDisplayProps) {
+  const { orders, settings } = useStore();
+  const [now, setNow] = useState(Date.now());
+  const [readyAt, setReadyAt] = useState<Record<string, number>>({});
+  const [isFullscreen, setIsFullscreen] = useState(Boolean(document.fullscreenElement));
+  const readyIdsRef = useRef<Set<string> | null>(null);
+
+  const { preparing, ready } = getPickupBoard(orders, settings.timeZone, now);
+  // Most recently ready first, so the number just called is at the top
+  const readyShown = [...ready].sort((a, b) => (readyAt[b.id] || 0) - (readyAt[a.id] || 0));
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(Boolean(document.fullscreenElement));
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  // Numbers that just became ready chime and stand out for a while. The first
+  // board after opening the screen only sets the baseline.
+  useEffect(() => {
+    const readyIds = new Set(ready.map(o => o.id));
+    const previous = readyIdsRef.current;
+    readyIdsRef.current = readyIds;
+    if (!previous) return;
+
+    const added = [...readyIds].filter(id => !previous.has(id));
+    if (added.length === 0) return;
+    playChime();
+    const at = Date.now();
+    setReadyAt(prev => ({ ...prev, ...Object.fromEntries(added.map(id => [id, at])) }));
+  }, [orders]);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen?.();
+    }
+  };
+
+  const handleExit = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    onExit();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900 text-white flex flex-col">
+      {/* Header */}
+      <div className="h-16 px-6 flex items-center justify-between border-b border-gray-800 flex-shrink-0">
+        <h1 className="text-xl font-bold">{settings.shopName}</h1>
+        <div className="flex items-center gap-2">
+          <span className="text-lg font-mono tabular-nums text-gray-400 mr-2">
+            {new Date(now).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+          </span>
+          <button
+            onClick={toggleFullscreen}
+            title={isFullscreen ? 'Exit full screen' : 'Full screen'}
+            className="p-2 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors"
+          >
+            {isFullscreen ? <Minimize className="w-5 h-5" /> : <Maximize className="w-5 h-5" />}
+          </button>
+          <button
+            onClick={handleExit}
+            title="Exit"
+            className="p-2 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors"
+          >
+            <LogOut className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 grid grid-cols-2 min-h-0">
+        {/* Now Preparing */}
+        <section className="flex flex-col min-h-0 border-r border-gray-800">
+          <h2 className="px-8 py-6 flex items-center gap-3 text-3xl font-bold text-amber-400">
+            <ChefHat className="w-8 h-8" />
+            Now Preparing
+          </h2>
+          <div className="flex-1 overflow-hidden px-8 pb-8 grid grid-cols-3 gap-4 content-start">
+            {preparing.length === 0 && <p className="col-span-3 text-gray-600 text-lg">Nothing in the kitchen right now</p>}
+            <AnimatePresence>
+              {preparing.map(order => (
+                <motion.div
+                  key={order.id}
+                  layoutId={order.id}
+                  initial={{ opacity: 0, scale: 0.9 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  exit={{ opacity: 0, scale: 0.9 }}
+                  className="py-4 rounded-2xl bg-gray-800 text-center"
+                >
+                  <p className="text-5xl font-bold tabular-nums">{getOrderLabel(order)}</p>
+                  <p className="mt-1 px-2 text-sm text-gray-400 truncate">{order.customerName}</p>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+        </section>
+
+        {/* Ready for Pickup */}
+        <section className="flex flex-col min-h-0">
+          <h2 className="px-8 py-6 flex items-center gap-3 text-3xl font-bold text-green-400">
+            <PackageCheck className="w-8 h-8" />
+            Ready for Pickup
+          </h2>
+          <div className="flex-1 overflow-hidden px-8 pb-8 grid grid-cols-2 gap-4 content-start">
+            {readyShown.length === 0 && <p className="col-span-2 text-gray-600 text-lg">Nothing waiting to be collected</p>}
+            <AnimatePresence>
+              {readyShown.map(order => {
+                const isNew = now - (readyAt[order.id] || 0) < HIGHLIGHT_MS;
+                return (
+                  <motion.div
+                    key={order.id}
+                    layoutId={order.id}
+                    initial={{ opacity: 0, scale: 0.9 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    exit={{ opacity: 0, scale: 0.9 }}
+                    className={`py-6 rounded-2xl text-center ${isNew ? 'bg-green-500 text-white animate-pulse' : 'bg-green-900/40 text-green-300'}`}
+                  >
+                    <p className="text-6xl font-bold tabular-nums">{getOrderLabel(order)}</p>
+                    <p className={`mt-1 px-2 text-base truncate ${isNew ? 'text-green-50' : 'text-green-400/70'}`}>{order.customerName}</p>
+                  </motion.div>
+                );
+              })}
+            </AnimatePresence>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
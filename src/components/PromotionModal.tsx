@@ -0,0 +1,313 @@
+import React, { useState, useEffect } from 'react';
+import { Category, MenuItem, Promotion, PromotionType } from '../types';
+import { PROMOTION_TYPE_LABELS } from '../lib/promotions';
+import { motion, AnimatePresence } from 'motion/react';
+import { X } from 'lucide-react';
+
+interface PromotionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (promotion: Omit<Promotion, 'id'>) => void;
+  menu: MenuItem[];
+  categories: Category[];
+  initialData?: Promotion;
+}
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm';
+
+const toggle = <T,>(list: T[], value: T): T[] => {
+  return list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+};
+
+export function PromotionModal({ isOpen, onClose, onSave, menu, categories, initialData }: PromotionModalProps) {
+  const [name, setName] = useState('');
+  const [type, setType] = useState<PromotionType>('percentage');
+  const [value, setValue] = useState('');
+  const [valueKind, setValueKind] = useState<'percentage' | 'fixed'>('percentage');
+  const [buyQuantity, setBuyQuantity] = useState('');
+  const [getQuantity, setGetQuantity] = useState('');
+  const [bundlePrice, setBundlePrice] = useState('');
+  const [minSpend, setMinSpend] = useState('');
+  const [itemIds, setItemIds] = useState<string[]>([]);
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+  const [scheduled, setScheduled] = useState(false);
+  const [days, setDays] = useState<number[]>([]);
+  const [startTime, setStartTime] = useState('00:00');
+  const [endTime, setEndTime] = useState('23:59');
+  const [validFrom, setValidFrom] = useState('');
+  const [validUntil, setValidUntil] = useState('');
+  const [stackable, setStackable] = useState(false);
+  const [priority, setPriority] = useState('0');
+  const [enabled, setEnabled] = useState(true);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(initialData?.name || '');
+      setType(initialData?.type || 'percentage');
+      setValue(initialData?.value?.toString() || '');
+      setValueKind(initialData?.valueKind || 'percentage');
+      setBuyQuantity(initialData?.buyQuantity?.toString() || '');
+      setGetQuantity(initialData?.getQuantity?.toString() || '');
+      setBundlePrice(initialData?.bundlePrice?.toString() || '');
+      setMinSpend(initialData?.minSpend?.toString() || '');
+      setItemIds(initialData?.scope.itemIds || []);
+      setCategoryIds(initialData?.scope.categories || []);
+      setScheduled(Boolean(initialData?.schedule));
+      setDays(initialData?.schedule?.days || []);
+      setStartTime(initialData?.schedule?.startTime || '00:00');
+      setEndTime(initialData?.schedule?.endTime || '23:59');
+      setValidFrom(initialData?.validFrom || '');
+      setValidUntil(initialData?.validUntil || '');
+      setStackable(initialData?.stackable || false);
+      setPriority(initialData?.priority?.toString() || '0');
+      setEnabled(initialData?.enabled ?? true);
+    }
+  }, [isOpen, initialData]);
+
+  const usesValue = type === 'percentage' || type === 'fixed' || type === 'minimumSpend';
+  const usesScope = type !== 'minimumSpend';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Fields that do not apply or were cleared are sent as null so the stored
+    // columns are emptied, not left as they were.
+    onSave({
+      name: name.trim(),
+      type,
+      enabled,
+      scope: usesScope ? { itemIds, categories: categoryIds } : { itemIds: [], categories: [] },
+      value: usesValue ? parseInt(value) || 0 : null,
+      valueKind: type === 'minimumSpend' ? valueKind : null,
+      buyQuantity: type === 'bundle' || type === 'buyXGetY' ? parseInt(buyQuantity) || 0 : null,
+      getQuantity: type === 'buyXGetY' ? parseInt(getQuantity) || 0 : null,
+      bundlePrice: type === 'bundle' ? parseInt(bundlePrice) || 0 : null,
+      minSpend: type === 'minimumSpend' ? parseInt(minSpend) || 0 : null,
+      schedule: scheduled ? { days, startTime, endTime } : null,
+      validFrom: validFrom || null,
+      validUntil: validUntil || null,
+      stackable,
+      priority: parseInt(priority) || 0,
+    });
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden"
+          >
+            <div className="flex items-center justify-between p-4 border-b border-gray-100">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {initialData ? 'Edit Promotion' : 'New Promotion'}
+              </h2>
+              <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4 max-h-[80vh] overflow-y-auto">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    required
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className={inputClassName}
+                    placeholder="e.g. Happy Hour"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                  <select
+                    value={type}
+                    onChange={(e) => setType(e.target.value as PromotionType)}
+                    className={inputClassName}
+                  >
+                    {(Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[]).map(t => (
+                      <option key={t} value={t}>{PROMOTION_TYPE_LABELS[t]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="p-4 bg-orange-50 rounded-xl border border-orange-100 grid grid-cols-2 gap-4">
+                {type === 'minimumSpend' && (
+                  <>
+                    <div>
+                      <label className="block text-xs font-medium text-orange-800 mb-1">Minimum Spend (Rp)</label>
+                      <input type="number" min="0" required value={minSpend} onChange={(e) => setMinSpend(e.target.value)} className={inputClassName} />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-orange-800 mb-1">Discount Kind</label>
+                      <select value={valueKind} onChange={(e) => setValueKind(e.target.value as 'percentage' | 'fixed')} className={inputClassName}>
+                        <option value="percentage">Percent off order</option>
+                        <option value="fixed">Rp off order</option>
+                      </select>
+                    </div>
+                  </>
+                )}
+                {usesValue && (
+                  <div>
+                    <label className="block text-xs font-medium text-orange-800 mb-1">
+                      {type === 'percentage' || (type === 'minimumSpend' && valueKind === 'percentage') ? 'Percent Off' : 'Amount Off (Rp)'}
+                    </label>
+                    <input type="number" min="0" required value={value} onChange={(e) => setValue(e.target.value)} className={inputClassName} />
+                  </div>
+                )}
+                {(type === 'bundle' || type === 'buyXGetY') && (
+                  <div>
+                    <label className="block text-xs font-medium text-orange-800 mb-1">Buy Quantity</label>
+                    <input type="number" min="1" required value={buyQuantity} onChange={(e) => setBuyQuantity(e.target.value)} className={inputClassName} />
+                  </div>
+                )}
+                {type === 'buyXGetY' && (
+                  <div>
+                    <label className="block text-xs font-medium text-orange-800 mb-1">Get Free</label>
+                    <input type="number" min="1" required value={getQuantity} onChange={(e) => setGetQuantity(e.target.value)} className={inputClassName} />
+                  </div>
+                )}
+                {type === 'bundle' && (
+                  <div>
+                    <label className="block text-xs font-medium text-orange-800 mb-1">Bundle Price (Total)</label>
+                    <input type="number" min="0" required value={bundlePrice} onChange={(e) => setBundlePrice(e.target.value)} className={inputClassName} />
+                  </div>
+                )}
+              </div>
+
+              {usesScope && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Applies To</label>
+                  <p className="text-xs text-gray-500 mb-2">Leave everything unselected to apply to the whole menu.</p>
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {categories.map(c => (
+                      <button
+                        key={c.id}
+                        type="button"
+                        onClick={() => setCategoryIds(toggle(categoryIds, c.id))}
+                        className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                          categoryIds.includes(c.id) ? 'bg-orange-500 text-white border-orange-500' : 'bg-white text-gray-600 border-gray-200 hover:border-orange-300'
+                        }`}
+                      >
+                        {c.name}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="max-h-32 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                    {menu.map(item => (
+                      <label key={item.id} className="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-50">
+                        <input
+                          type="checkbox"
+                          checked={itemIds.includes(item.id)}
+                          onChange={() => setItemIds(toggle(itemIds, item.id))}
+                          className="w-4 h-4 text-orange-500 border-gray-300 rounded focus:ring-orange-500"
+                        />
+                        {item.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="pt-4 border-t border-gray-100 space-y-3">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={scheduled}
+                    onChange={(e) => setScheduled(e.target.checked)}
+                    className="w-4 h-4 text-orange-500 border-gray-300 rounded focus:ring-orange-500"
+                  />
+                  <span className="text-sm font-medium text-gray-900">Only on certain days and times</span>
+                </label>
+                {scheduled && (
+                  <div className="space-y-3">
+                    <div className="flex gap-1">
+                      {DAYS.map((day, index) => (
+                        <button
+                          key={day}
+                          type="button"
+                          onClick={() => setDays(toggle(days, index))}
+                          className={`flex-1 py-1 rounded-lg text-xs font-medium border transition-colors ${
+                            days.includes(index) ? 'bg-orange-500 text-white border-orange-500' : 'bg-white text-gray-600 border-gray-200'
+                          }`}
+                        >
+                          {day}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className={inputClassName} />
+                      <input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} className={inputClassName} />
+                    </div>
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Valid From</label>
+                    <input type="date" value={validFrom} onChange={(e) => setValidFrom(e.target.value)} className={inputClassName} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Valid Until</label>
+                    <input type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} className={inputClassName} />
+                  </div>
+                </div>
+              </div>
+
+              <div className="pt-4 border-t border-gray-100 grid grid-cols-2 gap-4 items-end">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Priority (higher runs first)</label>
+                  <input type="number" value={priority} onChange={(e) => setPriority(e.target.value)} className={inputClassName} />
+                </div>
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={stackable}
+                      onChange={(e) => setStackable(e.target.checked)}
+                      className="w-4 h-4 text-orange-500 border-gray-300 rounded focus:ring-orange-500"
+                    />
+                    <span className="text-sm text-gray-700">Stacks with others</span>
+                  </label>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={enabled}
+                      onChange={(e) => setEnabled(e.target.checked)}
+                      className="w-4 h-4 text-orange-500 border-gray-300 rounded focus:ring-orange-500"
+                    />
+                    <span className="text-sm text-gray-700">Enabled</span>
+                  </label>
+                </div>
+              </div>
+
+              <div className="pt-4 flex gap-3">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl font-medium transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 text-white bg-orange-500 hover:bg-orange-600 rounded-xl font-medium transition-colors shadow-sm shadow-orange-200"
+                >
+                  Save Promotion
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { Promotion } from '../types';
+import { useStore } from '../hooks/useStore';
+import { formatCurrency } from '../utils';
+import { PROMOTION_TYPE_LABELS, isPromotionActive } from '../lib/promotions';
+import { getCategoryName } from '../lib/categories';
+import { PromotionModal } from './PromotionModal';
+import { Plus, Edit2, Trash2, Tag } from 'lucide-react';
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const describePromotion = (promotion: Promotion): string => {
+  switch (promotion.type) {
+    case 'percentage':
+      return `${promotion.value || 0}% off`;
+    case 'fixed':
+      return `${formatCurrency(promotion.value || 0)} off each`;
+    case 'bundle':
+      return `${promotion.buyQuantity} for ${formatCurrency(promotion.bundlePrice || 0)}`;
+    case 'buyXGetY':
+      return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free`;
+    case 'minimumSpend': {
+      const off = promotion.valueKind === 'fixed' ? formatCurrency(promotion.value || 0) : `${promotion.value || 0}%`;
+      return `${off} off orders over ${formatCurrency(promotion.minSpend || 0)}`;
+    }
+  }
+};
+
+const describeSchedule = (promotion: Promotion): string | null => {
+  const parts: string[] = [];
+  if (promotion.schedule) {
+    const days = promotion.schedule.days.length > 0
+      ? promotion.schedule.days.map(d => DAYS[d]).join(', ')
+      : 'Every day';
+    parts.push(`${days} ${promotion.schedule.startTime}–${promotion.schedule.endTime}`);
+  }
+  if (promotion.validFrom || promotion.validUntil) {
+    parts.push(`${promotion.validFrom || '…'} to ${promotion.validUntil || '…'}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
+
+export function PromotionsPanel() {
+  const { menu, categories, promotions, settings, addPromotion, updatePromotion, deletePromotion } = useStore();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editing, setEditing] = useState<Promotion | undefined>(undefined);
+
+  const handleSave = (data: Omit<Promotion, 'id'>) => {
+    if (editing) {
+      updatePromotion(editing.id, data);
+    } else {
+      addPromotion(data);
+    }
+    setEditing(undefined);
+  };
+
+  const handleDelete = (promotion: Promotion) => {
+    if (window.confirm(`Delete the promotion "${promotion.name}"?`)) {
+      deletePromotion(promotion.id);
+    }
+  };
+
+  const getScopeLabel = (promotion: Promotion): string => {
+    const { itemIds, categories: categoryIds } = promotion.scope;
+    if (promotion.type === 'minimumSpend' || (itemIds.length === 0 && categoryIds.length === 0)) return 'Whole menu';
+    const names = itemIds.map(id => menu.find(m => m.id === id)?.name).filter(Boolean);
+    return [...categoryIds.map(id => getCategoryName(categories, id)), ...names].join(', ');
+  };
+
+  const sorted = [...promotions].sort((a, b) => b.priority - a.priority);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Promotions</h2>
+          <p className="text-sm text-gray-500">Item bundles set on a menu item still apply alongside these.</p>
+        </div>
+        <button
+          onClick={() => {
+            setEditing(undefined);
+            setIsModalOpen(true);
+          }}
+          className="flex items-center gap-2 px-4 py-2 bg-orange-500 text-white rounded-xl hover:bg-orange-600 transition-colors shadow-sm shadow-orange-200"
+        >
+          <Plus className="w-4 h-4" />
+          New Promotion
+        </button>
+      </div>
+
+      {sorted.length === 0 ? (
+        <div className="text-center py-12 text-gray-400 bg-white rounded-2xl border border-gray-100">
+          <Tag className="w-10 h-10 mx-auto mb-2 opacity-30" />
+          <p>No promotions yet</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {sorted.map(promotion => {
+            const active = isPromotionActive(promotion, settings.timeZone);
+            const schedule = describeSchedule(promotion);
+            return (
+              <div key={promotion.id} className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
+                <div className="flex justify-between items-start mb-2">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">{promotion.name}</h3>
+                    <p className="text-xs text-gray-500">{PROMOTION_TYPE_LABELS[promotion.type]}</p>
+                  </div>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                    active ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'
+                  }`}>
+                    {!promotion.enabled ? 'Disabled' : active ? 'Active' : 'Scheduled'}
+                  </span>
+                </div>
+                <p className="text-sm font-medium text-orange-600">{describePromotion(promotion)}</p>
+                <p className="text-xs text-gray-500 mt-1">{getScopeLabel(promotion)}</p>
+                {schedule && <p className="text-xs text-gray-400 mt-1">{schedule}</p>}
+                <div className="flex justify-between items-center mt-3 pt-3 border-t border-gray-50">
+                  <span className="text-xs text-gray-400">
+                    Priority {promotion.priority}{promotion.stackable ? ' · Stackable' : ''}
+                  </span>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => {
+                        setEditing(promotion);
+                        setIsModalOpen(true);
+                      }}
+                      className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(promotion)}
+                      className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <PromotionModal
+        isOpen={isModalOpen}
+        onClose={() => {
+          setIsModalOpen(false);
+          setEditing(undefined);
+        }}
+        onSave={handleSave}
+        menu={menu}
+        categories={categories}
+        initialData={editing}
+      />
+    </div>
+  );
+}
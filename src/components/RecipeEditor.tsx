@@ -0,0 +1,72 @@
+import { Ingredient, RecipeLine } from '../types';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface RecipeEditorProps {
+  recipe: RecipeLine[];
+  ingredients: Ingredient[];
+  onChange: (recipe: RecipeLine[]) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1.5 bg-white border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm';
+
+export function RecipeEditor({ recipe, ingredients, onChange }: RecipeEditorProps) {
+  const updateLine = (index: number, changes: Partial<RecipeLine>) => {
+    onChange(recipe.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const unused = ingredients.filter(i => !recipe.some(line => line.ingredientId === i.id));
+
+  if (ingredients.length === 0) {
+    return <p className="text-xs text-gray-400">Add ingredients in the Inventory tab to build a recipe.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {recipe.map((line, index) => {
+        const ingredient = ingredients.find(i => i.id === line.ingredientId);
+        return (
+          <div key={line.ingredientId} className="flex items-center gap-2">
+            <select
+              value={line.ingredientId}
+              onChange={(e) => updateLine(index, { ingredientId: e.target.value })}
+              className={inputClassName}
+            >
+              {ingredient ? null : <option value={line.ingredientId}>Deleted ingredient</option>}
+              {ingredients
+                .filter(i => i.id === line.ingredientId || unused.includes(i))
+                .map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              required
+              value={line.quantity}
+              onChange={(e) => updateLine(index, { quantity: Number(e.target.value) })}
+              className={`${inputClassName} w-24`}
+            />
+            <span className="text-xs text-gray-500 w-8">{ingredient?.unit}</span>
+            <button
+              type="button"
+              onClick={() => onChange(recipe.filter((_, i) => i !== index))}
+              className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+
+      {unused.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange([...recipe, { ingredientId: unused[0].id, quantity: 0 }])}
+          className="w-full flex items-center justify-center gap-1 py-2 text-sm text-orange-600 border border-dashed border-orange-200 rounded-xl hover:bg-orange-50"
+        >
+          <Plus className="w-4 h-4" />
+          Add Ingredient
+        </button>
+      )}
+    </div>
+  );
+}
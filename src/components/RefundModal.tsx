@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { Order, PaymentMethod, RefundReason } from '../types';
+import { formatCurrency, getLineId, getOrderLabel } from '../utils';
+import { useStore } from '../hooks/useStore';
+import { PAYMENT_METHODS } from '../lib/payments';
+import { REFUND_REASONS, REFUND_REASON_LABELS, RefundSelection, buildRefundLines, getRefundTotal, getRefundableAmount, getRefundableQuantity } from '../lib/refunds';
+import { ApprovalError, ManagerApproval, hasPermission } from '../lib/staff';
+import { motion } from 'motion/react';
+import { X, Minus, Plus, ShieldCheck } from 'lucide-react';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm';
+
+export type AdjustmentMode = 'void' | 'refund';
+
+interface RefundModalProps {
+  order: Order;
+  mode: AdjustmentMode;
+  onClose: () => void;
+}
+
+// Voids an unpaid order or refunds items on a paid one. Staff who cannot
+// approve refunds need a manager to enter their PIN.
+export function RefundModal({ order, mode, onClose }: RefundModalProps) {
+  const { staff, can, voidOrder, refundOrder } = useStore();
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [method, setMethod] = useState<PaymentMethod>(order.payments?.[0]?.method || 'Cash');
+  const [reason, setReason] = useState<RefundReason>('changed_mind');
+  const [note, setNote] = useState('');
+  const [approverId, setApproverId] = useState('');
+  const [approverPin, setApproverPin] = useState('');
+  const [error, setError] = useState('');
+  // The approver's PIN may be checked on the server
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const needsApproval = !can('approve_refunds');
+  const approvers = staff.filter(s => hasPermission(s, 'approve_refunds'));
+  const refundableItems = order.items.filter(item => getRefundableQuantity(order, item) > 0);
+  const selections: RefundSelection[] = Object.keys(quantities).map(lineId => ({ lineId, quantity: quantities[lineId] }));
+  const lines = mode === 'refund' ? buildRefundLines(order, selections) : [];
+  const refundTotal = getRefundTotal(lines);
+
+  const setQuantity = (lineId: string, quantity: number, max: number) => {
+    setQuantities({ ...quantities, [lineId]: Math.min(max, Math.max(0, quantity)) });
+  };
+
+  const selectAll = () => {
+    setQuantities(Object.fromEntries(refundableItems.map(item => [getLineId(item), getRefundableQuantity(order, item)])));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const approval: ManagerApproval | undefined = needsApproval ? { staffId: approverId, pin: approverPin } : undefined;
+    const trimmedNote = note.trim() || undefined;
+    setIsSubmitting(true);
+    try {
+      if (mode === 'void') {
+        await voidOrder(order.id, reason, trimmedNote, approval);
+      } else {
+        await refundOrder(order.id, { lines: selections, method, reason, note: trimmedNote }, approval);
+      }
+      onClose();
+    } catch (err) {
+      if (err instanceof ApprovalError) {
+        setError('Manager PIN not accepted');
+        setApproverPin('');
+      } else {
+        // Rethrowing from an async handler would leave the modal stuck
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={e => e.stopPropagation()}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {mode === 'void' ? 'Void' : 'Refund'} Order {getOrderLabel(order)}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
+          {mode === 'void' ? (
+            <p className="text-sm text-gray-600">
+              Cancels {order.customerName}'s unpaid order for {formatCurrency(order.total)}. It stays in the order history as voided.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-medium text-gray-700">Items to refund</span>
+                <button type="button" onClick={selectAll} className="text-xs font-medium text-orange-600 hover:text-orange-700">
+                  Refund everything
+                </button>
+              </div>
+              {refundableItems.map(item => {
+                const lineId = getLineId(item);
+                const max = getRefundableQuantity(order, item);
+                const quantity = quantities[lineId] || 0;
+                return (
+                  <div key={lineId} className="flex items-center justify-between gap-3 p-2 rounded-lg border border-gray-100">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{item.name}</p>
+                      <p className="text-xs text-gray-400">{max} refundable</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button type="button" onClick={() => setQuantity(lineId, quantity - 1, max)} className="p-1 rounded-md bg-gray-100 hover:bg-gray-200">
+                        <Minus className="w-3 h-3" />
+                      </button>
+                      <span className="w-6 text-center text-sm font-medium tabular-nums">{quantity}</span>
+                      <button type="button" onClick={() => setQuantity(lineId, quantity + 1, max)} className="p-1 rounded-md bg-gray-100 hover:bg-gray-200">
+                        <Plus className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+              <div className="grid grid-cols-2 gap-4 pt-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Refund To</label>
+                  <select value={method} onChange={(e) => setMethod(e.target.value as PaymentMethod)} className={inputClassName}>
+                    {PAYMENT_METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+                  </select>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm text-gray-500">Refund total</p>
+                  <p className="text-xl font-bold text-gray-900">{formatCurrency(refundTotal)}</p>
+                  <p className="text-xs text-gray-400">of {formatCurrency(getRefundableAmount(order))} paid</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <select value={reason} onChange={(e) => setReason(e.target.value as RefundReason)} className={inputClassName}>
+                {REFUND_REASONS.map(r => <option key={r} value={r}>{REFUND_REASON_LABELS[r]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+              <input type="text" value={note} onChange={(e) => setNote(e.target.value)} className={inputClassName} placeholder="Optional" />
+            </div>
+          </div>
+
+          {needsApproval && (
+            <div className="p-3 rounded-xl bg-gray-50 border border-gray-100 space-y-2">
+              <p className="text-sm font-medium text-gray-700 flex items-center gap-1.5">
+                <ShieldCheck className="w-4 h-4 text-orange-500" />
+                Manager approval
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                <select required value={approverId} onChange={(e) => setApproverId(e.target.value)} className={inputClassName}>
+                  <option value="">Manager...</option>
+                  {approvers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  required
+                  value={approverPin}
+                  onChange={(e) => setApproverPin(e.target.value)}
+                  className={inputClassName}
+                  placeholder="PIN"
+                />
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={isSubmitting || (mode === 'refund' && lines.length === 0)}
+            className="w-full px-4 py-2 text-white bg-red-500 hover:bg-red-600 rounded-xl font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {mode === 'void' ? 'Void Order' : `Refund ${formatCurrency(refundTotal)}`}
+          </button>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
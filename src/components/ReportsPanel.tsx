@@ -0,0 +1,269 @@
+import { useMemo, useState } from 'react';
+import { Category, MenuItem, Order } from '../types';
+import { formatCurrency } from '../utils';
+import {
+  REPORT_GRANULARITIES,
+  REPORT_PRESETS,
+  ReportGranularity,
+  ReportRange,
+  SalesSummary,
+  buildSalesReport,
+  getChange,
+  getPreviousRange,
+  getSalesSummary,
+  getShopToday,
+} from '../lib/reports';
+import { getCategoryName } from '../lib/categories';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { BarChart3, ArrowUpRight, ArrowDownRight } from 'lucide-react';
+
+interface ReportsPanelProps {
+  orders: Order[];
+  menu: MenuItem[];
+  categories: Category[];
+  timeZone: string;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Summary cards, each compared with the previous period. For cancellations
+// and refunds a rise is bad news, so the colours flip.
+const SUMMARY_CARDS: { key: keyof SalesSummary; label: string; format: (value: number) => string; lowerIsBetter?: boolean }[] = [
+  { key: 'revenue', label: 'Revenue', format: formatCurrency },
+  { key: 'netSales', label: 'Net Sales', format: formatCurrency },
+  { key: 'completedCount', label: 'Completed Orders', format: String },
+  { key: 'averageOrderValue', label: 'Avg Order Value', format: formatCurrency },
+  { key: 'itemsSold', label: 'Items Sold', format: String },
+  { key: 'discounts', label: 'Discounts Given', format: formatCurrency },
+  { key: 'refunds', label: 'Refunds', format: formatCurrency, lowerIsBetter: true },
+  { key: 'cancellationRate', label: 'Cancellation Rate', format: formatPercent, lowerIsBetter: true },
+];
+
+const TOP_ITEM_COUNT = 10;
+
+function ShareBar({ share }: { share: number }) {
+  return (
+    <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+      <div className="h-full bg-orange-400 rounded-full" style={{ width: `${Math.min(100, share * 100)}%` }} />
+    </div>
+  );
+}
+
+export function ReportsPanel({ orders, menu, categories, timeZone }: ReportsPanelProps) {
+  const [range, setRange] = useState<ReportRange>(() => REPORT_PRESETS[1].getRange(getShopToday(timeZone)));
+  const [granularity, setGranularity] = useState<ReportGranularity>('day');
+
+  const report = useMemo(() => buildSalesReport(orders, menu, range, timeZone, granularity), [orders, menu, range, timeZone, granularity]);
+  const previousRange = getPreviousRange(range);
+  const previous = useMemo(() => getSalesSummary(orders, previousRange, timeZone), [orders, previousRange.from, previousRange.to, timeZone]);
+  const activePreset = REPORT_PRESETS.find(p => {
+    const presetRange = p.getRange(getShopToday(timeZone));
+    return presetRange.from === range.from && presetRange.to === range.to;
+  });
+  const topItems = report.items.slice(0, TOP_ITEM_COUNT);
+  const isValidRange = range.from <= range.to;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-orange-500" />
+          Sales Reports
+        </h2>
+        <div className="flex bg-gray-100 p-1 rounded-xl">
+          {REPORT_GRANULARITIES.map(g => (
+            <button
+              key={g.id}
+              onClick={() => setGranularity(g.id)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${
+                granularity === g.id ? 'bg-white text-orange-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {g.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Range */}
+      <div className="flex flex-wrap items-center gap-2">
+        {REPORT_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => setRange(preset.getRange(getShopToday(timeZone)))}
+            className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
+              activePreset?.id === preset.id
+                ? 'bg-gray-900 text-white shadow-md'
+                : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+        <div className="flex items-center gap-2 ml-auto text-sm text-gray-500">
+          <input
+            type="date"
+            value={range.from}
+            onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-orange-500"
+          />
+          to
+          <input
+            type="date"
+            value={range.to}
+            onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-orange-500"
+          />
+        </div>
+      </div>
+
+      {!isValidRange ? (
+        <p className="text-sm text-red-600">The start date must be on or before the end date.</p>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {SUMMARY_CARDS.map(card => {
+              const value = report.summary[card.key];
+              const change = getChange(value, previous[card.key]);
+              const isGood = change !== undefined && (card.lowerIsBetter ? change < 0 : change > 0);
+              return (
+                <div key={card.key} className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
+                  <p className="text-xs text-gray-500 font-medium mb-1">{card.label}</p>
+                  <p className="text-xl font-bold text-gray-900">{card.format(value)}</p>
+                  <p className="text-xs text-gray-400 mt-1 flex items-center gap-1">
+                    {change === undefined || change === 0 ? (
+                      <>Prev. {card.format(previous[card.key])}</>
+                    ) : (
+                      <>
+                        <span className={`flex items-center font-medium ${isGood ? 'text-green-600' : 'text-red-600'}`}>
+                          {change > 0 ? <ArrowUpRight className="w-3 h-3" /> : <ArrowDownRight className="w-3 h-3" />}
+                          {formatPercent(Math.abs(change))}
+                        </span>
+                        vs {card.format(previous[card.key])}
+                      </>
+                    )}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Revenue Chart */}
+          <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm h-[300px]">
+            <h3 className="text-sm font-semibold text-gray-700 mb-4">Revenue by {granularity}</h3>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={report.series}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+                <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#9ca3af' }} />
+                <YAxis
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fontSize: 12, fill: '#9ca3af' }}
+                  tickFormatter={(value) => `${value / 1000}k`}
+                />
+                <Tooltip
+                  cursor={{ fill: '#f3f4f6' }}
+                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)' }}
+                  formatter={(value: number, name: string) => [formatCurrency(value), name === 'netSales' ? 'Net Sales' : 'Revenue']}
+                />
+                <Bar dataKey="revenue" fill="#f97316" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="netSales" fill="#d1d5db" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Best Sellers */}
+            <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
+              <h3 className="text-sm font-semibold text-gray-700 mb-3">Best-Selling Items</h3>
+              {topItems.length === 0 ? (
+                <p className="text-sm text-gray-400 py-6 text-center">No sales in this period</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="text-gray-500 text-left">
+                    <tr>
+                      <th className="py-1 font-medium">Item</th>
+                      <th className="py-1 font-medium text-right">Qty</th>
+                      <th className="py-1 font-medium text-right">Revenue</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-50">
+                    {topItems.map(item => (
+                      <tr key={item.itemId}>
+                        <td className="py-2 text-gray-900">{item.name}</td>
+                        <td className="py-2 text-right tabular-nums">{item.quantity}</td>
+                        <td className="py-2 text-right tabular-nums">{formatCurrency(item.revenue)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className="space-y-6">
+              {/* Categories */}
+              <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm space-y-3">
+                <h3 className="text-sm font-semibold text-gray-700">Sales by Category</h3>
+                {report.categories.map(c => (
+                  <div key={c.category} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-900">{getCategoryName(categories, c.category)}</span>
+                      <span className="text-gray-500 tabular-nums">{formatCurrency(c.revenue)} · {formatPercent(c.share)}</span>
+                    </div>
+                    <ShareBar share={c.share} />
+                  </div>
+                ))}
+                {report.categories.length === 0 && <p className="text-sm text-gray-400">No sales in this period</p>}
+              </div>
+
+              {/* Payment Mix */}
+              <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm space-y-3">
+                <h3 className="text-sm font-semibold text-gray-700">Payment Methods</h3>
+                {report.payments.filter(p => p.amount !== 0).map(p => (
+                  <div key={p.method} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-900">{p.method}</span>
+                      <span className="text-gray-500 tabular-nums">{formatCurrency(p.amount)} · {formatPercent(p.share)}</span>
+                    </div>
+                    <ShareBar share={p.share} />
+                  </div>
+                ))}
+                {report.payments.every(p => p.amount === 0) && <p className="text-sm text-gray-400">No payments in this period</p>}
+              </div>
+            </div>
+          </div>
+
+          {/* Bundle Uptake */}
+          {report.bundles.length > 0 && (
+            <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
+              <h3 className="text-sm font-semibold text-gray-700 mb-3">Bundle Promo Uptake</h3>
+              <table className="w-full text-sm">
+                <thead className="text-gray-500 text-left">
+                  <tr>
+                    <th className="py-1 font-medium">Item</th>
+                    <th className="py-1 font-medium text-right">Orders with item</th>
+                    <th className="py-1 font-medium text-right">Got bundle</th>
+                    <th className="py-1 font-medium text-right">Uptake</th>
+                    <th className="py-1 font-medium text-right">Customer savings</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {report.bundles.map(b => (
+                    <tr key={b.itemId}>
+                      <td className="py-2 text-gray-900">{b.name}</td>
+                      <td className="py-2 text-right tabular-nums">{b.ordersWithItem}</td>
+                      <td className="py-2 text-right tabular-nums">{b.ordersWithBundle}</td>
+                      <td className="py-2 text-right tabular-nums">{formatPercent(b.uptakeRate)}</td>
+                      <td className="py-2 text-right tabular-nums">{formatCurrency(b.savings)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,422 @@
+import { useEffect, useState } from 'react';
+import { KitchenSettings, LoyaltySettings, PaperWidth, ReceiptSettings, Station, TaxSettings } from '../types';
+import { useStore } from '../hooks/useStore';
+import { formatCurrency, generateId } from '../utils';
+import { TIME_ZONES } from '../lib/settings';
+import { Store, Printer, Percent, ChefHat, Split, Star, Plus, Trash2 } from 'lucide-react';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm';
+
+export function SettingsPanel() {
+  const { settings, categories, updateSettings } = useStore();
+  const [shopName, setShopName] = useState(settings.shopName);
+
+  useEffect(() => {
+    setShopName(settings.shopName);
+  }, [settings.shopName]);
+
+  const updateReceipt = (changes: Partial<ReceiptSettings>) => {
+    updateSettings({ receipt: { ...settings.receipt, ...changes } });
+  };
+
+  const updateTax = (changes: Partial<TaxSettings>) => {
+    updateSettings({ tax: { ...settings.tax, ...changes } });
+  };
+
+  const updateKitchen = (changes: Partial<KitchenSettings>) => {
+    updateSettings({ kitchen: { ...settings.kitchen, ...changes } });
+  };
+
+  const updateLoyalty = (changes: Partial<LoyaltySettings>) => {
+    updateSettings({ loyalty: { ...settings.loyalty, ...changes } });
+  };
+
+  const updateStation = (id: string, changes: Partial<Station>) => {
+    updateSettings({ stations: settings.stations.map(s => s.id === id ? { ...s, ...changes } : s) });
+  };
+
+  // A category belongs to one station at a time
+  const assignCategory = (stationId: string, categoryId: string) => {
+    updateSettings({
+      stations: settings.stations.map(s => {
+        if (s.id === stationId) {
+          return { ...s, categories: s.categories.includes(categoryId) ? s.categories.filter(c => c !== categoryId) : [...s.categories, categoryId] };
+        }
+        return { ...s, categories: s.categories.filter(c => c !== categoryId) };
+      }),
+    });
+  };
+
+  const addStation = () => {
+    updateSettings({ stations: [...settings.stations, { id: generateId(), name: `Station ${settings.stations.length + 1}`, categories: [] }] });
+  };
+
+  const removeStation = (station: Station) => {
+    if (window.confirm(`Remove the ${station.name} station? Its items will go to the first station.`)) {
+      updateSettings({ stations: settings.stations.filter(s => s.id !== station.id) });
+    }
+  };
+
+  const updateCategoryRate = (categoryId: string, value: string) => {
+    const categoryRates = { ...settings.tax.categoryRates };
+    if (value === '') {
+      delete categoryRates[categoryId];
+    } else {
+      categoryRates[categoryId] = Number(value);
+    }
+    updateTax({ categoryRates });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-4">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <Store className="w-5 h-5 text-orange-500" />
+          Shop
+        </h3>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Shop Name</label>
+          <input
+            type="text"
+            value={shopName}
+            onChange={(e) => setShopName(e.target.value)}
+            onBlur={() => shopName.trim() && shopName !== settings.shopName && updateSettings({ shopName: shopName.trim() })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Time Zone</label>
+          <select value={settings.timeZone} onChange={(e) => updateSettings({ timeZone: e.target.value })} className={inputClassName}>
+            {TIME_ZONES.map(zone => <option key={zone.id} value={zone.id}>{zone.label}</option>)}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">Used for dates and times in exports</p>
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-4">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <Printer className="w-5 h-5 text-orange-500" />
+          Receipts & Tickets
+        </h3>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Paper Width</label>
+            <select
+              value={settings.receipt.paperWidth}
+              onChange={(e) => updateReceipt({ paperWidth: Number(e.target.value) as PaperWidth })}
+              className={inputClassName}
+            >
+              <option value={58}>58 mm</option>
+              <option value={80}>80 mm</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Printer</label>
+            <select
+              value={settings.receipt.printerMode}
+              onChange={(e) => updateReceipt({ printerMode: e.target.value as ReceiptSettings['printerMode'] })}
+              className={inputClassName}
+            >
+              <option value="browser">Browser print dialog</option>
+              <option value="escpos">ESC/POS (USB/serial)</option>
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Receipt Header</label>
+          <textarea
+            rows={2}
+            defaultValue={settings.receipt.header || ''}
+            onBlur={(e) => updateReceipt({ header: e.target.value })}
+            placeholder="Address, phone, tax ID..."
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Receipt Footer</label>
+          <textarea
+            rows={2}
+            defaultValue={settings.receipt.footer || ''}
+            onBlur={(e) => updateReceipt({ footer: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.receipt.autoPrintReceipt}
+              onChange={(e) => updateReceipt({ autoPrintReceipt: e.target.checked })}
+              className="w-4 h-4 text-orange-500 border-gray-300 rounded focus:ring-orange-500"
+            />
+            <span className="text-sm text-gray-700">Print receipt when an order is confirmed</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.receipt.autoPrintKitchenTicket}
+              onChange={(e) => updateReceipt({ autoPrintKitchenTicket: e.target.checked })}
+              className="w-4 h-4 text-orange-500 border-gray-300 rounded focus:ring-orange-500"
+            />
+            <span className="text-sm text-gray-700">Print kitchen ticket when an order is confirmed</span>
+          </label>
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-4">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <Percent className="w-5 h-5 text-orange-500" />
+          Tax & Service Charge
+        </h3>
+
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.tax.enabled}
+            onChange={(e) => updateTax({ enabled: e.target.checked })}
+            className="w-4 h-4 text-orange-500 border-gray-300 rounded focus:ring-orange-500"
+          />
+          <span className="text-sm text-gray-700">Charge tax</span>
+        </label>
+
+        {settings.tax.enabled && (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Tax Name</label>
+                <input
+                  type="text"
+                  defaultValue={settings.tax.label}
+                  onBlur={(e) => e.target.value.trim() && updateTax({ label: e.target.value.trim() })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Default Rate (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  defaultValue={settings.tax.rate}
+                  onBlur={(e) => updateTax({ rate: Number(e.target.value) || 0 })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Prices on the menu</label>
+              <select
+                value={settings.tax.inclusive ? 'inclusive' : 'exclusive'}
+                onChange={(e) => updateTax({ inclusive: e.target.value === 'inclusive' })}
+                className={inputClassName}
+              >
+                <option value="exclusive">Exclude tax (added at checkout)</option>
+                <option value="inclusive">Include tax</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rate per Category (%)</label>
+              <p className="text-xs text-gray-500 mb-2">Leave blank to use the default rate.</p>
+              <div className="grid grid-cols-3 gap-2">
+                {categories.map(category => (
+                  <div key={category.id}>
+                    <label className="block text-xs text-gray-500 mb-1 truncate">{category.name}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      defaultValue={settings.tax.categoryRates[category.id] ?? ''}
+                      onBlur={(e) => updateCategoryRate(category.id, e.target.value)}
+                      placeholder={String(settings.tax.rate)}
+                      className={inputClassName}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="pt-4 border-t border-gray-100 space-y-3">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.tax.serviceChargeEnabled}
+              onChange={(e) => updateTax({ serviceChargeEnabled: e.target.checked })}
+              className="w-4 h-4 text-orange-500 border-gray-300 rounded focus:ring-orange-500"
+            />
+            <span className="text-sm text-gray-700">Add a service charge (calculated before tax)</span>
+          </label>
+          {settings.tax.serviceChargeEnabled && (
+            <div className="w-1/2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Service Charge (%)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                defaultValue={settings.tax.serviceChargeRate}
+                onBlur={(e) => updateTax({ serviceChargeRate: Number(e.target.value) || 0 })}
+                className={inputClassName}
+              />
+            </div>
+          )}
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-4">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <Star className="w-5 h-5 text-orange-500" />
+          Loyalty Points
+        </h3>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.loyalty.enabled}
+            onChange={(e) => updateLoyalty({ enabled: e.target.checked })}
+            className="w-4 h-4 text-orange-500 border-gray-300 rounded focus:ring-orange-500"
+          />
+          <span className="text-sm text-gray-700">Customers earn points on their orders</span>
+        </label>
+        {settings.loyalty.enabled && (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Spend per Point (Rp)</label>
+                <input
+                  type="number"
+                  min="1"
+                  defaultValue={settings.loyalty.spendPerPoint}
+                  onBlur={(e) => updateLoyalty({ spendPerPoint: Number(e.target.value) || 1 })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Point Value (Rp)</label>
+                <input
+                  type="number"
+                  min="0"
+                  defaultValue={settings.loyalty.pointValue}
+                  onBlur={(e) => updateLoyalty({ pointValue: Number(e.target.value) || 0 })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Redeem From (points)</label>
+                <input
+                  type="number"
+                  min="0"
+                  defaultValue={settings.loyalty.minRedeemPoints}
+                  onBlur={(e) => updateLoyalty({ minRedeemPoints: Number(e.target.value) || 0 })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              A customer spending {formatCurrency(settings.loyalty.spendPerPoint * 10)} earns 10 points, worth{' '}
+              {formatCurrency(settings.loyalty.pointValue * 10)} off a later order. Points are only earned on orders paid in full, and
+              changing these numbers does not affect points already earned.
+            </p>
+          </>
+        )}
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-4">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <ChefHat className="w-5 h-5 text-orange-500" />
+          Kitchen Display
+        </h3>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Warn After (min)</label>
+            <input
+              type="number"
+              min="1"
+              defaultValue={settings.kitchen.warnAfterMinutes}
+              onBlur={(e) => updateKitchen({ warnAfterMinutes: Number(e.target.value) || 1 })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Overdue After (min)</label>
+            <input
+              type="number"
+              min="1"
+              defaultValue={settings.kitchen.overdueAfterMinutes}
+              onBlur={(e) => updateKitchen({ overdueAfterMinutes: Number(e.target.value) || 1 })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.kitchen.chimeOnNewOrder}
+            onChange={(e) => updateKitchen({ chimeOnNewOrder: e.target.checked })}
+            className="w-4 h-4 text-orange-500 border-gray-300 rounded focus:ring-orange-500"
+          />
+          <span className="text-sm text-gray-700">Play a chime when a new ticket arrives</span>
+        </label>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-4">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <Split className="w-5 h-5 text-orange-500" />
+          Prep Stations
+        </h3>
+        <p className="text-xs text-gray-500">
+          Each category is made at one station. Items can override this in the menu editor; anything unassigned goes to the first station.
+        </p>
+        <div className="space-y-3">
+          {settings.stations.map(station => (
+            <div key={station.id} className="p-3 bg-gray-50 rounded-xl border border-gray-100 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  defaultValue={station.name}
+                  onBlur={(e) => e.target.value.trim() && updateStation(station.id, { name: e.target.value.trim() })}
+                  className={inputClassName}
+                />
+                <button
+                  type="button"
+                  onClick={() => removeStation(station)}
+                  className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {categories.map(category => (
+                  <button
+                    key={category.id}
+                    type="button"
+                    onClick={() => assignCategory(station.id, category.id)}
+                    className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                      station.categories.includes(category.id)
+                        ? 'bg-orange-500 text-white border-orange-500'
+                        : 'bg-white text-gray-600 border-gray-200 hover:border-orange-300'
+                    }`}
+                  >
+                    {category.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={addStation}
+            className="w-full flex items-center justify-center gap-1 py-2 text-sm text-orange-600 border border-dashed border-orange-200 rounded-xl hover:bg-orange-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add Station
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+}
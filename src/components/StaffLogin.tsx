@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { StaffMember } from '../types';
+import { useStore } from '../hooks/useStore';
+import { PIN_MAX_LENGTH, PIN_MIN_LENGTH, ROLE_LABELS, isValidPin } from '../lib/staff';
+import { motion, AnimatePresence } from 'motion/react';
+import { ArrowLeft, Delete, Loader2, UserRound } from 'lucide-react';
+
+const KEYPAD = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'back'];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm';
+
+interface PinPadProps {
+  member: StaffMember;
+  onBack: () => void;
+}
+
+function PinPad({ member, onBack }: PinPadProps) {
+  const { signIn } = useStore();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const padRef = useRef<HTMLDivElement>(null);
+
+  // Lets the PIN be typed on a keyboard as well as tapped
+  useEffect(() => {
+    padRef.current?.focus();
+  }, []);
+
+  const submit = async (value: string) => {
+    setIsChecking(true);
+    const ok = await signIn(member.id, value);
+    setIsChecking(false);
+    if (!ok) {
+      setError(true);
+      setPin('');
+    }
+  };
+
+  const press = (key: string) => {
+    if (isChecking) return;
+    setError(false);
+    if (key === 'clear') return setPin('');
+    if (key === 'back') return setPin(pin.slice(0, -1));
+    if (pin.length < PIN_MAX_LENGTH) setPin(pin + key);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (/^\d$/.test(e.key)) press(e.key);
+    else if (e.key === 'Backspace') press('back');
+    else if (e.key === 'Enter' && pin.length >= PIN_MIN_LENGTH) submit(pin);
+    else if (e.key === 'Escape') onBack();
+  };
+
+  return (
+    <div ref={padRef} className="w-full max-w-xs outline-none" tabIndex={0} onKeyDown={handleKeyDown}>
+      <button onClick={onBack} className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-6">
+        <ArrowLeft className="w-4 h-4" />
+        Back
+      </button>
+      <div className="text-center mb-6">
+        <p className="text-lg font-semibold text-gray-900">{member.name}</p>
+        <p className="text-sm text-gray-500">Enter your PIN</p>
+      </div>
+
+      <motion.div
+        animate={error ? { x: [0, -8, 8, -8, 8, 0] } : { x: 0 }}
+        transition={{ duration: 0.3 }}
+        className="flex justify-center gap-3 mb-2 h-4"
+      >
+        {Array.from({ length: Math.max(PIN_MIN_LENGTH, pin.length) }, (_, i) => (
+          <span key={i} className={`w-3.5 h-3.5 rounded-full ${i < pin.length ? 'bg-orange-500' : 'bg-gray-200'}`} />
+        ))}
+      </motion.div>
+      <p className="h-5 text-center text-sm text-red-600 mb-4">{error ? 'Incorrect PIN' : ''}</p>
+
+      <div className="grid grid-cols-3 gap-3">
+        {KEYPAD.map(key => (
+          <button
+            key={key}
+            onClick={() => press(key)}
+            className="h-14 rounded-xl bg-white border border-gray-200 text-xl font-semibold text-gray-900 hover:bg-gray-50 active:bg-gray-100 flex items-center justify-center transition-colors"
+          >
+            {key === 'back' ? <Delete className="w-5 h-5" /> : key === 'clear' ? <span className="text-sm text-gray-500">Clear</span> : key}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={() => submit(pin)}
+        disabled={pin.length < PIN_MIN_LENGTH || isChecking}
+        className="mt-4 w-full py-3 rounded-xl bg-orange-500 hover:bg-orange-600 text-white font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors shadow-lg shadow-orange-200"
+      >
+        {isChecking && <Loader2 className="w-4 h-4 animate-spin" />}
+        Sign In
+      </button>
+    </div>
+  );
+}
+
+function OwnerSetup() {
+  const { addStaff } = useStore();
+  const [name, setName] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPin(pin)) return setError(`PIN must be ${PIN_MIN_LENGTH}-${PIN_MAX_LENGTH} digits`);
+    if (pin !== confirmPin) return setError('PINs do not match');
+    addStaff({ name: name.trim(), role: 'owner', pin });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white p-6 rounded-2xl border border-gray-100 shadow-sm space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Create the owner account</h2>
+        <p className="text-sm text-gray-500">The owner signs in first and adds the rest of the staff.</p>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+        <input type="text" required autoFocus value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">PIN</label>
+          <input type="password" inputMode="numeric" required value={pin} onChange={(e) => setPin(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Confirm PIN</label>
+          <input type="password" inputMode="numeric" required value={confirmPin} onChange={(e) => setConfirmPin(e.target.value)} className={inputClassName} />
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button type="submit" className="w-full px-4 py-2 text-white bg-orange-500 hover:bg-orange-600 rounded-xl font-medium transition-colors shadow-sm shadow-orange-200">
+        Create Owner
+      </button>
+    </form>
+  );
+}
+
+// Shown instead of the app until a staff member signs in on this till
+export function StaffLogin() {
+  const { staff, settings, isLoaded } = useStore();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const activeStaff = staff.filter(s => s.active);
+  const selected = activeStaff.find(s => s.id === selectedId);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center p-6">
+      <div className="flex items-center gap-2 mb-10">
+        <div className="w-10 h-10 bg-orange-500 rounded-xl flex items-center justify-center text-white font-bold text-xl shadow-lg shadow-orange-200">
+          C
+        </div>
+        <h1 className="text-2xl font-bold bg-gradient-to-r from-orange-600 to-orange-400 bg-clip-text text-transparent">
+          {settings.shopName}
+        </h1>
+      </div>
+
+      {!isLoaded && staff.length === 0 ? (
+        <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+      ) : staff.length === 0 ? (
+        <OwnerSetup />
+      ) : selected ? (
+        <PinPad member={selected} onBack={() => setSelectedId(null)} />
+      ) : (
+        <div className="w-full max-w-2xl">
+          <p className="text-center text-gray-500 mb-6">Who is signing in?</p>
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+            <AnimatePresence>
+              {activeStaff.map(member => (
+                <motion.button
+                  key={member.id}
+                  layout
+                  initial={{ opacity: 0, scale: 0.95 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  onClick={() => setSelectedId(member.id)}
+                  className="bg-white p-5 rounded-2xl border border-gray-100 shadow-sm hover:shadow-md hover:border-orange-200 transition-all flex flex-col items-center gap-2"
+                >
+                  <div className="w-12 h-12 rounded-full bg-orange-100 text-orange-600 flex items-center justify-center">
+                    <UserRound className="w-6 h-6" />
+                  </div>
+                  <span className="font-semibold text-gray-900 truncate max-w-full">{member.name}</span>
+                  <span className="text-xs text-gray-500">{ROLE_LABELS[member.role]}</span>
+                </motion.button>
+              ))}
+            </AnimatePresence>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { StaffMember, StaffRole } from '../types';
+import { useStore } from '../hooks/useStore';
+import { PIN_MAX_LENGTH, PIN_MIN_LENGTH, ROLE_LABELS, STAFF_ROLES, isLastOwner, isValidPin } from '../lib/staff';
+import { motion, AnimatePresence } from 'motion/react';
+import { Plus, Edit2, Trash2, X, Users } from 'lucide-react';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm';
+
+const ROLE_BADGES: Record<StaffRole, string> = {
+  cashier: 'bg-blue-50 text-blue-600',
+  kitchen: 'bg-amber-50 text-amber-700',
+  manager: 'bg-purple-50 text-purple-600',
+  owner: 'bg-orange-50 text-orange-600',
+};
+
+const ROLE_DESCRIPTIONS: Record<StaffRole, string> = {
+  cashier: 'Takes orders and payments, runs the cash drawer, starts voids and refunds',
+  kitchen: 'Uses the kitchen display only',
+  manager: 'Everything a cashier does, plus menu, stock, promotions, customers, tables, reports and approving voids and refunds',
+  owner: 'Full access, including settings, staff and deleting orders',
+};
+
+interface StaffFormData {
+  name: string;
+  role: StaffRole;
+  active: boolean;
+  pin?: string;
+}
+
+interface StaffFormProps {
+  initialData?: StaffMember;
+  // The last owner keeps their role so the shop is never locked out
+  isLockedOwner: boolean;
+  onSave: (data: StaffFormData) => void;
+  onClose: () => void;
+}
+
+function StaffForm({ initialData, isLockedOwner, onSave, onClose }: StaffFormProps) {
+  const [name, setName] = useState(initialData?.name || '');
+  const [role, setRole] = useState<StaffRole>(initialData?.role || 'cashier');
+  const [active, setActive] = useState(initialData?.active ?? true);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // A blank PIN keeps the current one when editing
+    if ((pin || !initialData) && !isValidPin(pin)) {
+      setError(`PIN must be ${PIN_MIN_LENGTH}-${PIN_MAX_LENGTH} digits`);
+      return;
+    }
+    onSave({ name: name.trim(), role, active, pin: pin || undefined });
+    onClose();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-6 space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+        <input type="text" required value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+        <select
+          value={role}
+          disabled={isLockedOwner}
+          onChange={(e) => setRole(e.target.value as StaffRole)}
+          className={`${inputClassName} disabled:bg-gray-50`}
+        >
+          {STAFF_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">{ROLE_DESCRIPTIONS[role]}</p>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{initialData ? 'New PIN' : 'PIN'}</label>
+        <input
+          type="password"
+          inputMode="numeric"
+          required={!initialData}
+          value={pin}
+          onChange={(e) => setPin(e.target.value)}
+          className={inputClassName}
+          placeholder={initialData ? 'Leave blank to keep the current PIN' : `${PIN_MIN_LENGTH}-${PIN_MAX_LENGTH} digits`}
+        />
+      </div>
+      {initialData && !isLockedOwner && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={active} onChange={(e) => setActive(e.target.checked)} className="rounded text-orange-500 focus:ring-orange-500" />
+          Can sign in
+        </label>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button type="submit" className="w-full px-4 py-2 text-white bg-orange-500 hover:bg-orange-600 rounded-xl font-medium transition-colors shadow-sm shadow-orange-200">
+        Save Staff Member
+      </button>
+    </form>
+  );
+}
+
+export function StaffPanel() {
+  const { staff, currentStaff, addStaff, updateStaff, deleteStaff } = useStore();
+  const [editing, setEditing] = useState<StaffMember | 'new' | null>(null);
+
+  const handleSave = ({ name, role, active, pin }: StaffFormData) => {
+    if (editing && editing !== 'new') {
+      updateStaff(editing.id, { name, role, active }, pin);
+    } else {
+      addStaff({ name, role, pin: pin || '' });
+    }
+  };
+
+  const handleDelete = (member: StaffMember) => {
+    if (window.confirm(`Remove ${member.name}? Their past orders keep their name.`)) {
+      deleteStaff(member.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Users className="w-5 h-5 text-orange-500" />
+          Staff
+        </h2>
+        <button
+          onClick={() => setEditing('new')}
+          className="flex items-center gap-2 px-4 py-2 bg-orange-500 text-white rounded-xl hover:bg-orange-600 transition-colors shadow-sm shadow-orange-200"
+        >
+          <Plus className="w-4 h-4" />
+          Add Staff
+        </button>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-gray-500 text-left">
+            <tr>
+              <th className="px-4 py-3 font-medium">Name</th>
+              <th className="px-4 py-3 font-medium">Role</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-50">
+            {staff.map(member => (
+              <tr key={member.id} className={member.active ? '' : 'opacity-50'}>
+                <td className="px-4 py-3 font-medium text-gray-900">
+                  {member.name}
+                  {member.id === currentStaff?.id && <span className="ml-2 text-xs font-normal text-gray-400">(you)</span>}
+                  {!member.active && <span className="ml-2 text-xs font-normal text-gray-400">Disabled</span>}
+                </td>
+                <td className="px-4 py-3">
+                  <span title={ROLE_DESCRIPTIONS[member.role]} className={`px-2 py-0.5 rounded-md text-xs font-medium ${ROLE_BADGES[member.role]}`}>
+                    {ROLE_LABELS[member.role]}
+                  </span>
+                </td>
+                <td className="px-4 py-3">
+                  <div className="flex justify-end gap-1">
+                    <button
+                      onClick={() => setEditing(member)}
+                      className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    {member.id !== currentStaff?.id && !isLastOwner(staff, member.id) && (
+                      <button
+                        onClick={() => handleDelete(member)}
+                        className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <AnimatePresence>
+        {editing && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white rounded-2xl shadow-xl w-full max-w-sm overflow-hidden"
+            >
+              <div className="flex items-center justify-between p-4 border-b border-gray-100">
+                <h2 className="text-lg font-semibold text-gray-900">{editing === 'new' ? 'Add Staff' : 'Edit Staff'}</h2>
+                <button onClick={() => setEditing(null)} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+                  <X className="w-5 h-5 text-gray-500" />
+                </button>
+              </div>
+              <StaffForm
+                initialData={editing === 'new' ? undefined : editing}
+                isLockedOwner={editing !== 'new' && isLastOwner(staff, editing.id)}
+                onSave={handleSave}
+                onClose={() => setEditing(null)}
+              />
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { DiningTable, Order } from '../types';
+import { formatCurrency } from '../utils';
+import { getTableTab, groupTablesByArea } from '../lib/tables';
+import { formatElapsed, getElapsedMs } from '../lib/kitchen';
+import { Users } from 'lucide-react';
+
+interface TableMapProps {
+  tables: DiningTable[];
+  orders: Order[];
+  selectedId?: string | null;
+  // Tables that cannot be picked, e.g. occupied ones when moving a tab
+  isDisabled?: (table: DiningTable, tab?: Order) => boolean;
+  onSelect: (table: DiningTable, tab?: Order) => void;
+}
+
+// The floor grouped by area. Free tables are white; tables with an open tab
+// show who is there, how long they have been seated and what they owe so far.
+export function TableMap({ tables, orders, selectedId, isDisabled, onSelect }: TableMapProps) {
+  if (tables.length === 0) {
+    return <p className="text-sm text-gray-400 text-center py-8">No tables set up yet</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {groupTablesByArea(tables).map(([area, areaTables]) => (
+        <div key={area}>
+          {area && <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">{area}</h4>}
+          <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-3">
+            {areaTables.map(table => {
+              const tab = getTableTab(orders, table.id);
+              const disabled = isDisabled?.(table, tab) ?? false;
+              return (
+                <button
+                  key={table.id}
+                  onClick={() => onSelect(table, tab)}
+                  disabled={disabled}
+                  className={`p-3 rounded-xl border-2 text-left transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                    selectedId === table.id
+                      ? 'border-orange-500 ring-2 ring-orange-200'
+                      : tab ? 'border-orange-200' : 'border-gray-100 hover:border-gray-300'
+                  } ${tab ? 'bg-orange-50' : 'bg-white'}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-bold text-gray-900 truncate">{table.name}</span>
+                    <span className="flex items-center gap-0.5 text-xs text-gray-400">
+                      <Users className="w-3 h-3" />
+                      {table.seats}
+                    </span>
+                  </div>
+                  {tab ? (
+                    <div className="mt-1 text-xs">
+                      <p className="text-gray-700 truncate">{tab.customerName}</p>
+                      <p className="flex justify-between text-orange-700 font-medium">
+                        <span>{formatElapsed(getElapsedMs(tab))}</span>
+                        <span className="tabular-nums">{formatCurrency(tab.total)}</span>
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="mt-1 text-xs text-green-600">Free</p>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { DiningTable, Order } from '../types';
+import { useStore } from '../hooks/useStore';
+import { formatCurrency } from '../utils';
+import { TableError, getTableTab } from '../lib/tables';
+import { getOrderBalanceDue } from '../lib/payments';
+import { TableMap } from './TableMap';
+import { motion, AnimatePresence } from 'motion/react';
+import { Plus, Edit2, Trash2, X, LayoutGrid, ArrowRightLeft, Combine, Receipt } from 'lucide-react';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none text-sm';
+
+type TableFormData = Omit<DiningTable, 'id' | 'position'>;
+
+interface TableFormProps {
+  initialData?: DiningTable;
+  areas: string[];
+  onSave: (data: TableFormData) => void;
+  onClose: () => void;
+}
+
+function TableForm({ initialData, areas, onSave, onClose }: TableFormProps) {
+  const [name, setName] = useState(initialData?.name || '');
+  const [area, setArea] = useState(initialData?.area ?? areas[0] ?? '');
+  const [seats, setSeats] = useState(initialData?.seats ?? 2);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ name: name.trim(), area: area.trim(), seats: Math.max(1, seats) });
+    onClose();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-6 space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+        <input type="text" required value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} placeholder="e.g. T4" />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Area</label>
+        <input type="text" list="table-areas" value={area} onChange={(e) => setArea(e.target.value)} className={inputClassName} placeholder="e.g. Indoor" />
+        <datalist id="table-areas">
+          {areas.map(a => <option key={a} value={a} />)}
+        </datalist>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Seats</label>
+        <input type="number" min="1" required value={seats} onChange={(e) => setSeats(Number(e.target.value))} className={inputClassName} />
+      </div>
+      <button type="submit" className="w-full px-4 py-2 text-white bg-orange-500 hover:bg-orange-600 rounded-xl font-medium transition-colors shadow-sm shadow-orange-200">
+        Save Table
+      </button>
+    </form>
+  );
+}
+
+interface TablesPanelProps {
+  onOpenOrder: (orderId: string) => void;
+}
+
+export function TablesPanel({ onOpenOrder }: TablesPanelProps) {
+  const { diningTables, orders, can, addDiningTable, updateDiningTable, deleteDiningTable, transferTab, mergeTabs } = useStore();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Set while picking where the selected tab moves to or merges into
+  const [action, setAction] = useState<'move' | 'merge' | null>(null);
+  const [editing, setEditing] = useState<DiningTable | 'new' | null>(null);
+  const [error, setError] = useState('');
+
+  const selected = diningTables.find(t => t.id === selectedId);
+  const selectedTab = selected ? getTableTab(orders, selected.id) : undefined;
+  const areas = [...new Set<string>(diningTables.map(t => t.area))].filter(Boolean);
+  const canManage = can('manage_tables');
+
+  const run = (change: () => void) => {
+    try {
+      change();
+      setError('');
+    } catch (e) {
+      if (!(e instanceof TableError)) throw e;
+      setError(e.message);
+    }
+  };
+
+  const handleSelect = (table: DiningTable, tab?: Order) => {
+    if (!action || !selectedTab) {
+      setSelectedId(table.id);
+      setAction(null);
+      setError('');
+      return;
+    }
+    if (action === 'move') {
+      run(() => transferTab(selectedTab.id, table.id));
+    } else if (tab && window.confirm(`Merge ${selected!.name} into ${table.name}? ${selected!.name} will be free.`)) {
+      run(() => mergeTabs(tab.id, selectedTab.id));
+    }
+    setSelectedId(table.id);
+    setAction(null);
+  };
+
+  // Moving needs a free table; merging needs another table with a tab
+  const isDisabled = (table: DiningTable, tab?: Order) => {
+    if (!action) return false;
+    if (table.id === selectedId) return true;
+    return action === 'move' ? Boolean(tab) : !tab;
+  };
+
+  const handleSave = (data: TableFormData) => {
+    if (editing && editing !== 'new') {
+      updateDiningTable(editing.id, data);
+    } else {
+      setSelectedId(addDiningTable(data).id);
+    }
+  };
+
+  const handleDelete = (table: DiningTable) => {
+    if (window.confirm(`Delete ${table.name}? Past orders keep its name.`)) {
+      run(() => deleteDiningTable(table.id));
+      setSelectedId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <LayoutGrid className="w-5 h-5 text-orange-500" />
+          Tables
+        </h2>
+        {canManage && (
+          <button
+            onClick={() => setEditing('new')}
+            className="flex items-center gap-2 px-4 py-2 bg-orange-500 text-white rounded-xl hover:bg-orange-600 transition-colors shadow-sm shadow-orange-200"
+          >
+            <Plus className="w-4 h-4" />
+            Add Table
+          </button>
+        )}
+      </div>
+
+      {action && selected && (
+        <div className="flex items-center justify-between px-4 py-2 bg-blue-50 border border-blue-100 rounded-xl text-sm text-blue-700">
+          {action === 'move' ? `Pick a free table to move ${selected.name} to` : `Pick the table to merge ${selected.name} into`}
+          <button onClick={() => setAction(null)} className="font-medium hover:underline">Cancel</button>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm">
+        <TableMap tables={diningTables} orders={orders} selectedId={selectedId} isDisabled={isDisabled} onSelect={handleSelect} />
+      </div>
+
+      {selected && !action && (
+        <div className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm flex flex-wrap items-center gap-4">
+          <div className="flex-1 min-w-0">
+            <p className="font-semibold text-gray-900">
+              {selected.name}
+              <span className="ml-2 text-sm font-normal text-gray-500">{selected.area} · {selected.seats} seats</span>
+            </p>
+            {selectedTab ? (
+              <p className="text-sm text-gray-600">
+                {selectedTab.customerName} · {selectedTab.items.reduce((sum, i) => sum + i.quantity, 0)} items ·{' '}
+                <span className="font-medium text-orange-700">{formatCurrency(getOrderBalanceDue(selectedTab))} due</span>
+              </p>
+            ) : (
+              <p className="text-sm text-green-600">Free</p>
+            )}
+          </div>
+          {selectedTab && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => onOpenOrder(selectedTab.id)}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl"
+              >
+                <Receipt className="w-4 h-4" />
+                Open Tab
+              </button>
+              <button
+                onClick={() => setAction('move')}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl"
+              >
+                <ArrowRightLeft className="w-4 h-4" />
+                Move
+              </button>
+              <button
+                onClick={() => setAction('merge')}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-xl"
+              >
+                <Combine className="w-4 h-4" />
+                Merge
+              </button>
+            </div>
+          )}
+          {canManage && (
+            <div className="flex gap-1">
+              <button
+                onClick={() => setEditing(selected)}
+                className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+              >
+                <Edit2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDelete(selected)}
+                disabled={Boolean(selectedTab)}
+                title={selectedTab ? 'Close or move the open tab first' : 'Delete'}
+                className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <AnimatePresence>
+        {editing && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white rounded-2xl shadow-xl w-full max-w-sm overflow-hidden"
+            >
+              <div className="flex items-center justify-between p-4 border-b border-gray-100">
+                <h2 className="text-lg font-semibold text-gray-900">{editing === 'new' ? 'Add Table' : 'Edit Table'}</h2>
+                <button onClick={() => setEditing(null)} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+                  <X className="w-5 h-5 text-gray-500" />
+                </button>
+              </div>
+              <TableForm
+                initialData={editing === 'new' ? undefined : editing}
+                areas={areas}
+                onSave={handleSave}
+                onClose={() => setEditing(null)}
+              />
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { PaymentMethod, Tender } from '../types';
+import { formatCurrency } from '../utils';
+import { PAYMENT_METHODS, QUICK_CASH_AMOUNTS, createTender } from '../lib/payments';
+import { Banknote, QrCode, CreditCard, Smartphone, Landmark, Plus, X } from 'lucide-react';
+
+const METHOD_ICONS: Record<PaymentMethod, typeof Banknote> = {
+  Cash: Banknote,
+  QRIS: QrCode,
+  Card: CreditCard,
+  'E-Wallet': Smartphone,
+  Transfer: Landmark,
+};
+
+interface TenderFormProps {
+  balanceDue: number;
+  onAddTender: (tender: Tender) => void;
+  disabled?: boolean;
+}
+
+export function TenderForm({ balanceDue, onAddTender, disabled }: TenderFormProps) {
+  const [method, setMethod] = useState<PaymentMethod>('Cash');
+  const [amount, setAmount] = useState('');
+  const [reference, setReference] = useState('');
+
+  // An empty amount means "pay the remaining balance"
+  const enteredAmount = amount === '' ? balanceDue : parseInt(amount) || 0;
+  const changeDue = method === 'Cash' ? Math.max(0, enteredAmount - balanceDue) : 0;
+  const canAdd = !disabled && balanceDue > 0 && enteredAmount > 0;
+
+  const handleAdd = (value = enteredAmount) => {
+    if (disabled || balanceDue <= 0 || value <= 0) return;
+    onAddTender(createTender(method, value, balanceDue, reference.trim() || undefined));
+    setAmount('');
+    setReference('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-5 gap-1">
+        {PAYMENT_METHODS.map(m => {
+          const Icon = METHOD_ICONS[m];
+          return (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMethod(m)}
+              className={`flex flex-col items-center gap-0.5 py-1.5 rounded-lg text-[10px] font-medium transition-all ${
+                method === m ? 'bg-orange-500 text-white shadow-sm' : 'bg-white text-gray-500 border border-gray-200 hover:text-gray-700'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {m}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min="0"
+          placeholder={balanceDue > 0 ? `${balanceDue}` : '0'}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          disabled={disabled || balanceDue <= 0}
+          className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-white border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none disabled:opacity-50"
+        />
+        <button
+          type="button"
+          onClick={() => handleAdd()}
+          disabled={!canAdd}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-gray-900 hover:bg-gray-800 rounded-lg flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add
+        </button>
+      </div>
+
+      {method === 'Cash' ? (
+        <div className="flex gap-1">
+          {QUICK_CASH_AMOUNTS.filter(value => value > balanceDue).map(value => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => handleAdd(value)}
+              disabled={!balanceDue || disabled}
+              className="flex-1 py-1 text-xs font-medium bg-white border border-gray-200 rounded-md text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+            >
+              {formatCurrency(value)}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <input
+          type="text"
+          placeholder="Reference (optional)"
+          value={reference}
+          onChange={(e) => setReference(e.target.value)}
+          disabled={disabled || balanceDue <= 0}
+          className="w-full text-xs bg-transparent border-b border-gray-200 focus:border-orange-500 outline-none py-1 text-gray-600 placeholder-gray-400"
+        />
+      )}
+
+      {changeDue > 0 && (
+        <p className="text-xs font-medium text-green-600">Change due: {formatCurrency(changeDue)}</p>
+      )}
+    </div>
+  );
+}
+
+interface TenderListProps {
+  payments: Tender[];
+  onRemove?: (tenderId: string) => void;
+}
+
+export function TenderList({ payments, onRemove }: TenderListProps) {
+  if (payments.length === 0) return null;
+
+  return (
+    <ul className="space-y-1">
+      {payments.map(p => {
+        const Icon = METHOD_ICONS[p.method];
+        return (
+          <li key={p.id} className="flex items-center justify-between text-sm text-gray-600">
+            <span className="flex items-center gap-1.5">
+              <Icon className="w-3.5 h-3.5 text-gray-400" />
+              {p.method}
+              {p.reference && <span className="text-xs text-gray-400">({p.reference})</span>}
+              {p.change ? (
+                <span className="text-xs text-gray-400">
+                  {formatCurrency(p.tendered || 0)} given, {formatCurrency(p.change)} change
+                </span>
+              ) : null}
+            </span>
+            <span className="flex items-center gap-1 font-medium text-gray-900">
+              {formatCurrency(p.amount)}
+              {onRemove && (
+                <button
+                  type="button"
+                  onClick={() => onRemove(p.id)}
+                  className="p-0.5 text-gray-400 hover:text-red-500 rounded"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -1,38 +1,59 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { MenuItem, Order } from '../types';
-import { generateId } from '../utils';
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
-
-const DEFAULT_MENU: MenuItem[] = [
-  {
-    id: '1',
-    name: 'Espresso',
-    basePrice: 25000,
-    category: 'Coffee',
-    bundle: { enabled: false, buyQuantity: 0, bundlePrice: 0, showPromoLabel: false }
-  },
-  {
-    id: '2',
-    name: 'Iced Latte',
-    basePrice: 35000,
-    category: 'Coffee',
-    bundle: { enabled: true, buyQuantity: 2, bundlePrice: 60000, showPromoLabel: true }
-  },
-  {
-    id: '3',
-    name: 'Croissant',
-    basePrice: 20000,
-    category: 'Food',
-    bundle: { enabled: true, buyQuantity: 3, bundlePrice: 50000, showPromoLabel: true }
-  },
-  {
-    id: '4',
-    name: 'Green Tea',
-    basePrice: 30000,
-    category: 'Tea',
-    bundle: { enabled: false, buyQuantity: 0, bundlePrice: 0, showPromoLabel: false }
-  }
-];
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { MenuItem, CartItem, Order, OrderStatus, NewOrder, StatusActor, Tender, Refund, RefundReason, PaymentMethod, CashSession, CashMovementType, StoreSettings, Promotion, Ingredient, StockMovement, StockMovementType, StaffMember, StaffRole, ConnectionStatus, Category, Customer, DiningTable, ParkedCart } from '../types';
+import { formatCurrency, generateId, generateUuid, getLineId } from '../utils';
+import {
+  BackendChange,
+  BackendError,
+  BackendKind,
+  INSERT_POSITION,
+  StoreBackend,
+  TABLE_NAMES,
+  TableName,
+  TableRecords,
+  createDefaultBackend,
+  emptyTables,
+} from '../lib/backends';
+import { removeRecord, upsertRecord } from '../lib/backends/records';
+import {
+  OutboxEntry,
+  loadOutbox,
+  saveOutbox,
+  createOutboxEntry,
+  applyOutboxEntry,
+  hasPendingWrite,
+  replayOutboxEntry,
+} from '../lib/outbox';
+import { derivePaymentStatus, getAmountPaid, getOrderPaymentStatus } from '../lib/payments';
+import { getExpectedCash, getOpenSession, getTillId } from '../lib/cashSession';
+import { SETTINGS_ID, resolveSettings } from '../lib/settings';
+import { StockUsage, getOrderStockBalance, getStockUsage } from '../lib/inventory';
+import { derivePrepStatus, isKitchenOpen } from '../lib/kitchen';
+import { getItemStationId } from '../lib/stations';
+import { buildStatusUpdate, createStatusChange } from '../lib/orderStatus';
+import { ApprovalError, ManagerApproval, Permission, PermissionError, getStatusActor, hasPermission, hashPin, isLastOwner, verifyPin } from '../lib/staff';
+import { checkRememberedPin, forgetPin, rememberPin } from '../lib/pinCache';
+import { CategoryError, resolveCategories } from '../lib/categories';
+import { LoyaltyError, getPointsBalance } from '../lib/loyalty';
+import { TableError, getTableTab, isOpenTab, sortTables } from '../lib/tables';
+import { AmendmentError, buildAmendment, diffOrderLines, isLineLocked, isOrderOpen, repriceOrder } from '../lib/amendments';
+import { getNextQueueNumber } from '../lib/queue';
+import { getShopDate } from '../lib/shopTime';
+import { Backup, RestoreMode, RestorePlan, createBackup as buildBackup, planRestore, prepareBackupForBackend } from '../lib/backup';
+import { RefundError, RefundSelection, buildRefundLines, getRefundTotal, getRefundableQuantity } from '../lib/refunds';
+
+export interface RefundRequest {
+  lines: RefundSelection[];
+  method: PaymentMethod;
+  reason: RefundReason;
+  note?: string;
+}
+
+// A batch of menu edits from an import or a bulk edit, applied in one go
+export interface MenuChanges {
+  added?: MenuItem[];
+  updated?: { id: string; updates: Partial<MenuItem> }[];
+  removed?: string[];
+}
 
 interface StoreContextType {
   menu: MenuItem[];
@@ -40,201 +61,925 @@ interface StoreContextType {
   addMenuItem: (item: Omit<MenuItem, 'id'>) => void;
   updateMenuItem: (id: string, updates: Partial<MenuItem>) => void;
   deleteMenuItem: (id: string) => void;
+  applyMenuChanges: (changes: MenuChanges) => void;
+  categories: Category[];
+  addCategory: (category: Omit<Category, 'id' | 'position'>) => Category;
+  updateCategory: (id: string, updates: Partial<Omit<Category, 'id'>>) => void;
+  reorderCategories: (ids: string[]) => void;
+  deleteCategory: (id: string) => void;
+  customers: Customer[];
+  addCustomer: (customer: Omit<Customer, 'id' | 'createdAt'>) => Customer;
+  updateCustomer: (id: string, updates: Partial<Omit<Customer, 'id' | 'createdAt'>>) => void;
+  deleteCustomer: (id: string) => void;
+  getCustomerPoints: (customerId: string) => number;
+  diningTables: DiningTable[];
+  addDiningTable: (table: Omit<DiningTable, 'id' | 'position'>) => DiningTable;
+  updateDiningTable: (id: string, updates: Partial<Omit<DiningTable, 'id'>>) => void;
+  deleteDiningTable: (id: string) => void;
+  transferTab: (orderId: string, tableId: string) => void;
+  mergeTabs: (targetId: string, sourceId: string) => void;
+  parkedCarts: ParkedCart[];
+  parkCart: (cart: Omit<ParkedCart, 'id' | 'staffId' | 'createdAt'>) => ParkedCart;
+  resumeParkedCart: (id: string) => Promise<ParkedCart | undefined>;
+  deleteParkedCart: (id: string) => void;
   deleteOrder: (id: string) => void;
-  createOrder: (orderData: Omit<Order, 'id' | 'createdAt' | 'status'>) => Order | Promise<Order | null>;
-  updateOrderStatus: (id: string, status: Order['status']) => void;
-  toggleOrderItemPrepared: (orderId: string, itemId: string) => void;
+  createOrder: (orderData: NewOrder) => Promise<Order>;
+  amendOrder: (orderId: string, items: CartItem[]) => void;
+  updateOrderStatus: (id: string, status: Exclude<OrderStatus, 'Cancelled'>, actor?: StatusActor) => void;
+  voidOrder: (orderId: string, reason: RefundReason, note?: string, approval?: ManagerApproval) => Promise<void>;
+  refundOrder: (orderId: string, refund: RefundRequest, approval?: ManagerApproval) => Promise<Refund | undefined>;
+  addPayment: (orderId: string, tender: Tender) => void;
+  toggleOrderItemPrepared: (orderId: string, lineId: string) => void;
+  bumpOrder: (orderId: string, stationId?: string) => void;
+  recallOrder: (orderId: string, stationId?: string) => void;
+  cashSessions: CashSession[];
+  tillId: string;
+  // The open session of this till's drawer
+  currentSession: CashSession | undefined;
+  openCashSession: (openingFloat: number) => void;
+  addCashMovement: (type: CashMovementType, amount: number, reason?: string) => void;
+  closeCashSession: (countedCash: number, closingNote?: string) => void;
+  promotions: Promotion[];
+  addPromotion: (promotion: Omit<Promotion, 'id'>) => void;
+  updatePromotion: (id: string, updates: Partial<Promotion>) => void;
+  deletePromotion: (id: string) => void;
+  ingredients: Ingredient[];
+  stockMovements: StockMovement[];
+  addIngredient: (ingredient: Omit<Ingredient, 'id'>) => void;
+  updateIngredient: (id: string, updates: Partial<Ingredient>) => void;
+  deleteIngredient: (id: string) => void;
+  adjustStock: (ingredientId: string, type: Exclude<StockMovementType, 'sale' | 'cancel'>, quantity: number, note?: string) => void;
+  settings: StoreSettings;
+  updateSettings: (changes: Partial<Omit<StoreSettings, 'id'>>) => void;
   isRealtime: boolean;
+  connectionStatus: ConnectionStatus;
+  pendingSyncCount: number;
+  staff: StaffMember[];
+  // False until the first load from the backend; an empty staff list means
+  // nothing until then
+  isLoaded: boolean;
+  currentStaff: StaffMember | null;
+  signIn: (staffId: string, pin: string) => Promise<boolean>;
+  signOut: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+  addStaff: (member: { name: string; role: StaffRole; pin: string }) => StaffMember;
+  updateStaff: (id: string, updates: Partial<Pick<StaffMember, 'name' | 'role' | 'active'>>, pin?: string) => void;
+  deleteStaff: (id: string) => void;
+  backendKind: BackendKind;
+  createBackup: () => Backup;
+  previewRestore: (backup: Backup, mode: RestoreMode) => RestorePlan;
+  restoreBackup: (plan: RestorePlan) => void;
 }
 
 const StoreContext = createContext<StoreContextType | undefined>(undefined);
 
-export function StoreProvider({ children }: { children: ReactNode }) {
-  const [menu, setMenu] = useState<MenuItem[]>([]);
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [isRealtime, setIsRealtime] = useState(false);
+const CACHE_KEY = 'pos_cache';
+// Who is signed in on this till. Kept per device, outside the shared tables.
+const CURRENT_STAFF_KEY = 'pos_current_staff';
+const OUTBOX_RETRY_MS = 15000;
+// How long checkout waits on the shared queue counter before going without
+const QUEUE_NUMBER_TIMEOUT_MS = 3000;
+
+interface StoreProviderProps {
+  children: ReactNode;
+  // Defaults to Supabase when configured, otherwise localStorage
+  backend?: StoreBackend;
+}
+
+export function StoreProvider({ children, backend: backendOverride }: StoreProviderProps) {
+  const [backend] = useState<StoreBackend>(() => backendOverride ?? createDefaultBackend());
+  const isRealtime = backend.isRemote;
+  const [tables, setTables] = useState<TableRecords>(emptyTables);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>(isRealtime ? 'offline' : 'local');
+
+  const menu = tables.menu_items;
+  const orders = tables.orders;
+  const categories = resolveCategories(tables.categories, menu);
+  const customers = tables.customers;
+  const diningTables = sortTables(tables.dining_tables);
+  const parkedCarts = tables.parked_carts;
+  const cashSessions = tables.cash_sessions;
+  const [tillId] = useState(getTillId);
+  const currentSession = getOpenSession(cashSessions, tillId);
+  const promotions = tables.promotions;
+  const ingredients = tables.ingredients;
+  const stockMovements = tables.stock_movements;
+  const settings = resolveSettings(tables.settings.find(s => s.id === SETTINGS_ID));
+  const staff = tables.staff;
+  const [currentStaffId, setCurrentStaffId] = useState<string | null>(() => localStorage.getItem(CURRENT_STAFF_KEY));
+  const currentStaff = staff.find(s => s.id === currentStaffId && s.active) ?? null;
+  const staffId = currentStaff?.id;
+  const currentActor: StatusActor = currentStaff ? getStatusActor(currentStaff.role) : 'cashier';
+
+  // Pending writes survive reloads; the ref is the source of truth while flushing.
+  const outboxRef = useRef<OutboxEntry[]>(isRealtime ? loadOutbox() : []);
+  const [pendingSyncCount, setPendingSyncCount] = useState(outboxRef.current.length);
+  const flushingRef = useRef<Promise<void> | null>(null);
+
+  const setOutbox = (entries: OutboxEntry[]) => {
+    outboxRef.current = entries;
+    saveOutbox(entries);
+    setPendingSyncCount(entries.length);
+  };
+
+  const applyLocally = (entry: OutboxEntry) => {
+    setTables(prev => applyOutboxEntry(prev, entry));
+  };
+
+  // Rows with local writes still queued are skipped so a stale echo from the
+  // server cannot undo an optimistic update.
+  const applyRemoteChange = (change: BackendChange) => {
+    const id = change.type === 'delete' ? change.id : change.record.id;
+    if (hasPendingWrite(outboxRef.current, change.table, id)) return;
+
+    setTables(prev => ({
+      ...prev,
+      [change.table]: change.type === 'delete'
+        ? removeRecord(prev[change.table], change.id)
+        : upsertRecord<{ id: string }>(prev[change.table], change.record, INSERT_POSITION[change.table]),
+    }));
+  };
+
+  // Replays queued writes in order. Stops at the first transport failure so
+  // later writes never overtake earlier ones.
+  const replayOutbox = useCallback(async () => {
+    if (outboxRef.current.length > 0) setConnectionStatus('syncing');
+
+    while (outboxRef.current.length > 0) {
+      const [entry, ...rest] = outboxRef.current;
+      try {
+        await replayOutboxEntry(backend, entry);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (!(err instanceof BackendError) || err.retryable) {
+          setOutbox([{ ...entry, attempts: entry.attempts + 1, lastError: message }, ...rest]);
+          setConnectionStatus('offline');
+          return;
+        }
+        console.error('Sync rejected by server, dropping write', entry, err);
+      }
+      setOutbox(outboxRef.current.filter(e => e.id !== entry.id));
+    }
+
+    setConnectionStatus('online');
+  }, [backend]);
+
+  // A flush already running is shared, so awaiting this waits for every write
+  // queued so far.
+  const flushOutbox = useCallback((): Promise<void> => {
+    if (!backend.isRemote) return Promise.resolve();
+    if (!flushingRef.current) {
+      flushingRef.current = replayOutbox().finally(() => {
+        flushingRef.current = null;
+      });
+    }
+    return flushingRef.current;
+  }, [backend, replayOutbox]);
+
+  const loadTables = useCallback(async () => {
+    let lists: TableRecords[TableName][];
+    try {
+      lists = await Promise.all(TABLE_NAMES.map(table => backend.list(table)));
+    } catch (err) {
+      console.error('Failed to load store data', err);
+      if (backend.isRemote) setConnectionStatus('offline');
+      return;
+    }
+
+    // Writes that have not reached the server yet stay visible on top of the fetched rows
+    const fetched = emptyTables();
+    TABLE_NAMES.forEach((table, index) => {
+      (fetched as Record<TableName, unknown[]>)[table] = lists[index];
+    });
+    setTables(outboxRef.current.reduce(applyOutboxEntry, fetched));
+    setIsLoaded(true);
+  }, [backend]);
+
+  const syncNow = useCallback(async () => {
+    await flushOutbox();
+    await loadTables();
+  }, [flushOutbox, loadTables]);
 
   // Initial Load & Subscription
   useEffect(() => {
-    if (isSupabaseConfigured && supabase) {
-      setIsRealtime(true);
-      
-      // Fetch initial data
-      const fetchData = async () => {
-        const { data: menuData } = await supabase.from('menu_items').select('*').order('created_at');
-        const { data: ordersData } = await supabase.from('orders').select('*').order('created_at', { ascending: false });
-        
-        if (menuData) setMenu(menuData.map(mapDbMenuItem));
-        if (ordersData) setOrders(ordersData.map(mapDbOrder));
-      };
-      
-      fetchData();
-
-      // Subscribe to changes
-      const menuSub = supabase
-        .channel('menu_changes')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'menu_items' }, (payload) => {
-          if (payload.eventType === 'INSERT') {
-            setMenu(prev => [...prev, mapDbMenuItem(payload.new)]);
-          } else if (payload.eventType === 'UPDATE') {
-            setMenu(prev => prev.map(item => item.id === payload.new.id ? mapDbMenuItem(payload.new) : item));
-          } else if (payload.eventType === 'DELETE') {
-            setMenu(prev => prev.filter(item => item.id !== payload.old.id));
-          }
-        })
-        .subscribe();
-
-      const ordersSub = supabase
-        .channel('orders_changes')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'orders' }, (payload) => {
-          if (payload.eventType === 'INSERT') {
-            setOrders(prev => [mapDbOrder(payload.new), ...prev]);
-          } else if (payload.eventType === 'UPDATE') {
-            setOrders(prev => prev.map(order => order.id === payload.new.id ? mapDbOrder(payload.new) : order));
-          }
-        })
-        .subscribe();
-
-      return () => {
-        menuSub.unsubscribe();
-        ordersSub.unsubscribe();
-      };
-    } else {
-      // Fallback to Local Storage
-      const savedMenu = localStorage.getItem('pos_menu');
-      const savedOrders = localStorage.getItem('pos_orders');
-      setMenu(savedMenu ? JSON.parse(savedMenu) : DEFAULT_MENU);
-      setOrders(savedOrders ? JSON.parse(savedOrders) : []);
+    if (isRealtime) {
+      // Show the last known state immediately, then reconcile with the server
+      const cached = localStorage.getItem(CACHE_KEY);
+      if (cached) setTables({ ...emptyTables(), ...JSON.parse(cached) });
     }
-  }, []);
 
-  // Sync to Local Storage (only if not realtime, or as backup)
+    syncNow();
+
+    const unsubscribe = backend.subscribe(applyRemoteChange, (status) => {
+      if (!isRealtime) return;
+      if (status === 'connected') {
+        syncNow();
+      } else {
+        setConnectionStatus('offline');
+      }
+    });
+
+    if (!isRealtime) return unsubscribe;
+
+    const handleOnline = () => syncNow();
+    const handleOffline = () => setConnectionStatus('offline');
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // Keep retrying in the background while writes are waiting
+    const retryTimer = window.setInterval(() => {
+      if (outboxRef.current.length > 0) flushOutbox();
+    }, OUTBOX_RETRY_MS);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.clearInterval(retryTimer);
+    };
+  }, [backend]);
+
+  // Offline cache for remote backends. Local backends persist on every write.
   useEffect(() => {
-    if (!isRealtime) {
-      localStorage.setItem('pos_menu', JSON.stringify(menu));
+    if (isRealtime) {
+      localStorage.setItem(CACHE_KEY, JSON.stringify(tables));
     }
-  }, [menu, isRealtime]);
+  }, [tables, isRealtime]);
 
-  useEffect(() => {
-    if (!isRealtime) {
-      localStorage.setItem('pos_orders', JSON.stringify(orders));
+  // Every write is applied optimistically. Remote writes are queued and replayed
+  // as soon as a connection is available; local ones are saved straight away.
+  const write = (entry: OutboxEntry) => {
+    applyLocally(entry);
+    if (isRealtime) {
+      setOutbox([...outboxRef.current, entry]);
+      flushOutbox();
+    } else {
+      replayOutboxEntry(backend, entry).catch(err => console.error('Failed to save change', err));
     }
-  }, [orders, isRealtime]);
+  };
+
+  const can = (permission: Permission) => hasPermission(currentStaff, permission);
+
+  const requirePermission = (permission: Permission) => {
+    if (!can(permission)) throw new PermissionError(permission);
+  };
 
   // Actions
-  const addMenuItem = async (item: Omit<MenuItem, 'id'>) => {
-    if (isRealtime && supabase) {
-      const dbItem = {
-        name: item.name,
-        base_price: item.basePrice,
-        category: item.category,
-        bundle_config: item.bundle
-      };
-      await supabase.from('menu_items').insert(dbItem);
-    } else {
-      const newItem = { ...item, id: generateId() };
-      setMenu(prev => [...prev, newItem]);
+  const addMenuItem = (item: Omit<MenuItem, 'id'>) => {
+    requirePermission('manage_menu');
+    const newItem: MenuItem = { ...item, id: generateUuid() };
+    write(createOutboxEntry('menu_items', 'upsert', newItem.id, newItem));
+  };
+
+  const updateMenuItem = (id: string, updates: Partial<MenuItem>) => {
+    requirePermission('manage_menu');
+    write(createOutboxEntry('menu_items', 'update', id, updates));
+  };
+
+  const deleteMenuItem = (id: string) => {
+    requirePermission('delete_menu_items');
+    write(createOutboxEntry('menu_items', 'delete', id));
+  };
+
+  const applyMenuChanges = ({ added = [], updated = [], removed = [] }: MenuChanges) => {
+    requirePermission('manage_menu');
+    if (removed.length > 0) requirePermission('delete_menu_items');
+    added.forEach(item => write(createOutboxEntry('menu_items', 'upsert', item.id, item)));
+    updated.forEach(({ id, updates }) => write(createOutboxEntry('menu_items', 'update', id, updates)));
+    removed.forEach(id => write(createOutboxEntry('menu_items', 'delete', id)));
+  };
+
+  const addCategory = (category: Omit<Category, 'id' | 'position'>) => {
+    requirePermission('manage_menu');
+    const position = categories.reduce((max, c) => Math.max(max, c.position + 1), 0);
+    const newCategory: Category = { ...category, id: generateUuid(), position };
+    write(createOutboxEntry('categories', 'upsert', newCategory.id, newCategory));
+    return newCategory;
+  };
+
+  // Saved whole, since a category only inferred from the menu has no record yet
+  const updateCategory = (id: string, updates: Partial<Omit<Category, 'id'>>) => {
+    requirePermission('manage_menu');
+    const category = categories.find(c => c.id === id);
+    if (!category) return;
+    write(createOutboxEntry('categories', 'upsert', id, { ...category, ...updates }));
+  };
+
+  const reorderCategories = (ids: string[]) => {
+    requirePermission('manage_menu');
+    ids.forEach((id, position) => {
+      const category = categories.find(c => c.id === id);
+      if (category && category.position !== position) {
+        write(createOutboxEntry('categories', 'upsert', id, { ...category, position }));
+      }
+    });
+  };
+
+  const deleteCategory = (id: string) => {
+    requirePermission('manage_menu');
+    const count = menu.filter(item => item.category === id).length;
+    if (count > 0) throw new CategoryError(`Move the ${count} items in this category first`);
+    write(createOutboxEntry('categories', 'delete', id));
+  };
+
+  const addCustomer = (customer: Omit<Customer, 'id' | 'createdAt'>) => {
+    requirePermission('take_orders');
+    const newCustomer: Customer = { ...customer, id: generateUuid(), createdAt: new Date().toISOString() };
+    write(createOutboxEntry('customers', 'upsert', newCustomer.id, newCustomer));
+    return newCustomer;
+  };
+
+  const updateCustomer = (id: string, updates: Partial<Omit<Customer, 'id' | 'createdAt'>>) => {
+    requirePermission('manage_customers');
+    write(createOutboxEntry('customers', 'update', id, updates));
+  };
+
+  // Their orders keep the name they were rung up under
+  const deleteCustomer = (id: string) => {
+    requirePermission('manage_customers');
+    write(createOutboxEntry('customers', 'delete', id));
+  };
+
+  const getCustomerPoints = (customerId: string) => getPointsBalance(orders, customerId);
+
+  const addDiningTable = (table: Omit<DiningTable, 'id' | 'position'>) => {
+    requirePermission('manage_tables');
+    const position = diningTables.filter(t => t.area === table.area).reduce((max, t) => Math.max(max, t.position + 1), 0);
+    const newTable: DiningTable = { ...table, id: generateUuid(), position };
+    write(createOutboxEntry('dining_tables', 'upsert', newTable.id, newTable));
+    return newTable;
+  };
+
+  const updateDiningTable = (id: string, updates: Partial<Omit<DiningTable, 'id'>>) => {
+    requirePermission('manage_tables');
+    write(createOutboxEntry('dining_tables', 'update', id, updates));
+  };
+
+  const deleteDiningTable = (id: string) => {
+    requirePermission('manage_tables');
+    if (getTableTab(orders, id)) throw new TableError('Close or move the open tab on this table first');
+    write(createOutboxEntry('dining_tables', 'delete', id));
+  };
+
+  // Parked carts live in the backend, so they survive a reload and any till
+  // sharing it can pick them up
+  const parkCart = (cart: Omit<ParkedCart, 'id' | 'staffId' | 'createdAt'>) => {
+    requirePermission('take_orders');
+    const parked: ParkedCart = { ...cart, id: generateUuid(), staffId, createdAt: new Date().toISOString() };
+    write(createOutboxEntry('parked_carts', 'upsert', parked.id, parked));
+    return parked;
+  };
+
+  // Takes a cart off the shelf for every till. The backend decides which till
+  // gets it, so this needs a connection; undefined if another till got to it
+  // first.
+  const resumeParkedCart = async (id: string) => {
+    requirePermission('take_orders');
+    const parked = parkedCarts.find(c => c.id === id);
+    if (!parked) return undefined;
+    // A cart parked on this till may not have reached the server yet
+    await flushOutbox();
+    const taken = await backend.take('parked_carts', id);
+    applyLocally(createOutboxEntry('parked_carts', 'delete', id));
+    return taken ? parked : undefined;
+  };
+
+  const deleteParkedCart = (id: string) => {
+    requirePermission('take_orders');
+    write(createOutboxEntry('parked_carts', 'delete', id));
+  };
+
+  // Paid orders stay on record; they are refunded instead
+  const deleteOrder = (id: string) => {
+    requirePermission('delete_orders');
+    const order = orders.find(o => o.id === id);
+    if (order && (getOrderPaymentStatus(order) !== 'Unpaid' || order.refunds?.length)) {
+      throw new RefundError('Paid orders cannot be deleted; refund them instead');
     }
+    write(createOutboxEntry('orders', 'delete', id));
   };
 
-  const updateMenuItem = async (id: string, updates: Partial<MenuItem>) => {
-    if (isRealtime && supabase) {
-      const dbUpdates: any = {};
-      if (updates.name) dbUpdates.name = updates.name;
-      if (updates.basePrice) dbUpdates.base_price = updates.basePrice;
-      if (updates.category) dbUpdates.category = updates.category;
-      if (updates.bundle) dbUpdates.bundle_config = updates.bundle;
-      
-      await supabase.from('menu_items').update(dbUpdates).eq('id', id);
-    } else {
-      setMenu(prev => prev.map(item => item.id === id ? { ...item, ...updates } : item));
+  // A till that cannot reach its shared backend, or hears back too slowly,
+  // gets no number; its orders are called out by their reference instead
+  const claimQueueNumber = async (date: string): Promise<number | undefined> => {
+    if (!backend.claimQueueNumber) return getNextQueueNumber(orders, date);
+    let timer: number | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = window.setTimeout(() => reject(new Error('Timed out claiming a queue number')), QUEUE_NUMBER_TIMEOUT_MS);
+    });
+    try {
+      return await Promise.race([backend.claimQueueNumber(date), timeout]);
+    } catch (err) {
+      console.error('Could not claim a queue number', err);
+      return undefined;
+    } finally {
+      window.clearTimeout(timer);
     }
   };
 
-  const deleteMenuItem = async (id: string) => {
-    if (isRealtime && supabase) {
-      await supabase.from('menu_items').delete().eq('id', id);
-    } else {
-      setMenu(prev => prev.filter(item => item.id !== id));
+  const createOrder = async (orderData: NewOrder) => {
+    const redeemed = orderData.loyalty?.pointsRedeemed || 0;
+    if (redeemed > 0 && (!orderData.customerId || getPointsBalance(orders, orderData.customerId) < redeemed)) {
+      throw new LoyaltyError('Not enough points');
+    }
+    const table = orderData.tableId ? diningTables.find(t => t.id === orderData.tableId) : undefined;
+    if (table && getTableTab(orders, table.id)) {
+      throw new TableError(`${table.name} already has an open tab`);
     }
+    const createdAt = new Date().toISOString();
+    const queueDate = getShopDate(createdAt, settings.timeZone);
+    const queueNumber = await claimQueueNumber(queueDate);
+    const sessionId = currentSession?.id;
+    const payments = (orderData.payments || []).map(p => ({ ...p, sessionId }));
+    const paymentStatus = derivePaymentStatus(orderData.total, payments);
+    const status: OrderStatus = paymentStatus === 'Paid' ? 'Paid' : 'Pending';
+    const newOrder: Order = {
+      ...orderData,
+      items: orderData.items.map(item => ({
+        ...item,
+        lineId: getLineId(item),
+        stationId: getItemStationId(item, settings.stations),
+        isPrepared: false,
+      })),
+      payments,
+      paymentStatus,
+      sessionId,
+      staffId,
+      staffName: currentStaff?.name,
+      tableName: table?.name,
+      queueNumber,
+      queueDate: queueNumber ? queueDate : undefined,
+      id: generateUuid(),
+      createdAt,
+      status,
+      statusHistory: [createStatusChange(null, status, currentActor, staffId)],
+    };
+
+    write(createOutboxEntry('orders', 'upsert', newOrder.id, newOrder));
+
+    const usage = getStockUsage(newOrder.items, menu);
+    usage.forEach((quantity, ingredientId) => usage.set(ingredientId, -quantity));
+    applyStockChanges(usage, 'sale', newOrder.id);
+    return newOrder;
   };
 
-  const deleteOrder = async (id: string) => {
-    if (isRealtime && supabase) {
-      await supabase.from('orders').delete().eq('id', id);
-    } else {
-      setOrders(prev => prev.filter(order => order.id !== id));
+  // Throws an OrderTransitionError if the actor may not make this change.
+  // Orders are cancelled through voidOrder or refundOrder.
+  const updateOrderStatus = (id: string, status: Exclude<OrderStatus, 'Cancelled'>, actor: StatusActor = currentActor) => {
+    const order = orders.find(o => o.id === id);
+    if (!order) return;
+    const updates = buildStatusUpdate(order, status, actor, staffId);
+    if (!updates.status) return;
+    write(createOutboxEntry('orders', 'update', id, updates));
+  };
+
+  // Put back whatever a cancelled order took from stock
+  const restoreOrderStock = (orderId: string) => {
+    const restore: StockUsage = new Map();
+    getOrderStockBalance(stockMovements, orderId).forEach((quantity, ingredientId) => {
+      if (quantity < 0) restore.set(ingredientId, -quantity);
+    });
+    applyStockChanges(restore, 'cancel', orderId);
+  };
+
+  // Backends that keep PIN hashes to themselves check the PIN there. While one
+  // is unreachable, only staff who signed in on this till before get in.
+  const checkPin = async (member: StaffMember, pin: string, check?: (staffId: string, pin: string) => Promise<void>) => {
+    if (!member.active) return false;
+    if (!check) return verifyPin(member, pin);
+    try {
+      await check(member.id, pin);
+    } catch (err) {
+      if (err instanceof BackendError && err.retryable) return checkRememberedPin(member.id, pin);
+      console.error('PIN rejected by server', err);
+      forgetPin(member.id);
+      return false;
     }
+    rememberPin(member.id, pin);
+    return true;
   };
 
-  const createOrder = async (orderData: Omit<Order, 'id' | 'createdAt' | 'status'>) => {
-    const newOrderLocal: Order = {
-      ...orderData,
-      items: orderData.items.map(item => ({ ...item, isPrepared: false })),
+  // Staff who may approve refunds approve their own; anyone else needs a
+  // manager to enter their PIN on this till
+  const getApprover = async (approval?: ManagerApproval): Promise<StaffMember> => {
+    if (!approval) {
+      if (currentStaff && can('approve_refunds')) return currentStaff;
+      throw new ApprovalError();
+    }
+    const approver = staff.find(s => s.id === approval.staffId);
+    if (!approver || !hasPermission(approver, 'approve_refunds')) throw new ApprovalError();
+    if (!(await checkPin(approver, approval.pin, backend.verifyPin?.bind(backend)))) throw new ApprovalError();
+    return approver;
+  };
+
+  // Cancels an order before any money was taken. The approver's role decides
+  // which statuses it can still be cancelled from.
+  const voidOrder = async (orderId: string, reason: RefundReason, note?: string, approval?: ManagerApproval) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order) return;
+    requirePermission('void_orders');
+    if (getOrderPaymentStatus(order) !== 'Unpaid') throw new RefundError('Paid orders are refunded, not voided');
+    const approver = await getApprover(approval);
+
+    write(createOutboxEntry('orders', 'update', orderId, {
+      voided: { reason, note, staffId, approvedBy: approver.id, at: new Date().toISOString() },
+      ...buildStatusUpdate(order, 'Cancelled', getStatusActor(approver.role), staffId),
+    }));
+    restoreOrderStock(orderId);
+  };
+
+  // Gives money back for some or all of a paid order's items. Refunding
+  // everything on an order the kitchen has not finished also cancels it.
+  const refundOrder = async (orderId: string, request: RefundRequest, approval?: ManagerApproval) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order) return undefined;
+    requirePermission('refund_orders');
+    const lines = buildRefundLines(order, request.lines);
+    if (lines.length === 0) throw new RefundError('Nothing left to refund on this order');
+    const approver = await getApprover(approval);
+
+    const refund: Refund = {
       id: generateId(),
+      lines,
+      amount: getRefundTotal(lines),
+      method: request.method,
+      reason: request.reason,
+      note: request.note,
+      staffId,
+      approvedBy: approver.id,
+      sessionId: currentSession?.id,
       createdAt: new Date().toISOString(),
-      status: orderData.paymentStatus === 'Paid' ? 'Paid' : 'Pending',
     };
+    const refunded: Order = { ...order, refunds: [...(order.refunds || []), refund] };
+    const isFullRefund = refunded.items.every(item => getRefundableQuantity(refunded, item) === 0);
+    const cancels = isFullRefund && isKitchenOpen(order);
 
-    if (isRealtime && supabase) {
-      const dbOrder = {
-        customer_name: orderData.customerName,
-        items: newOrderLocal.items,
-        total: orderData.total,
-        status: newOrderLocal.status,
-        payment_status: orderData.paymentStatus,
-        note: orderData.note
-      };
-      const { data, error } = await supabase.from('orders').insert(dbOrder).select().single();
-      if (data) return mapDbOrder(data);
-      return null;
-    } else {
-      setOrders(prev => [newOrderLocal, ...prev]);
-      return newOrderLocal;
+    write(createOutboxEntry('orders', 'update', orderId, {
+      refunds: refunded.refunds,
+      ...(cancels ? buildStatusUpdate(order, 'Cancelled', getStatusActor(approver.role), staffId) : {}),
+    }));
+    if (cancels) restoreOrderStock(orderId);
+    return refund;
+  };
+
+  const addPayment = (orderId: string, tender: Tender) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order) return;
+
+    const payments = [...(order.payments || []), { ...tender, sessionId: currentSession?.id }];
+    const paymentStatus = derivePaymentStatus(order.total, payments);
+    const updates: Partial<Order> = { payments, paymentStatus };
+    if (paymentStatus === 'Paid' && order.status === 'Pending') {
+      Object.assign(updates, buildStatusUpdate(order, 'Paid', 'system', staffId));
     }
+    write(createOutboxEntry('orders', 'update', orderId, updates));
   };
 
-  const updateOrderStatus = async (id: string, status: Order['status']) => {
-    if (isRealtime && supabase) {
-      await supabase.from('orders').update({ status }).eq('id', id);
-    } else {
-      setOrders(prev => prev.map(order => order.id === id ? { ...order, status } : order));
+  const orderPricing = { promotions, menu, tax: settings.tax, loyalty: settings.loyalty, timeZone: settings.timeZone };
+
+  // The status an order moves to once its lines or payments change. The
+  // kitchen picks up any lines not made yet.
+  const buildLinesStatusUpdate = (order: Order, updates: Partial<Order>) => {
+    const updated = { ...order, ...updates };
+    return buildStatusUpdate(order, derivePrepStatus(updated, updated.items), 'system', staffId);
+  };
+
+  const requireOpenTab = (orderId: string) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order || !isOpenTab(order)) throw new TableError('This tab is already closed');
+    return order;
+  };
+
+  // Replaces an open order's lines with the till's edited copy. New lines go
+  // to the kitchen as not made yet, stock follows what was added and taken
+  // off, and the change is kept in the order's amendments.
+  const amendOrder = (orderId: string, items: CartItem[]) => {
+    requirePermission('take_orders');
+    const order = orders.find(o => o.id === orderId);
+    if (!order || !isOrderOpen(order)) throw new AmendmentError('This order was paid or closed meanwhile');
+    if (items.length === 0) throw new AmendmentError('An order needs at least one item; void it instead');
+
+    const lines = items.map(item => {
+      const existing = order.items.find(i => getLineId(i) === getLineId(item));
+      if (!existing) {
+        return { ...item, lineId: getLineId(item), stationId: getItemStationId(item, settings.stations), isPrepared: false };
+      }
+      // The kitchen may have made it since the till opened the order
+      if (isLineLocked(existing) && item.quantity !== existing.quantity) {
+        throw new AmendmentError(`${existing.name} was already made; void or refund it instead`);
+      }
+      return { ...item, stationId: existing.stationId, isPrepared: existing.isPrepared };
+    });
+    const locked = order.items.find(i => isLineLocked(i) && !lines.some(l => getLineId(l) === getLineId(i)));
+    if (locked) throw new AmendmentError(`${locked.name} was already made; void or refund it instead`);
+
+    const changes = diffOrderLines(order.items, lines);
+    const notesChanged = lines.some(l => l.note !== order.items.find(i => getLineId(i) === getLineId(l))?.note);
+    if (changes.added.length === 0 && changes.removed.length === 0 && !notesChanged) return;
+
+    const updates: Partial<Order> = repriceOrder(order, lines, orderPricing);
+    // Money already taken stays on the order; giving it back is a refund
+    const paid = getAmountPaid(order.payments);
+    if (updates.total < paid) {
+      throw new AmendmentError(`${formatCurrency(paid)} was already paid; refund the order instead of taking items off`);
+    }
+    if (changes.added.length > 0 || changes.removed.length > 0) {
+      updates.amendments = [...(order.amendments || []), buildAmendment(changes, staffId)];
+    }
+    write(createOutboxEntry('orders', 'update', orderId, { ...updates, ...buildLinesStatusUpdate(order, updates) }));
+
+    // One change per ingredient, as a sale or a give-back, so each is applied once
+    const usage = getStockUsage(changes.removed, menu);
+    getStockUsage(changes.added, menu).forEach((quantity, ingredientId) => {
+      usage.set(ingredientId, (usage.get(ingredientId) || 0) - quantity);
+    });
+    const sold: StockUsage = new Map();
+    const returned: StockUsage = new Map();
+    usage.forEach((quantity, ingredientId) => (quantity < 0 ? sold : returned).set(ingredientId, quantity));
+    applyStockChanges(sold, 'sale', orderId);
+    applyStockChanges(returned, 'cancel', orderId);
+  };
+
+  // Moves a tab to a free table when the guests change seats
+  const transferTab = (orderId: string, tableId: string) => {
+    requirePermission('take_orders');
+    requireOpenTab(orderId);
+    const table = diningTables.find(t => t.id === tableId);
+    if (!table) return;
+    const occupant = getTableTab(orders, tableId);
+    if (occupant && occupant.id !== orderId) throw new TableError(`${table.name} already has an open tab; merge them instead`);
+    write(createOutboxEntry('orders', 'update', orderId, { tableId, tableName: table.name }));
+  };
+
+  // Moves everything on one tab onto another. The emptied tab is closed as
+  // cancelled with a pointer to where its items went, and its stock and
+  // payments follow the items.
+  const mergeTabs = (targetId: string, sourceId: string) => {
+    requirePermission('take_orders');
+    if (targetId === sourceId) return;
+    const target = requireOpenTab(targetId);
+    const source = requireOpenTab(sourceId);
+    const sourcePoints = source.loyalty?.pointsRedeemed || 0;
+    if (sourcePoints > 0 && source.customerId !== target.customerId) {
+      throw new TableError('Points were redeemed on that tab for another customer');
     }
+
+    const merged: Order = {
+      ...target,
+      payments: [...(target.payments || []), ...(source.payments || [])],
+      loyalty: target.loyalty || source.loyalty
+        ? { earnRate: target.loyalty?.earnRate ?? source.loyalty!.earnRate, pointsRedeemed: (target.loyalty?.pointsRedeemed || 0) + sourcePoints }
+        : undefined,
+    };
+    const updates = {
+      ...repriceOrder(merged, [...target.items, ...source.items], orderPricing),
+      payments: merged.payments,
+      loyalty: merged.loyalty,
+      amendments: [...(target.amendments || []), buildAmendment({ added: source.items, removed: [] }, staffId)],
+    };
+    write(createOutboxEntry('orders', 'update', targetId, { ...updates, ...buildLinesStatusUpdate(target, updates) }));
+    write(createOutboxEntry('orders', 'update', sourceId, {
+      mergedInto: targetId,
+      payments: [],
+      paymentStatus: 'Unpaid',
+      ...buildStatusUpdate(source, 'Cancelled', 'system', staffId),
+    }));
+
+    // The stock stays used; its movements are booked against the target so
+    // voiding that later puts everything back
+    const createdAt = new Date().toISOString();
+    getOrderStockBalance(stockMovements, sourceId).forEach((quantity, ingredientId) => {
+      if (quantity >= 0) return;
+      const movements: StockMovement[] = [
+        { id: generateUuid(), ingredientId, type: 'cancel', quantity: -quantity, orderId: sourceId, note: 'Merged tab', createdAt },
+        { id: generateUuid(), ingredientId, type: 'sale', quantity, orderId: targetId, note: 'Merged tab', createdAt },
+      ];
+      movements.forEach(movement => write(createOutboxEntry('stock_movements', 'upsert', movement.id, movement)));
+    });
   };
 
-  const toggleOrderItemPrepared = async (orderId: string, itemId: string) => {
+  const toggleOrderItemPrepared = (orderId: string, lineId: string) => {
     // We need to find the order, update the item, calculate new status, then save.
     const order = orders.find(o => o.id === orderId);
     if (!order) return;
 
     const updatedItems = order.items.map(item =>
-      item.id === itemId ? { ...item, isPrepared: !item.isPrepared } : item
+      getLineId(item) === lineId ? { ...item, isPrepared: !item.isPrepared } : item
     );
+    write(createOutboxEntry('orders', 'update', orderId, {
+      items: updatedItems,
+      ...buildStatusUpdate(order, derivePrepStatus(order, updatedItems), 'kitchen', staffId),
+    }));
+  };
 
-    const totalItems = updatedItems.length;
-    const preparedCount = updatedItems.filter(i => i.isPrepared).length;
+  const isAtStation = (item: CartItem, stationId?: string) => {
+    return !stationId || getItemStationId(item, settings.stations) === stationId;
+  };
 
-    let newStatus: Order['status'] = order.status;
-    if (order.status !== 'Cancelled' && order.status !== 'Picked Up') {
-      if (preparedCount === 0) {
-         newStatus = 'Pending';
-      } else if (preparedCount === totalItems) {
-        newStatus = 'Completed';
-      } else {
-        newStatus = 'Preparing';
+  // Marks every item on a ticket (or one station's part of it) as made
+  const bumpOrder = (orderId: string, stationId?: string) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order) return;
+    const updatedItems = order.items.map(item => isAtStation(item, stationId) ? { ...item, isPrepared: true } : item);
+    write(createOutboxEntry('orders', 'update', orderId, {
+      items: updatedItems,
+      ...buildStatusUpdate(order, derivePrepStatus(order, updatedItems), 'kitchen', staffId),
+    }));
+  };
+
+  // Brings a bumped ticket back to the kitchen display. A whole ticket comes
+  // back as it was; a station's part comes back with its items to make again.
+  const recallOrder = (orderId: string, stationId?: string) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order || order.status === 'Cancelled' || order.status === 'Picked Up') return;
+    if (!stationId) {
+      if (order.status === 'Completed') {
+        write(createOutboxEntry('orders', 'update', orderId, buildStatusUpdate(order, 'Preparing', 'kitchen', staffId)));
       }
+      return;
     }
+    const updatedItems = order.items.map(item => isAtStation(item, stationId) ? { ...item, isPrepared: false } : item);
+    write(createOutboxEntry('orders', 'update', orderId, {
+      items: updatedItems,
+      ...buildStatusUpdate(order, derivePrepStatus(order, updatedItems), 'kitchen', staffId),
+    }));
+  };
 
-    if (isRealtime && supabase) {
-      await supabase.from('orders').update({ 
-        items: updatedItems,
-        status: newStatus 
-      }).eq('id', orderId);
+  const openCashSession = (openingFloat: number) => {
+    requirePermission('manage_cash_drawer');
+    if (currentSession) return;
+    const session: CashSession = {
+      id: generateUuid(),
+      tillId,
+      openedAt: new Date().toISOString(),
+      openingFloat,
+      movements: [],
+    };
+    write(createOutboxEntry('cash_sessions', 'upsert', session.id, session));
+  };
+
+  const addCashMovement = (type: CashMovementType, amount: number, reason?: string) => {
+    requirePermission('manage_cash_drawer');
+    if (!currentSession) return;
+    const movement = { id: generateId(), type, amount, reason, createdAt: new Date().toISOString() };
+    write(createOutboxEntry('cash_sessions', 'update', currentSession.id, {
+      movements: [...currentSession.movements, movement],
+    }));
+  };
+
+  const closeCashSession = (countedCash: number, closingNote?: string) => {
+    requirePermission('manage_cash_drawer');
+    if (!currentSession) return;
+    write(createOutboxEntry('cash_sessions', 'update', currentSession.id, {
+      closedAt: new Date().toISOString(),
+      countedCash,
+      expectedCash: getExpectedCash(currentSession, orders),
+      closingNote,
+    }));
+  };
+
+  const addPromotion = (promotion: Omit<Promotion, 'id'>) => {
+    requirePermission('manage_promotions');
+    const newPromotion: Promotion = { ...promotion, id: generateUuid() };
+    write(createOutboxEntry('promotions', 'upsert', newPromotion.id, newPromotion));
+  };
+
+  const updatePromotion = (id: string, updates: Partial<Promotion>) => {
+    requirePermission('manage_promotions');
+    write(createOutboxEntry('promotions', 'update', id, updates));
+  };
+
+  const deletePromotion = (id: string) => {
+    requirePermission('manage_promotions');
+    write(createOutboxEntry('promotions', 'delete', id));
+  };
+
+  // Moves stock by the given signed quantities and logs a movement for each
+  const applyStockChanges = (changes: StockUsage, type: StockMovementType, orderId?: string, note?: string) => {
+    const createdAt = new Date().toISOString();
+    changes.forEach((quantity, ingredientId) => {
+      const ingredient = ingredients.find(i => i.id === ingredientId);
+      if (!ingredient || quantity === 0) return;
+
+      const movement: StockMovement = { id: generateUuid(), ingredientId, type, quantity, orderId, note, createdAt };
+      write(createOutboxEntry('stock_movements', 'move_stock', movement.id, movement));
+    });
+  };
+
+  const addIngredient = (ingredient: Omit<Ingredient, 'id'>) => {
+    requirePermission('manage_inventory');
+    const newIngredient: Ingredient = { ...ingredient, id: generateUuid() };
+    write(createOutboxEntry('ingredients', 'upsert', newIngredient.id, newIngredient));
+  };
+
+  const updateIngredient = (id: string, updates: Partial<Ingredient>) => {
+    requirePermission('manage_inventory');
+    write(createOutboxEntry('ingredients', 'update', id, updates));
+  };
+
+  const deleteIngredient = (id: string) => {
+    requirePermission('manage_inventory');
+    write(createOutboxEntry('ingredients', 'delete', id));
+  };
+
+  const adjustStock = (ingredientId: string, type: Exclude<StockMovementType, 'sale' | 'cancel'>, quantity: number, note?: string) => {
+    requirePermission('manage_inventory');
+    applyStockChanges(new Map([[ingredientId, quantity]]), type, undefined, note);
+  };
+
+  const updateSettings = (changes: Partial<Omit<StoreSettings, 'id'>>) => {
+    requirePermission('manage_settings');
+    const updated = resolveSettings({ ...settings, ...changes });
+    write(createOutboxEntry('settings', 'upsert', SETTINGS_ID, updated));
+  };
+
+  const rememberStaff = (id: string | null) => {
+    setCurrentStaffId(id);
+    if (id) {
+      localStorage.setItem(CURRENT_STAFF_KEY, id);
     } else {
-      setOrders(prev => prev.map(o => o.id === orderId ? { ...o, items: updatedItems, status: newStatus } : o));
+      localStorage.removeItem(CURRENT_STAFF_KEY);
     }
   };
 
+  // Backends that enforce permissions check the PIN themselves; the others
+  // hand tills the hashes to check against.
+  const signIn = async (id: string, pin: string) => {
+    const member = staff.find(s => s.id === id);
+    if (!member) return false;
+    // A new staff record has to reach the server before it can sign in there
+    if (backend.signIn) await flushOutbox();
+    if (!(await checkPin(member, pin, backend.signIn?.bind(backend)))) return false;
+
+    rememberStaff(id);
+    // Data hidden from the previous session is readable now
+    if (backend.signIn) syncNow();
+    return true;
+  };
+
+  const signOut = async () => {
+    rememberStaff(null);
+    if (!backend.signOut) return;
+    try {
+      await flushOutbox();
+      await backend.signOut();
+    } catch (err) {
+      console.error('Failed to end staff session on server', err);
+    }
+  };
+
+  // The very first staff member is created before anyone can sign in, and has
+  // to be an owner so someone can manage the rest
+  const addStaff = ({ name, role, pin }: { name: string; role: StaffRole; pin: string }) => {
+    if (staff.length > 0) {
+      requirePermission('manage_staff');
+    } else if (role !== 'owner') {
+      throw new PermissionError('manage_staff');
+    }
+    const id = generateUuid();
+    const member: StaffMember = { id, name, role, pinHash: hashPin(id, pin), active: true, createdAt: new Date().toISOString() };
+    write(createOutboxEntry('staff', 'upsert', id, member));
+    return member;
+  };
+
+  const updateStaff = (id: string, updates: Partial<Pick<StaffMember, 'name' | 'role' | 'active'>>, pin?: string) => {
+    requirePermission('manage_staff');
+    const demotesOwner = (updates.role && updates.role !== 'owner') || updates.active === false;
+    if (demotesOwner && isLastOwner(staff, id)) return;
+    write(createOutboxEntry('staff', 'update', id, pin ? { ...updates, pinHash: hashPin(id, pin) } : updates));
+  };
+
+  const deleteStaff = (id: string) => {
+    requirePermission('manage_staff');
+    if (isLastOwner(staff, id)) return;
+    write(createOutboxEntry('staff', 'delete', id));
+  };
+
+  const createBackup = () => {
+    requirePermission('manage_settings');
+    return buildBackup(tables, backend.kind, settings.shopName);
+  };
+
+  // Ids are adapted to this backend before comparing, so a backup from a
+  // local till previews the same way it will be written
+  const previewRestore = (backup: Backup, mode: RestoreMode) => {
+    return planRestore(tables, prepareBackupForBackend(backup, backend.kind), mode, staffId);
+  };
+
+  const restoreBackup = (plan: RestorePlan) => {
+    requirePermission('manage_settings');
+    plan.tables.forEach(({ table, upserts, removals }) => {
+      upserts.forEach(record => {
+        // Staff restored without a PIN hash are already here (see planRestore).
+        // An update leaves their PIN as it is where an upsert would need one.
+        const isWithoutPin = table === 'staff' && !(record as StaffMember).pinHash;
+        write(createOutboxEntry(table, isWithoutPin ? 'update' : 'upsert', record.id, record));
+      });
+      removals.forEach(id => write(createOutboxEntry(table, 'delete', id)));
+    });
+  };
+
   return (
     <StoreContext.Provider value={{
       menu,
@@ -242,11 +987,71 @@ export function StoreProvider({ children }: { children: ReactNode }) {
       addMenuItem,
       updateMenuItem,
       deleteMenuItem,
+      applyMenuChanges,
+      categories,
+      addCategory,
+      updateCategory,
+      reorderCategories,
+      deleteCategory,
+      customers,
+      addCustomer,
+      updateCustomer,
+      deleteCustomer,
+      getCustomerPoints,
+      diningTables,
+      addDiningTable,
+      updateDiningTable,
+      deleteDiningTable,
+      transferTab,
+      parkedCarts,
+      parkCart,
+      resumeParkedCart,
+      deleteParkedCart,
+      mergeTabs,
       deleteOrder,
       createOrder,
+      amendOrder,
       updateOrderStatus,
+      voidOrder,
+      refundOrder,
+      addPayment,
       toggleOrderItemPrepared,
-      isRealtime
+      bumpOrder,
+      recallOrder,
+      cashSessions,
+      tillId,
+      currentSession,
+      openCashSession,
+      addCashMovement,
+      closeCashSession,
+      promotions,
+      addPromotion,
+      updatePromotion,
+      deletePromotion,
+      ingredients,
+      stockMovements,
+      addIngredient,
+      updateIngredient,
+      deleteIngredient,
+      adjustStock,
+      settings,
+      updateSettings,
+      staff,
+      isLoaded,
+      currentStaff,
+      signIn,
+      signOut,
+      can,
+      addStaff,
+      updateStaff,
+      deleteStaff,
+      backendKind: backend.kind,
+      createBackup,
+      previewRestore,
+      restoreBackup,
+      isRealtime,
+      connectionStatus,
+      pendingSyncCount
     }}>
       {children}
     </StoreContext.Provider>
@@ -261,27 +1066,3 @@ export function useStore() {
   return context;
 }
 
-// Helpers to map DB snake_case to App camelCase
-function mapDbMenuItem(dbItem: any): MenuItem {
-  return {
-    id: dbItem.id,
-    name: dbItem.name,
-    basePrice: dbItem.base_price,
-    category: dbItem.category,
-    image: dbItem.image,
-    bundle: dbItem.bundle_config
-  };
-}
-
-function mapDbOrder(dbOrder: any): Order {
-  return {
-    id: dbOrder.id,
-    customerName: dbOrder.customer_name,
-    items: dbOrder.items,
-    total: dbOrder.total,
-    status: dbOrder.status,
-    paymentStatus: dbOrder.payment_status,
-    createdAt: dbOrder.created_at,
-    note: dbOrder.note
-  };
-}
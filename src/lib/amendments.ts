@@ -0,0 +1,87 @@
+import { AmendmentLine, CartItem, LoyaltySettings, MenuItem, Order, OrderAmendment, Promotion, TaxSettings } from '../types';
+import { getLineId } from '../utils';
+import { priceCart } from './promotions';
+import { calculateOrderTotals } from './totals';
+import { applyPointsRedemption } from './loyalty';
+import { derivePaymentStatus, getOrderPaymentStatus } from './payments';
+
+// Thrown when an order's lines cannot be changed, e.g. it was paid meanwhile
+export class AmendmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AmendmentError';
+  }
+}
+
+// An order can be reopened until it is paid in full, cancelled or collected
+export const isOrderOpen = (order: Order): boolean => {
+  return !order.voided
+    && order.status !== 'Cancelled'
+    && order.status !== 'Picked Up'
+    && getOrderPaymentStatus(order) !== 'Paid';
+};
+
+// Lines the kitchen has made stay on the order; taking them off is a void or refund
+export const isLineLocked = (item: CartItem): boolean => Boolean(item.isPrepared);
+
+const toAmendmentLine = (item: CartItem, quantity: number): AmendmentLine => ({
+  lineId: getLineId(item),
+  name: item.name,
+  quantity,
+});
+
+// What an edit adds and takes off, unit by unit. The lines come back with the
+// changed quantity so their stock can be worked out.
+export function diffOrderLines(before: CartItem[], after: CartItem[]): { added: CartItem[]; removed: CartItem[] } {
+  const added: CartItem[] = [];
+  const removed: CartItem[] = [];
+  after.forEach(item => {
+    const previous = before.find(i => getLineId(i) === getLineId(item));
+    const change = item.quantity - (previous?.quantity || 0);
+    if (change > 0) added.push({ ...item, quantity: change });
+    if (change < 0) removed.push({ ...item, quantity: -change });
+  });
+  before.forEach(item => {
+    if (!after.some(i => getLineId(i) === getLineId(item))) removed.push(item);
+  });
+  return { added, removed };
+}
+
+export const buildAmendment = (changes: { added: CartItem[]; removed: CartItem[] }, staffId?: string): OrderAmendment => ({
+  added: changes.added.map(item => toAmendmentLine(item, item.quantity)),
+  removed: changes.removed.map(item => toAmendmentLine(item, item.quantity)),
+  staffId,
+  at: new Date().toISOString(),
+});
+
+// When a line last had units added after the order was rung up, if ever
+export const getLineAddedAt = (order: Order, lineId: string): string | undefined => {
+  return [...(order.amendments || [])].reverse().find(a => a.added.some(l => l.lineId === lineId))?.at;
+};
+
+export const describeAmendmentLines = (lines: AmendmentLine[]): string => {
+  return lines.map(l => `${l.quantity}x ${l.name}`).join(', ');
+};
+
+export interface OrderPricing {
+  promotions: Promotion[];
+  menu: MenuItem[];
+  tax: TaxSettings;
+  loyalty: LoyaltySettings;
+  timeZone: string;
+}
+
+// Works an order's totals out again after its lines change, the way the till
+// priced them: promotions over every line, so a later round can complete a
+// bundle, then redeemed points, then service charge and tax.
+export function repriceOrder(order: Order, items: CartItem[], pricing: OrderPricing): Partial<Order> {
+  const promotionPricing = priceCart(items, pricing.promotions, pricing.menu, pricing.timeZone);
+  const priced = applyPointsRedemption(promotionPricing, order.loyalty?.pointsRedeemed || 0, pricing.loyalty);
+  const totals = calculateOrderTotals(items, priced, pricing.tax);
+  return {
+    items: items.map((item, index) => ({ ...item, discount: priced.lines[index].discount })),
+    ...totals,
+    appliedPromotions: priced.applied,
+    paymentStatus: derivePaymentStatus(totals.total, order.payments),
+  };
+}
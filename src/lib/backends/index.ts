@@ -0,0 +1,25 @@
+import { supabase } from '../supabase';
+import { StoreBackend } from './types';
+import { createSupabaseBackend } from './supabaseBackend';
+import { createLocalStorageBackend } from './localStorageBackend';
+import { createRestBackend } from './restBackend';
+
+export * from './types';
+export { createSupabaseBackend } from './supabaseBackend';
+export { createLocalStorageBackend } from './localStorageBackend';
+export { createRestBackend } from './restBackend';
+export { createMemoryBackend } from './memoryBackend';
+
+const posServerUrl = (import.meta as any).env.VITE_POS_SERVER_URL;
+
+// Picks the backend from the environment: the LAN server when its URL is set,
+// then Supabase when configured, otherwise this browser's localStorage.
+export function createDefaultBackend(): StoreBackend {
+  if (posServerUrl) {
+    return createRestBackend(posServerUrl);
+  }
+  if (supabase) {
+    return createSupabaseBackend(supabase);
+  }
+  return createLocalStorageBackend();
+}
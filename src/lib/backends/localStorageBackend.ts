@@ -0,0 +1,127 @@
+import { MenuItem } from '../../types';
+import { LEGACY_CATEGORIES } from '../categories';
+import { BackendChange, INSERT_POSITION, StoreBackend, TABLE_NAMES, TableName } from './types';
+import { diffRecords, incrementRecord, patchRecord, removeRecord, upsertRecord } from './records';
+
+type Identified = { id: string };
+
+export const LOCAL_STORAGE_KEYS: Record<TableName, string> = {
+  menu_items: 'pos_menu',
+  orders: 'pos_orders',
+  cash_sessions: 'pos_cash_sessions',
+  settings: 'pos_settings',
+  promotions: 'pos_promotions',
+  ingredients: 'pos_ingredients',
+  stock_movements: 'pos_stock_movements',
+  staff: 'pos_staff',
+  categories: 'pos_categories',
+  customers: 'pos_customers',
+  dining_tables: 'pos_dining_tables',
+  parked_carts: 'pos_parked_carts',
+};
+
+export const DEFAULT_MENU: MenuItem[] = [
+  {
+    id: '1',
+    name: 'Espresso',
+    basePrice: 25000,
+    category: 'Coffee',
+    bundle: { enabled: false, buyQuantity: 0, bundlePrice: 0, showPromoLabel: false }
+  },
+  {
+    id: '2',
+    name: 'Iced Latte',
+    basePrice: 35000,
+    category: 'Coffee',
+    bundle: { enabled: true, buyQuantity: 2, bundlePrice: 60000, showPromoLabel: true }
+  },
+  {
+    id: '3',
+    name: 'Croissant',
+    basePrice: 20000,
+    category: 'Food',
+    bundle: { enabled: true, buyQuantity: 3, bundlePrice: 50000, showPromoLabel: true }
+  },
+  {
+    id: '4',
+    name: 'Green Tea',
+    basePrice: 30000,
+    category: 'Tea',
+    bundle: { enabled: false, buyQuantity: 0, bundlePrice: 0, showPromoLabel: false }
+  }
+];
+
+// Data a fresh browser starts with, per table
+const SEEDS: Partial<Record<TableName, Identified[]>> = {
+  menu_items: DEFAULT_MENU,
+  categories: LEGACY_CATEGORIES,
+};
+
+const parse = (value: string | null): Identified[] | null => {
+  try {
+    return value ? JSON.parse(value) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Stores each table as a JSON array in its own localStorage key. Other tabs of
+// the same browser are kept in step through the `storage` event.
+export function createLocalStorageBackend(): StoreBackend {
+  const read = (table: TableName): Identified[] =>
+    parse(localStorage.getItem(LOCAL_STORAGE_KEYS[table])) ?? SEEDS[table] ?? [];
+
+  const write = (table: TableName, records: Identified[]) => {
+    localStorage.setItem(LOCAL_STORAGE_KEYS[table], JSON.stringify(records));
+  };
+
+  return {
+    kind: 'local',
+    isRemote: false,
+
+    async list(table) {
+      return read(table) as any;
+    },
+
+    async upsert(table, record) {
+      write(table, upsertRecord(read(table), record, INSERT_POSITION[table]));
+    },
+
+    async update(table, id, changes) {
+      write(table, patchRecord(read(table), id, changes));
+    },
+
+    async moveStock(movement) {
+      const movements = read('stock_movements');
+      if (movements.some(m => m.id === movement.id)) return;
+      write('stock_movements', upsertRecord(movements, movement, INSERT_POSITION.stock_movements));
+      write('ingredients', incrementRecord(read('ingredients'), movement.ingredientId, { onHand: movement.quantity }));
+    },
+
+    async remove(table, id) {
+      write(table, removeRecord(read(table), id));
+    },
+
+    async take(table, id) {
+      const records = read(table);
+      if (!records.some(r => r.id === id)) return false;
+      write(table, removeRecord(records, id));
+      return true;
+    },
+
+    subscribe(onChange, onStatus) {
+      const handleStorage = (event: StorageEvent) => {
+        const table = TABLE_NAMES.find(t => LOCAL_STORAGE_KEYS[t] === event.key);
+        if (!table) return;
+
+        const { upserted, removedIds } = diffRecords(parse(event.oldValue) ?? [], parse(event.newValue) ?? []);
+        upserted.forEach(record => onChange({ table, type: 'upsert', record } as BackendChange));
+        removedIds.forEach(id => onChange({ table, type: 'delete', id }));
+      };
+
+      window.addEventListener('storage', handleStorage);
+      onStatus?.('connected');
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+}
@@ -0,0 +1,223 @@
+import { CashSession, Category, Customer, DiningTable, Ingredient, MenuItem, Order, ParkedCart, Promotion, StaffMember, StockMovement, StoreSettings } from '../../types';
+import { StoreTables, TableName } from './types';
+
+// Maps every app field to its snake_case column. Listing all keys means adding a
+// field to a type fails to compile until its column is mapped here.
+type ColumnMap<T> = { [K in keyof T]-?: string };
+
+const MENU_ITEM_COLUMNS: ColumnMap<MenuItem> = {
+  id: 'id',
+  name: 'name',
+  basePrice: 'base_price',
+  category: 'category',
+  image: 'image',
+  bundle: 'bundle_config',
+  modifierGroups: 'modifier_groups',
+  recipe: 'recipe',
+  stationId: 'station_id',
+};
+
+const ORDER_COLUMNS: ColumnMap<Order> = {
+  id: 'id',
+  queueNumber: 'queue_number',
+  queueDate: 'queue_date',
+  orderType: 'order_type',
+  tableId: 'table_id',
+  tableName: 'table_name',
+  delivery: 'delivery',
+  mergedInto: 'merged_into',
+  customerName: 'customer_name',
+  customerId: 'customer_id',
+  loyalty: 'loyalty',
+  items: 'items',
+  subtotal: 'subtotal',
+  discountTotal: 'discount_total',
+  appliedPromotions: 'applied_promotions',
+  serviceCharge: 'service_charge',
+  taxes: 'taxes',
+  taxTotal: 'tax_total',
+  taxInclusive: 'tax_inclusive',
+  total: 'total',
+  status: 'status',
+  statusHistory: 'status_history',
+  amendments: 'amendments',
+  paymentStatus: 'payment_status',
+  payments: 'payments',
+  refunds: 'refunds',
+  voided: 'voided',
+  sessionId: 'session_id',
+  staffId: 'staff_id',
+  staffName: 'staff_name',
+  createdAt: 'created_at',
+  note: 'note',
+};
+
+const CASH_SESSION_COLUMNS: ColumnMap<CashSession> = {
+  id: 'id',
+  tillId: 'till_id',
+  openedAt: 'opened_at',
+  openingFloat: 'opening_float',
+  movements: 'movements',
+  closedAt: 'closed_at',
+  countedCash: 'counted_cash',
+  expectedCash: 'expected_cash',
+  closingNote: 'closing_note',
+};
+
+const SETTINGS_COLUMNS: ColumnMap<StoreSettings> = {
+  id: 'id',
+  shopName: 'shop_name',
+  timeZone: 'time_zone',
+  receipt: 'receipt',
+  tax: 'tax',
+  kitchen: 'kitchen',
+  stations: 'stations',
+  loyalty: 'loyalty',
+};
+
+const PROMOTION_COLUMNS: ColumnMap<Promotion> = {
+  id: 'id',
+  name: 'name',
+  type: 'type',
+  enabled: 'enabled',
+  scope: 'scope',
+  value: 'value',
+  valueKind: 'value_kind',
+  buyQuantity: 'buy_quantity',
+  getQuantity: 'get_quantity',
+  bundlePrice: 'bundle_price',
+  minSpend: 'min_spend',
+  schedule: 'schedule',
+  validFrom: 'valid_from',
+  validUntil: 'valid_until',
+  stackable: 'stackable',
+  priority: 'priority',
+};
+
+const INGREDIENT_COLUMNS: ColumnMap<Ingredient> = {
+  id: 'id',
+  name: 'name',
+  unit: 'unit',
+  onHand: 'on_hand',
+  lowStockThreshold: 'low_stock_threshold',
+  costPerUnit: 'cost_per_unit',
+};
+
+const STOCK_MOVEMENT_COLUMNS: ColumnMap<StockMovement> = {
+  id: 'id',
+  ingredientId: 'ingredient_id',
+  type: 'type',
+  quantity: 'quantity',
+  orderId: 'order_id',
+  note: 'note',
+  createdAt: 'created_at',
+};
+
+const STAFF_COLUMNS: ColumnMap<StaffMember> = {
+  id: 'id',
+  name: 'name',
+  role: 'role',
+  pinHash: 'pin_hash',
+  active: 'active',
+  createdAt: 'created_at',
+};
+
+const CATEGORY_COLUMNS: ColumnMap<Category> = {
+  id: 'id',
+  name: 'name',
+  color: 'color',
+  icon: 'icon',
+  position: 'position',
+  hidden: 'hidden',
+};
+
+const CUSTOMER_COLUMNS: ColumnMap<Customer> = {
+  id: 'id',
+  name: 'name',
+  phone: 'phone',
+  notes: 'notes',
+  createdAt: 'created_at',
+};
+
+const DINING_TABLE_COLUMNS: ColumnMap<DiningTable> = {
+  id: 'id',
+  name: 'name',
+  area: 'area',
+  seats: 'seats',
+  position: 'position',
+};
+
+const PARKED_CART_COLUMNS: ColumnMap<ParkedCart> = {
+  id: 'id',
+  label: 'label',
+  items: 'items',
+  orderType: 'order_type',
+  tableId: 'table_id',
+  delivery: 'delivery',
+  customerName: 'customer_name',
+  customerId: 'customer_id',
+  note: 'note',
+  staffId: 'staff_id',
+  createdAt: 'created_at',
+};
+
+const COLUMNS: { [T in TableName]: ColumnMap<StoreTables[T]> } = {
+  menu_items: MENU_ITEM_COLUMNS,
+  orders: ORDER_COLUMNS,
+  cash_sessions: CASH_SESSION_COLUMNS,
+  settings: SETTINGS_COLUMNS,
+  promotions: PROMOTION_COLUMNS,
+  ingredients: INGREDIENT_COLUMNS,
+  stock_movements: STOCK_MOVEMENT_COLUMNS,
+  staff: STAFF_COLUMNS,
+  categories: CATEGORY_COLUMNS,
+  customers: CUSTOMER_COLUMNS,
+  dining_tables: DINING_TABLE_COLUMNS,
+  parked_carts: PARKED_CART_COLUMNS,
+};
+
+// Column used to sort each table when it is listed
+export const TABLE_ORDERING: Record<TableName, { column: string; ascending: boolean }> = {
+  menu_items: { column: 'created_at', ascending: true },
+  orders: { column: 'created_at', ascending: false },
+  cash_sessions: { column: 'opened_at', ascending: false },
+  settings: { column: 'id', ascending: true },
+  promotions: { column: 'priority', ascending: false },
+  ingredients: { column: 'name', ascending: true },
+  stock_movements: { column: 'created_at', ascending: false },
+  staff: { column: 'name', ascending: true },
+  categories: { column: 'position', ascending: true },
+  customers: { column: 'name', ascending: true },
+  dining_tables: { column: 'position', ascending: true },
+  parked_carts: { column: 'created_at', ascending: true },
+};
+
+// Columns tills may write but not read back; see the staff grants in
+// supabase_schema.sql
+const WRITE_ONLY_COLUMNS: Partial<Record<TableName, string[]>> = {
+  staff: ['pin_hash'],
+};
+
+export const getSelectColumns = (table: TableName): string => {
+  const hidden = WRITE_ONLY_COLUMNS[table];
+  if (!hidden) return '*';
+  return Object.values(COLUMNS[table] as Record<string, string>).filter(column => !hidden.includes(column)).join(', ');
+};
+
+export function toDbRow<T extends TableName>(table: T, record: Partial<StoreTables[T]>): Record<string, any> {
+  const columns = COLUMNS[table] as Record<string, string>;
+  const row: Record<string, any> = {};
+  Object.entries(record).forEach(([key, value]) => {
+    if (value !== undefined && columns[key]) row[columns[key]] = value;
+  });
+  return row;
+}
+
+export function fromDbRow<T extends TableName>(table: T, row: Record<string, any>): StoreTables[T] {
+  const columns = COLUMNS[table] as Record<string, string>;
+  const record: Record<string, any> = {};
+  Object.entries(columns).forEach(([key, column]) => {
+    if (row[column] !== undefined && row[column] !== null) record[key] = row[column];
+  });
+  return record as StoreTables[T];
+}
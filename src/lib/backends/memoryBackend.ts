@@ -0,0 +1,59 @@
+import { BackendChange, INSERT_POSITION, StoreBackend, TableRecords, emptyTables } from './types';
+import { incrementRecord, patchRecord, removeRecord, upsertRecord } from './records';
+
+type Identified = { id: string };
+
+// Keeps everything in memory and notifies subscribers synchronously, which is
+// enough to exercise the store without a database.
+export function createMemoryBackend(seed: Partial<TableRecords> = {}): StoreBackend {
+  const tables: Record<string, Identified[]> = { ...emptyTables(), ...structuredClone(seed) };
+  const listeners = new Set<(change: BackendChange) => void>();
+  const emit = (change: BackendChange) => listeners.forEach(listener => listener(change));
+
+  return {
+    kind: 'memory',
+    isRemote: false,
+
+    async list(table) {
+      return structuredClone(tables[table]) as any;
+    },
+
+    async upsert(table, record) {
+      tables[table] = upsertRecord(tables[table], record, INSERT_POSITION[table]);
+      emit({ table, type: 'upsert', record } as BackendChange);
+    },
+
+    async update(table, id, changes) {
+      tables[table] = patchRecord(tables[table], id, changes);
+      const record = tables[table].find(r => r.id === id);
+      if (record) emit({ table, type: 'upsert', record } as BackendChange);
+    },
+
+    async moveStock(movement) {
+      if (tables.stock_movements.some(m => m.id === movement.id)) return;
+      await this.upsert('stock_movements', movement);
+      tables.ingredients = incrementRecord(tables.ingredients, movement.ingredientId, { onHand: movement.quantity });
+      const record = tables.ingredients.find(r => r.id === movement.ingredientId);
+      if (record) emit({ table: 'ingredients', type: 'upsert', record } as BackendChange);
+    },
+
+    async remove(table, id) {
+      tables[table] = removeRecord(tables[table], id);
+      emit({ table, type: 'delete', id });
+    },
+
+    async take(table, id) {
+      if (!tables[table].some(r => r.id === id)) return false;
+      await this.remove(table, id);
+      return true;
+    },
+
+    subscribe(onChange, onStatus) {
+      listeners.add(onChange);
+      onStatus?.('connected');
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+}
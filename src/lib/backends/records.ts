@@ -0,0 +1,36 @@
+// Immutable helpers for the `{ id }` record lists every table is made of.
+
+type Identified = { id: string };
+
+export function upsertRecord<T extends Identified>(records: T[], record: T, position: 'start' | 'end' = 'end'): T[] {
+  if (records.some(r => r.id === record.id)) {
+    return records.map(r => r.id === record.id ? record : r);
+  }
+  return position === 'start' ? [record, ...records] : [...records, record];
+}
+
+export function patchRecord<T extends Identified>(records: T[], id: string, changes: Partial<T>): T[] {
+  return records.map(r => r.id === id ? { ...r, ...changes } : r);
+}
+
+// Adds signed amounts to numeric fields, treating missing values as zero
+export function incrementRecord<T extends Identified>(records: T[], id: string, deltas: Record<string, number>): T[] {
+  return records.map(r => {
+    if (r.id !== id) return r;
+    const changes = Object.fromEntries(Object.entries(deltas).map(([key, delta]) => [key, ((r as any)[key] || 0) + delta]));
+    return { ...r, ...changes };
+  });
+}
+
+export function removeRecord<T extends Identified>(records: T[], id: string): T[] {
+  return records.filter(r => r.id !== id);
+}
+
+// Lists the records that were added, changed or removed between two snapshots
+export function diffRecords<T extends Identified>(before: T[], after: T[]) {
+  const previous = new Map(before.map(r => [r.id, JSON.stringify(r)]));
+  const upserted = after.filter(r => previous.get(r.id) !== JSON.stringify(r));
+  const afterIds = new Set(after.map(r => r.id));
+  const removedIds = before.filter(r => !afterIds.has(r.id)).map(r => r.id);
+  return { upserted, removedIds };
+}
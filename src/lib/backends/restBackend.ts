@@ -0,0 +1,93 @@
+import { BackendChange, BackendError, StoreBackend, TableName } from './types';
+import { fromDbRow, toDbRow } from './mappers';
+
+// Talks to the self-hosted Express + SQLite server in /server. Rows use the same
+// snake_case columns as Supabase, so the Supabase mappers are reused.
+export function createRestBackend(baseUrl: string): StoreBackend {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async (method: string, path: string, body?: unknown) => {
+    let response: Response;
+    try {
+      response = await fetch(`${root}/api/${path}`, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (err) {
+      throw new BackendError(err instanceof Error ? err.message : 'Network request failed', true);
+    }
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }));
+      // Server errors may clear up; a rejected request will not
+      throw new BackendError(error || `Request failed with ${response.status}`, response.status >= 500, response.status);
+    }
+    return response.status === 204 ? null : response.json();
+  };
+
+  // The server answers 404 when there was nothing to delete
+  const deleteRow = async (table: TableName, id: string): Promise<boolean> => {
+    try {
+      await request('DELETE', `${table}/${encodeURIComponent(id)}`);
+      return true;
+    } catch (err) {
+      if (err instanceof BackendError && err.status === 404) return false;
+      throw err;
+    }
+  };
+
+  return {
+    kind: 'server',
+    isRemote: true,
+
+    async list(table) {
+      const rows: Record<string, any>[] = await request('GET', table);
+      return rows.map(row => fromDbRow(table, row));
+    },
+
+    async upsert(table, record) {
+      await request('PUT', `${table}/${encodeURIComponent(record.id)}`, toDbRow(table, record));
+    },
+
+    async update(table, id, changes) {
+      await request('PATCH', `${table}/${encodeURIComponent(id)}`, toDbRow(table, changes));
+    },
+
+    async moveStock(movement) {
+      await request('POST', 'stock-movements', toDbRow('stock_movements', movement));
+    },
+
+    // Replaying a delete whose response was lost finds the row already gone
+    async remove(table, id) {
+      await deleteRow(table, id);
+    },
+
+    async take(table, id) {
+      return deleteRow(table, id);
+    },
+
+    async claimQueueNumber(date) {
+      const { queueNumber } = await request('POST', `queue-numbers/${date}`);
+      return queueNumber;
+    },
+
+    subscribe(onChange, onStatus) {
+      // EventSource reconnects by itself; we only report the transitions
+      const source = new EventSource(`${root}/api/changes`);
+      source.onopen = () => onStatus?.('connected');
+      source.onerror = () => onStatus?.('disconnected');
+      source.onmessage = (event) => {
+        const message = JSON.parse(event.data) as
+          | { table: TableName; type: 'upsert'; row: Record<string, any> }
+          | { table: TableName; type: 'delete'; id: string };
+
+        onChange(message.type === 'delete'
+          ? message
+          : { table: message.table, type: 'upsert', record: fromDbRow(message.table, message.row) } as BackendChange);
+      };
+
+      return () => source.close();
+    },
+  };
+}
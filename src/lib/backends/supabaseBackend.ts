@@ -0,0 +1,133 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BackendChange, BackendError, StoreBackend, TABLE_NAMES, TableName } from './types';
+import { TABLE_ORDERING, fromDbRow, getSelectColumns, toDbRow } from './mappers';
+
+// Supabase reports transport failures as errors without a Postgres/PostgREST code.
+// Anything with a code was rejected by the server and will not succeed on retry.
+const toBackendError = (error: { code?: string; message: string }): BackendError => {
+  const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+  return new BackendError(error.message, offline || !error.code);
+};
+
+export function createSupabaseBackend(client: SupabaseClient): StoreBackend {
+  // Row-level security only serves authenticated sessions, so each till signs
+  // in anonymously before its first request. Staff are then bound to that
+  // session with staff_sign_in (see supabase_schema.sql).
+  let session: Promise<void> | null = null;
+  const ensureSession = () => {
+    if (!session) {
+      session = (async () => {
+        const { data } = await client.auth.getSession();
+        if (data.session) return;
+        const { error } = await client.auth.signInAnonymously();
+        if (error) throw toBackendError(error);
+      })().catch(err => {
+        session = null;
+        throw err;
+      });
+    }
+    return session;
+  };
+
+  return {
+    kind: 'supabase',
+    isRemote: true,
+
+    async list(table) {
+      await ensureSession();
+      const { column, ascending } = TABLE_ORDERING[table];
+      const { data, error } = await client.from(table).select(getSelectColumns(table)).order(column, { ascending });
+      if (error) throw toBackendError(error);
+      return (data || []).map(row => fromDbRow(table, row));
+    },
+
+    // Inserts are upserts on the client-generated id, so replaying a write
+    // whose response was lost does not duplicate the row.
+    async upsert(table, record) {
+      await ensureSession();
+      const { error } = await client.from(table).upsert(toDbRow(table, record));
+      if (error) throw toBackendError(error);
+    },
+
+    async update(table, id, changes) {
+      await ensureSession();
+      const { error } = await client.from(table).update(toDbRow(table, changes)).eq('id', id);
+      if (error) throw toBackendError(error);
+    },
+
+    // One transaction on the server; see record_stock_movement in supabase_schema.sql
+    async moveStock(movement) {
+      await ensureSession();
+      const { error } = await client.rpc('record_stock_movement', { p_movement: toDbRow('stock_movements', movement) });
+      if (error) throw toBackendError(error);
+    },
+
+    async remove(table, id) {
+      await ensureSession();
+      const { error } = await client.from(table).delete().eq('id', id);
+      if (error) throw toBackendError(error);
+    },
+
+    // A single DELETE ... RETURNING: when two tills race, the second finds
+    // nothing left to delete
+    async take(table, id) {
+      await ensureSession();
+      const { data, error } = await client.from(table).delete().eq('id', id).select('id');
+      if (error) throw toBackendError(error);
+      return (data || []).length > 0;
+    },
+
+    async claimQueueNumber(date) {
+      await ensureSession();
+      const { data, error } = await client.rpc('claim_queue_number', { p_date: date });
+      if (error) throw toBackendError(error);
+      return data as number;
+    },
+
+    async signIn(staffId, pin) {
+      await ensureSession();
+      const { data, error } = await client.rpc('staff_sign_in', { p_staff_id: staffId, p_pin: pin });
+      if (error) throw toBackendError(error);
+      if (data !== true) throw new BackendError('Incorrect PIN', false);
+    },
+
+    async verifyPin(staffId, pin) {
+      await ensureSession();
+      const { data, error } = await client.rpc('check_staff_pin', { p_staff_id: staffId, p_pin: pin });
+      if (error) throw toBackendError(error);
+      if (data !== true) throw new BackendError('Incorrect PIN', false);
+    },
+
+    async signOut() {
+      await ensureSession();
+      const { error } = await client.rpc('staff_sign_out');
+      if (error) throw toBackendError(error);
+    },
+
+    // One channel for every table, so a (re)connect is reported once and the
+    // store reloads once rather than for each table
+    subscribe(onChange, onStatus) {
+      const channel = TABLE_NAMES.reduce((ch, table: TableName) =>
+        ch.on('postgres_changes', { event: '*', schema: 'public', table }, (payload) => {
+          const change: BackendChange = payload.eventType === 'DELETE'
+            ? { table, type: 'delete', id: (payload.old as { id: string }).id }
+            : { table, type: 'upsert', record: fromDbRow(table, payload.new) } as BackendChange;
+          onChange(change);
+        }),
+        client.channel('store_changes')
+      );
+
+      channel.subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          onStatus?.('connected');
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          onStatus?.('disconnected');
+        }
+      });
+
+      return () => {
+        channel.unsubscribe();
+      };
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import { CashSession, Category, Customer, DiningTable, Ingredient, MenuItem, Order, ParkedCart, Promotion, StaffMember, StockMovement, StoreSettings } from '../../types';
+
+// Every collection the store persists, keyed by its table name in the database.
+export interface StoreTables {
+  menu_items: MenuItem;
+  orders: Order;
+  cash_sessions: CashSession;
+  settings: StoreSettings;
+  promotions: Promotion;
+  ingredients: Ingredient;
+  stock_movements: StockMovement;
+  staff: StaffMember;
+  categories: Category;
+  customers: Customer;
+  dining_tables: DiningTable;
+  parked_carts: ParkedCart;
+}
+
+export type TableName = keyof StoreTables;
+
+export type TableRecords = { [T in TableName]: StoreTables[T][] };
+
+export type BackendKind = 'supabase' | 'server' | 'local' | 'memory';
+
+export type BackendChange =
+  | { [T in TableName]: { table: T; type: 'upsert'; record: StoreTables[T] } }[TableName]
+  | { table: TableName; type: 'delete'; id: string };
+
+export type BackendStatus = 'connected' | 'disconnected';
+
+export interface StoreBackend {
+  readonly kind: BackendKind;
+  // Remote backends are shared between tills and may be unreachable, so the
+  // store routes their writes through the offline outbox.
+  readonly isRemote: boolean;
+  list<T extends TableName>(table: T): Promise<StoreTables[T][]>;
+  upsert<T extends TableName>(table: T, record: StoreTables[T]): Promise<void>;
+  update<T extends TableName>(table: T, id: string, changes: Partial<StoreTables[T]>): Promise<void>;
+  // Saves a stock movement and adds its quantity to the ingredient's stock in
+  // one step. A movement saved before is skipped, so replays never count twice.
+  moveStock(movement: StockMovement): Promise<void>;
+  remove(table: TableName, id: string): Promise<void>;
+  // Deletes a row and resolves true only if this call removed it, so when two
+  // tills take the same row at once exactly one of them gets it
+  take(table: TableName, id: string): Promise<boolean>;
+  subscribe(onChange: (change: BackendChange) => void, onStatus?: (status: BackendStatus) => void): () => void;
+  // Backends that enforce staff permissions themselves are told who is using
+  // the till. Rejects with a non-retryable BackendError for a wrong PIN.
+  signIn?(staffId: string, pin: string): Promise<void>;
+  signOut?(): Promise<void>;
+  // Checks a PIN without signing anyone in, e.g. a manager approving a refund.
+  // Present on backends that do not hand PIN hashes to tills.
+  verifyPin?(staffId: string, pin: string): Promise<void>;
+  // Hands out the next queue number for a shop day ('YYYY-MM-DD'), never the
+  // same one twice across tills. Backends without it serve a single till,
+  // which counts for itself.
+  claimQueueNumber?(date: string): Promise<number>;
+}
+
+// Thrown by backends when a read or write fails. `retryable` is true for
+// transport problems, false when the data itself was rejected. HTTP backends
+// also pass on the response status.
+export class BackendError extends Error {
+  constructor(message: string, public readonly retryable: boolean, public readonly status?: number) {
+    super(message);
+    this.name = 'BackendError';
+  }
+}
+
+export const TABLE_NAMES: TableName[] = ['menu_items', 'orders', 'cash_sessions', 'settings', 'promotions', 'ingredients', 'stock_movements', 'staff', 'categories', 'customers', 'dining_tables', 'parked_carts'];
+
+// Where newly inserted records appear in the in-memory lists
+export const INSERT_POSITION: Record<TableName, 'start' | 'end'> = {
+  menu_items: 'end',
+  orders: 'start',
+  cash_sessions: 'start',
+  settings: 'end',
+  promotions: 'end',
+  ingredients: 'end',
+  stock_movements: 'start',
+  staff: 'end',
+  categories: 'end',
+  customers: 'end',
+  dining_tables: 'end',
+  parked_carts: 'end',
+};
+
+export const emptyTables = (): TableRecords => ({
+  menu_items: [],
+  orders: [],
+  cash_sessions: [],
+  settings: [],
+  promotions: [],
+  ingredients: [],
+  stock_movements: [],
+  staff: [],
+  categories: [],
+  customers: [],
+  dining_tables: [],
+  parked_carts: [],
+});
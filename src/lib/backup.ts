@@ -0,0 +1,286 @@
+import { Order, StaffMember } from '../types';
+import { BackendKind, StoreTables, TABLE_NAMES, TableName, TableRecords } from './backends/types';
+import { LOCAL_STORAGE_KEYS } from './backends/localStorageBackend';
+import { SETTINGS_ID, resolveSettings } from './settings';
+import { ITEM_BUNDLE_PREFIX } from './promotions';
+import { sha256Hex } from './sha256';
+
+export const BACKUP_FORMAT = 'nasi-bupar-pos-backup';
+
+// Bump when the shape of a backup changes, and add a migration from the
+// previous version below so older files keep loading
+export const BACKUP_VERSION = 1;
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  shopName: string;
+  source: BackendKind;
+  tables: Partial<TableRecords>;
+}
+
+// Thrown when a file cannot be restored at all
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export const BACKUP_TABLE_LABELS: Record<TableName, string> = {
+  menu_items: 'Menu items',
+  orders: 'Orders',
+  cash_sessions: 'Cash drawer sessions',
+  settings: 'Settings',
+  promotions: 'Promotions',
+  ingredients: 'Ingredients',
+  stock_movements: 'Stock movements',
+  staff: 'Staff',
+  categories: 'Categories',
+  customers: 'Customers',
+  dining_tables: 'Tables',
+  parked_carts: 'Parked carts',
+};
+
+export interface TableRestorePlan {
+  table: TableName;
+  upserts: { id: string }[];
+  removals: string[];
+  added: number;
+  updated: number;
+  unchanged: number;
+}
+
+export interface RestorePlan {
+  backup: Backup;
+  mode: RestoreMode;
+  tables: TableRestorePlan[];
+  // Staff left out because the backup has no PIN for them
+  staffWithoutPin: StaffMember[];
+}
+
+type Migration = (data: any) => any;
+
+// Each entry upgrades a backup from the version it is keyed by to the next one
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 0 is a plain copy of this browser's localStorage keys, as people
+  // saved by hand before backups existed. Values may still be JSON strings.
+  0: (data) => ({
+    format: BACKUP_FORMAT,
+    version: 1,
+    createdAt: new Date().toISOString(),
+    shopName: '',
+    source: 'local',
+    tables: Object.fromEntries(
+      TABLE_NAMES
+        .filter(table => data[LOCAL_STORAGE_KEYS[table]] !== undefined)
+        .map(table => {
+          const value = data[LOCAL_STORAGE_KEYS[table]];
+          return [table, typeof value === 'string' ? JSON.parse(value) : value];
+        })
+    ),
+  }),
+};
+
+export const createBackup = (tables: TableRecords, source: BackendKind, shopName: string): Backup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  createdAt: new Date().toISOString(),
+  shopName,
+  source,
+  tables,
+});
+
+const getVersion = (data: any): number => {
+  if (data?.format === BACKUP_FORMAT) return Number(data.version);
+  if (data && typeof data === 'object' && TABLE_NAMES.some(table => LOCAL_STORAGE_KEYS[table] in data)) return 0;
+  throw new BackupError('This is not a POS backup file');
+};
+
+export const parseBackup = (text: string): Backup => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupError('The file is not valid JSON');
+  }
+
+  let version = getVersion(data);
+  if (!Number.isInteger(version) || version > BACKUP_VERSION) {
+    throw new BackupError(`This backup was made by a newer version of the app (format ${data.version}). Update the app before restoring it.`);
+  }
+  try {
+    while (version < BACKUP_VERSION) {
+      data = MIGRATIONS[version](data);
+      version += 1;
+    }
+  } catch {
+    throw new BackupError('The backup could not be upgraded to the current format');
+  }
+
+  // Unknown tables are ignored, and every record needs an id
+  const tables: Partial<TableRecords> = {};
+  TABLE_NAMES.forEach(table => {
+    const records = data.tables?.[table];
+    if (records === undefined) return;
+    if (!Array.isArray(records) || records.some(r => !r || typeof r.id !== 'string')) {
+      throw new BackupError(`${BACKUP_TABLE_LABELS[table]} in the backup are damaged`);
+    }
+    (tables as any)[table] = records;
+  });
+  return { ...data, tables };
+};
+
+export const getBackupFileName = (backup: Backup): string => {
+  return `pos-backup_${backup.createdAt.slice(0, 19).replace(/[T:]/g, '-')}.json`;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Backends whose tables use uuid keys. Staff are left alone: their PIN hashes
+// are salted with the id, and staff have always been created with uuids.
+const UUID_BACKENDS: BackendKind[] = ['supabase'];
+const UUID_TABLES: TableName[] = ['menu_items', 'orders', 'cash_sessions', 'promotions', 'ingredients', 'stock_movements', 'customers', 'dining_tables', 'parked_carts'];
+
+// A uuid worked out from the table and old id (the name-based version 8
+// layout, over SHA-256). Restoring the same backup twice gives the same ids,
+// so a merge matches the records instead of adding them again.
+const deriveUuid = (table: TableName, id: string): string => {
+  const hex = sha256Hex(`${table}:${id}`);
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-8${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
+// Older local data used short ids such as '1'. Moving it to a backend with
+// uuid keys gives those records new ids and rewrites every reference to them.
+export const prepareBackupForBackend = (backup: Backup, target: BackendKind): Backup => {
+  if (!UUID_BACKENDS.includes(target)) return backup;
+
+  const idMaps = Object.fromEntries(UUID_TABLES.map(table => {
+    const ids = (backup.tables[table] || []).map(r => r.id).filter(id => !UUID_PATTERN.test(id));
+    return [table, new Map(ids.map(id => [id, deriveUuid(table, id)]))];
+  })) as Record<string, Map<string, string>>;
+  if (Object.values(idMaps).every(map => map.size === 0)) return backup;
+
+  const remap = (table: TableName, id?: string) => (id && idMaps[table].get(id)) || id;
+  // Item bundles are applied under a promotion id made from the menu item id
+  const remapPromotionId = (id: string) => id.startsWith(ITEM_BUNDLE_PREFIX)
+    ? `${ITEM_BUNDLE_PREFIX}${remap('menu_items', id.slice(ITEM_BUNDLE_PREFIX.length))}`
+    : remap('promotions', id)!;
+  const t = backup.tables;
+
+  const tables: Partial<TableRecords> = { ...t };
+  if (t.menu_items) {
+    tables.menu_items = t.menu_items.map(item => ({
+      ...item,
+      id: remap('menu_items', item.id)!,
+      recipe: item.recipe?.map(line => ({ ...line, ingredientId: remap('ingredients', line.ingredientId)! })),
+    }));
+  }
+  if (t.promotions) {
+    tables.promotions = t.promotions.map(promotion => ({
+      ...promotion,
+      id: remap('promotions', promotion.id)!,
+      scope: { ...promotion.scope, itemIds: promotion.scope.itemIds.map(id => remap('menu_items', id)!) },
+    }));
+  }
+  if (t.ingredients) {
+    tables.ingredients = t.ingredients.map(ingredient => ({ ...ingredient, id: remap('ingredients', ingredient.id)! }));
+  }
+  if (t.customers) {
+    tables.customers = t.customers.map(customer => ({ ...customer, id: remap('customers', customer.id)! }));
+  }
+  if (t.dining_tables) {
+    tables.dining_tables = t.dining_tables.map(table => ({ ...table, id: remap('dining_tables', table.id)! }));
+  }
+  if (t.parked_carts) {
+    tables.parked_carts = t.parked_carts.map(cart => ({
+      ...cart,
+      id: remap('parked_carts', cart.id)!,
+      tableId: remap('dining_tables', cart.tableId),
+      customerId: remap('customers', cart.customerId),
+      items: cart.items.map(item => ({ ...item, id: remap('menu_items', item.id)! })),
+    }));
+  }
+  if (t.cash_sessions) {
+    tables.cash_sessions = t.cash_sessions.map(session => ({ ...session, id: remap('cash_sessions', session.id)! }));
+  }
+  if (t.stock_movements) {
+    tables.stock_movements = t.stock_movements.map(movement => ({
+      ...movement,
+      id: remap('stock_movements', movement.id)!,
+      ingredientId: remap('ingredients', movement.ingredientId)!,
+      orderId: remap('orders', movement.orderId),
+    }));
+  }
+  if (t.orders) {
+    tables.orders = t.orders.map((order): Order => ({
+      ...order,
+      id: remap('orders', order.id)!,
+      sessionId: remap('cash_sessions', order.sessionId),
+      customerId: remap('customers', order.customerId),
+      tableId: remap('dining_tables', order.tableId),
+      mergedInto: remap('orders', order.mergedInto),
+      // Lines without their own id were keyed by the menu item id; pin that
+      // down so refunds recorded against the old key still match
+      items: order.items.map(item => ({ ...item, lineId: item.lineId ?? item.id, id: remap('menu_items', item.id)! })),
+      appliedPromotions: order.appliedPromotions?.map(p => ({ ...p, promotionId: remapPromotionId(p.promotionId) })),
+      payments: order.payments?.map(p => ({ ...p, sessionId: remap('cash_sessions', p.sessionId) })),
+      refunds: order.refunds?.map(r => ({ ...r, sessionId: remap('cash_sessions', r.sessionId) })),
+    }));
+  }
+  return { ...backup, tables };
+};
+
+// Undefined fields drop out, so a record read back unchanged compares equal
+const fingerprint = (record: unknown) => JSON.stringify(record);
+
+// Merge adds and updates; replace also removes what the backup does not have.
+// Orders are never removed, so a restore cannot erase the money trail, and the
+// staff member doing the restore is kept so they are not signed out mid-way.
+//
+// Supabase never hands out PIN hashes, so its backups hold staff without them.
+// Staff who are already here keep the PIN they have. New ones could never sign
+// in, and Supabase refuses a staff row without a PIN, so they are left out.
+export const planRestore = (
+  current: TableRecords,
+  backup: Backup,
+  mode: RestoreMode,
+  keepStaffId?: string
+): RestorePlan => {
+  const currentStaff = new Map(current.staff.map(s => [s.id, s] as const));
+  const staffWithoutPin = (backup.tables.staff || []).filter(s => !s.pinHash && !currentStaff.has(s.id));
+
+  const tables = TABLE_NAMES
+    .filter(table => backup.tables[table] !== undefined)
+    .map(table => {
+      let incoming = backup.tables[table] as { id: string }[];
+      if (table === 'settings') {
+        incoming = incoming.filter(s => s.id === SETTINGS_ID).map(s => resolveSettings(s as StoreTables['settings']));
+      }
+      if (table === 'staff') {
+        incoming = (incoming as StaffMember[])
+          .filter(s => !staffWithoutPin.includes(s))
+          .map(s => s.pinHash ? s : { ...s, pinHash: currentStaff.get(s.id)?.pinHash });
+      }
+      const existing = new Map<string, unknown>((current[table] as { id: string }[]).map(r => [r.id, r] as const));
+      const incomingIds = new Set(incoming.map(r => r.id));
+      const upserts = incoming.filter(r => !existing.has(r.id) || fingerprint(existing.get(r.id)) !== fingerprint(r));
+      const removals = mode === 'replace' && table !== 'orders'
+        ? (current[table] as { id: string }[]).map(r => r.id).filter(id => !incomingIds.has(id) && !(table === 'staff' && id === keepStaffId))
+        : [];
+      const added = upserts.filter(r => !existing.has(r.id)).length;
+      return {
+        table,
+        upserts,
+        removals,
+        added,
+        updated: upserts.length - added,
+        unchanged: incoming.length - upserts.length,
+      };
+    });
+  return { backup, mode, tables, staffWithoutPin };
+};
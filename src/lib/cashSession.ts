@@ -0,0 +1,110 @@
+import { CashMovement, CashMovementType, CashSession, Order, PaymentMethod } from '../types';
+import { PAYMENT_METHODS, getOrderBalanceDue } from './payments';
+import { generateUuid } from '../utils';
+
+export const CASH_MOVEMENT_TYPES: CashMovementType[] = ['Pay In', 'Payout', 'Drop'];
+
+export interface ZReport {
+  openingFloat: number;
+  cashSales: number;
+  cashRefunds: number;
+  payIns: number;
+  payouts: number;
+  drops: number;
+  expectedCash: number;
+  countedCash?: number;
+  variance?: number;
+  orderCount: number;
+  cancelledCount: number;
+  grossSales: number;
+  unpaidTotal: number;
+  refunds: number;
+  salesByMethod: Record<PaymentMethod, number>;
+}
+
+const TILL_ID_KEY = 'pos_till_id';
+
+// Identifies this device's cash drawer. Each till keeps its own, so tills
+// sharing a backend still open, count and close their drawers separately.
+export const getTillId = (): string => {
+  let id = localStorage.getItem(TILL_ID_KEY);
+  if (!id) {
+    id = generateUuid();
+    localStorage.setItem(TILL_ID_KEY, id);
+  }
+  return id;
+};
+
+// Sessions opened before tills were told apart have no till; any till may
+// close one so it is not stranded.
+export const getOpenSession = (sessions: CashSession[], tillId: string): CashSession | undefined => {
+  return sessions.find(s => !s.closedAt && (s.tillId === tillId || !s.tillId));
+};
+
+const sumMovements = (movements: CashMovement[], type: CashMovementType): number => {
+  return movements.filter(m => m.type === type).reduce((sum, m) => sum + m.amount, 0);
+};
+
+// Tenders are attributed to the session they were taken in, which is not
+// necessarily the one the order was rung up in.
+const getSessionTenders = (session: CashSession, orders: Order[]) => {
+  return orders.flatMap(o => (o.payments || []).filter(p => p.sessionId === session.id));
+};
+
+// Like tenders, refunds belong to the session whose drawer paid them out
+const getSessionRefunds = (session: CashSession, orders: Order[]) => {
+  return orders.flatMap(o => (o.refunds || []).filter(r => r.sessionId === session.id));
+};
+
+const getCashRefunds = (session: CashSession, orders: Order[]): number => {
+  return getSessionRefunds(session, orders)
+    .filter(r => r.method === 'Cash')
+    .reduce((sum, r) => sum + r.amount, 0);
+};
+
+export const getExpectedCash = (session: CashSession, orders: Order[]): number => {
+  const cashSales = getSessionTenders(session, orders)
+    .filter(p => p.method === 'Cash')
+    .reduce((sum, p) => sum + p.amount, 0);
+  const { movements } = session;
+
+  return session.openingFloat
+    + cashSales
+    - getCashRefunds(session, orders)
+    + sumMovements(movements, 'Pay In')
+    - sumMovements(movements, 'Payout')
+    - sumMovements(movements, 'Drop');
+};
+
+export const buildZReport = (session: CashSession, orders: Order[]): ZReport => {
+  const sessionOrders = orders.filter(o => o.sessionId === session.id);
+  const activeOrders = sessionOrders.filter(o => o.status !== 'Cancelled');
+
+  const salesByMethod = Object.fromEntries(PAYMENT_METHODS.map(m => [m, 0])) as Record<PaymentMethod, number>;
+  getSessionTenders(session, orders).forEach(p => {
+    salesByMethod[p.method] += p.amount;
+  });
+
+  // A closed session keeps the figure the cashier reconciled against
+  const expectedCash = session.closedAt && session.expectedCash !== undefined
+    ? session.expectedCash
+    : getExpectedCash(session, orders);
+
+  return {
+    openingFloat: session.openingFloat,
+    cashSales: salesByMethod.Cash,
+    cashRefunds: getCashRefunds(session, orders),
+    payIns: sumMovements(session.movements, 'Pay In'),
+    payouts: sumMovements(session.movements, 'Payout'),
+    drops: sumMovements(session.movements, 'Drop'),
+    expectedCash,
+    countedCash: session.countedCash,
+    variance: session.countedCash !== undefined ? session.countedCash - expectedCash : undefined,
+    orderCount: activeOrders.length,
+    cancelledCount: sessionOrders.length - activeOrders.length,
+    grossSales: activeOrders.reduce((sum, o) => sum + o.total, 0),
+    unpaidTotal: activeOrders.reduce((sum, o) => sum + getOrderBalanceDue(o), 0),
+    refunds: getSessionRefunds(session, orders).reduce((sum, r) => sum + r.amount, 0),
+    salesByMethod,
+  };
+};
@@ -0,0 +1,61 @@
+import { Category, CategoryColor, CategoryIcon, MenuItem } from '../types';
+
+// Thrown when a category cannot be changed as asked
+export class CategoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CategoryError';
+  }
+}
+
+export const CATEGORY_COLORS: CategoryColor[] = ['orange', 'amber', 'green', 'teal', 'blue', 'purple', 'pink', 'red', 'gray'];
+
+export const CATEGORY_ICONS: CategoryIcon[] = [
+  'coffee', 'leaf', 'cup', 'glass', 'citrus', 'utensils', 'rice', 'soup', 'drumstick',
+  'beef', 'fish', 'egg', 'sandwich', 'cake', 'ice-cream', 'cookie', 'flame', 'star', 'package',
+];
+
+// The categories the app shipped with before they could be edited. Their names
+// are their ids, which is what older menu items, promotions, stations and tax
+// rates hold, so those records keep matching without being rewritten.
+export const LEGACY_CATEGORIES: Category[] = [
+  { id: 'Coffee', name: 'Coffee', color: 'amber', icon: 'coffee', position: 0, hidden: false },
+  { id: 'Tea', name: 'Tea', color: 'green', icon: 'leaf', position: 1, hidden: false },
+  { id: 'Food', name: 'Food', color: 'orange', icon: 'utensils', position: 2, hidden: false },
+  { id: 'Dessert', name: 'Dessert', color: 'pink', icon: 'cake', position: 3, hidden: false },
+  { id: 'Other', name: 'Other', color: 'gray', icon: 'package', position: 4, hidden: false },
+];
+
+export const sortCategories = (categories: Category[]): Category[] => {
+  return [...categories].sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+};
+
+// Stored categories, plus one for every value menu items use that has no
+// record: the original fixed categories on databases from before categories
+// were stored, or a category another till has not synced yet. Saving any of
+// them stores it like the rest.
+export const resolveCategories = (stored: Category[], menu: Pick<MenuItem, 'category'>[]): Category[] => {
+  const known = new Set(stored.map(c => c.id));
+  const missing = Array.from(new Set(menu.map(item => item.category)))
+    .filter(id => id && !known.has(id))
+    .map((id, index): Category => LEGACY_CATEGORIES.find(c => c.id === id) ?? {
+      id,
+      name: id,
+      color: 'gray',
+      icon: 'package',
+      position: stored.length + LEGACY_CATEGORIES.length + index,
+      hidden: false,
+    });
+  return sortCategories([...stored, ...missing]);
+};
+
+// Ids outlive renames; old order lines may point at a category that is gone
+export const getCategoryName = (categories: Category[], id: string): string => {
+  return categories.find(c => c.id === id)?.name ?? id;
+};
+
+// Matches an id first, then a name in any case, as typed into a spreadsheet
+export const findCategory = (categories: Category[], value: string): Category | undefined => {
+  const key = value.trim().toLowerCase();
+  return categories.find(c => c.id === value) ?? categories.find(c => c.name.trim().toLowerCase() === key);
+};
@@ -0,0 +1,64 @@
+import { Cell } from './xlsx';
+
+// Spreadsheets run text starting with these as a formula. Names and notes
+// typed at the till are written with a leading apostrophe instead, which
+// spreadsheets show as plain text; numbers are left as they are.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: Cell): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Starts with a byte order mark so Excel opens it as UTF-8
+export const toCsv = (columns: string[], rows: Cell[][]): string => {
+  return '\ufeff' + [columns, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+};
+
+// RFC 4180 style: quoted fields may hold commas, quotes and line breaks.
+// Blank lines are skipped, and the apostrophe toCsv puts before formula-like
+// text is taken off again.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\ufeff/, '');
+
+  const endField = () => {
+    row.push(field.startsWith("'") && FORMULA_START.test(field.slice(1)) ? field.slice(1) : field);
+    field = '';
+  };
+
+  const endRow = () => {
+    endField();
+    if (row.some(value => value !== '')) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
@@ -0,0 +1,186 @@
+import { Category, Order, PaymentMethod } from '../types';
+import { getLineId, getModifierDelta, getOrderLabel } from '../utils';
+import { describeModifiers } from './modifiers';
+import { getLineGross } from './promotions';
+import { PAYMENT_METHODS, getAmountPaid, getOrderPaymentStatus } from './payments';
+import { REFUND_REASON_LABELS, getRefundedAmount, getRefundedQuantity } from './refunds';
+import { ReportRange } from './reports';
+import { Sheet, buildXlsx } from './xlsx';
+import { toCsv } from './csv';
+import { getCategoryName } from './categories';
+import { formatParts, getShopDate } from './shopTime';
+
+export type ExportFormat = 'csv' | 'xlsx';
+export type ExportKind = 'orders' | 'items' | 'daily';
+
+export const EXPORT_KINDS: { id: ExportKind; label: string; description: string }[] = [
+  { id: 'orders', label: 'Orders', description: 'One row per order with totals, payments and refunds' },
+  { id: 'items', label: 'Line Items', description: 'One row per item sold, with quantity, unit price and total after promotions' },
+  { id: 'daily', label: 'Daily Summary', description: 'One row per day with sales, tax, refunds and payment methods' },
+];
+
+// 'YYYY-MM-DD HH:mm:ss' in the shop's time zone, which spreadsheets read as a date
+export const formatShopTimestamp = (timestamp: string | undefined, timeZone: string): string => {
+  if (!timestamp) return '';
+  const { date, time } = formatParts(timestamp, timeZone);
+  return `${date} ${time}`;
+};
+
+const isInShopRange = (timestamp: string, range: ReportRange, timeZone: string): boolean => {
+  const date = getShopDate(timestamp, timeZone);
+  return date >= range.from && date <= range.to;
+};
+
+const isSale = (order: Order) => order.status === 'Completed' || order.status === 'Picked Up';
+
+const getPaymentMethods = (order: Order): string => {
+  return Array.from(new Set((order.payments || []).map(p => p.method))).join(', ');
+};
+
+export const buildOrdersSheet = (orders: Order[], range: ReportRange, timeZone: string): Sheet => ({
+  name: 'Orders',
+  columns: [
+    'Order ID', 'Order No.', 'Created At', 'Customer', 'Staff', 'Status', 'Payment Status', 'Items',
+    'Subtotal', 'Discount', 'Service Charge', 'Tax', 'Total', 'Paid', 'Refunded', 'Payment Methods', 'Void Reason', 'Note',
+  ],
+  rows: orders
+    .filter(o => isInShopRange(o.createdAt, range, timeZone))
+    .map(order => [
+      order.id,
+      getOrderLabel(order),
+      formatShopTimestamp(order.createdAt, timeZone),
+      order.customerName,
+      order.staffName,
+      order.status,
+      getOrderPaymentStatus(order),
+      order.items.reduce((sum, i) => sum + i.quantity, 0),
+      order.subtotal ?? order.items.reduce((sum, i) => sum + getLineGross(i), 0),
+      order.discountTotal || 0,
+      order.serviceCharge || 0,
+      order.taxTotal || 0,
+      order.total,
+      order.payments ? getAmountPaid(order.payments) : (order.paymentStatus === 'Paid' ? order.total : 0),
+      getRefundedAmount(order),
+      getPaymentMethods(order),
+      order.voided ? REFUND_REASON_LABELS[order.voided.reason] : '',
+      order.note,
+    ]),
+});
+
+export const buildLineItemsSheet = (orders: Order[], range: ReportRange, timeZone: string, categories: Category[]): Sheet => ({
+  name: 'Line Items',
+  columns: [
+    'Order ID', 'Order No.', 'Created At', 'Status', 'Item ID', 'Item', 'Category', 'Modifiers',
+    'Quantity', 'Unit Price', 'Gross', 'Promotion Discount', 'Line Total', 'Refunded Qty', 'Note',
+  ],
+  rows: orders
+    .filter(o => isInShopRange(o.createdAt, range, timeZone))
+    .flatMap(order => order.items.map(item => {
+      const gross = getLineGross(item);
+      return [
+        order.id,
+        getOrderLabel(order),
+        formatShopTimestamp(order.createdAt, timeZone),
+        order.status,
+        item.id,
+        item.name,
+        getCategoryName(categories, item.category),
+        describeModifiers(item.modifiers),
+        item.quantity,
+        item.basePrice + getModifierDelta(item.modifiers),
+        gross,
+        item.discount || 0,
+        gross - (item.discount || 0),
+        getRefundedQuantity(order, getLineId(item)),
+        item.note,
+      ];
+    })),
+});
+
+// Sales are counted on the day the order was placed, refunds on the day the
+// money went back, matching the reports view
+export const buildDailySummarySheet = (orders: Order[], range: ReportRange, timeZone: string): Sheet => {
+  const days = new Map<string, { orders: number; completed: number; cancelled: number; gross: number; discounts: number; service: number; tax: number; refunds: number; methods: Record<PaymentMethod, number> }>();
+  const dayFor = (date: string) => {
+    if (!days.has(date)) {
+      days.set(date, {
+        orders: 0, completed: 0, cancelled: 0, gross: 0, discounts: 0, service: 0, tax: 0, refunds: 0,
+        methods: Object.fromEntries(PAYMENT_METHODS.map(m => [m, 0])) as Record<PaymentMethod, number>,
+      });
+    }
+    return days.get(date)!;
+  };
+
+  orders.forEach(order => {
+    if (isInShopRange(order.createdAt, range, timeZone)) {
+      const day = dayFor(getShopDate(order.createdAt, timeZone));
+      day.orders += 1;
+      if (order.status === 'Cancelled') day.cancelled += 1;
+      if (isSale(order)) {
+        day.completed += 1;
+        day.gross += order.total;
+        day.discounts += order.discountTotal || 0;
+        day.service += order.serviceCharge || 0;
+        day.tax += order.taxTotal || 0;
+        (order.payments || []).forEach(p => {
+          day.methods[p.method] += p.amount;
+        });
+      }
+    }
+    if (!isSale(order)) return;
+    (order.refunds || []).filter(r => isInShopRange(r.createdAt, range, timeZone)).forEach(refund => {
+      const day = dayFor(getShopDate(refund.createdAt, timeZone));
+      day.refunds += refund.amount;
+      day.methods[refund.method] -= refund.amount;
+    });
+  });
+
+  return {
+    name: 'Daily Summary',
+    columns: [
+      'Date', 'Orders', 'Completed', 'Cancelled', 'Gross Sales', 'Discounts', 'Service Charge', 'Tax', 'Refunds', 'Net Revenue',
+      ...PAYMENT_METHODS,
+    ],
+    rows: Array.from(days.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, day]) => [
+        date, day.orders, day.completed, day.cancelled, day.gross, day.discounts, day.service, day.tax, day.refunds, day.gross - day.refunds,
+        ...PAYMENT_METHODS.map(m => day.methods[m]),
+      ]),
+  };
+};
+
+const SHEET_BUILDERS: Record<ExportKind, (orders: Order[], range: ReportRange, timeZone: string, categories: Category[]) => Sheet> = {
+  orders: buildOrdersSheet,
+  items: buildLineItemsSheet,
+  daily: buildDailySummarySheet,
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export const downloadFile = (filename: string, data: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const exportOrders = (
+  kind: ExportKind,
+  format: ExportFormat,
+  orders: Order[],
+  range: ReportRange,
+  timeZone: string,
+  categories: Category[]
+) => {
+  const sheet = SHEET_BUILDERS[kind](orders, range, timeZone, categories);
+  const filename = `${kind === 'items' ? 'line-items' : kind}_${range.from}_${range.to}.${format}`;
+  downloadFile(filename, format === 'csv' ? toCsv(sheet.columns, sheet.rows) : buildXlsx([sheet]), MIME_TYPES[format]);
+};
@@ -0,0 +1,57 @@
+import { CartItem, Ingredient, IngredientUnit, MenuItem, StockMovement, StockMovementType } from '../types';
+
+export const INGREDIENT_UNITS: IngredientUnit[] = ['g', 'ml', 'pcs'];
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  sale: 'Sold',
+  cancel: 'Order cancelled',
+  receive: 'Received',
+  adjust: 'Stock count',
+  waste: 'Wasted',
+};
+
+// Ingredient id -> quantity
+export type StockUsage = Map<string, number>;
+
+export const formatQuantity = (quantity: number, unit: IngredientUnit): string => {
+  return `${Number(quantity.toFixed(2)).toLocaleString('id-ID')} ${unit}`;
+};
+
+export const isLowStock = (ingredient: Ingredient): boolean => {
+  return ingredient.onHand <= ingredient.lowStockThreshold;
+};
+
+// Total ingredient usage for a set of lines. Recipes come from the live menu
+// when available so edits apply to carts that are already open.
+export function getStockUsage(items: Pick<CartItem, 'id' | 'quantity' | 'recipe'>[], menu: MenuItem[] = []): StockUsage {
+  const usage: StockUsage = new Map();
+  items.forEach(item => {
+    const recipe = menu.find(m => m.id === item.id)?.recipe ?? item.recipe ?? [];
+    recipe.forEach(line => {
+      usage.set(line.ingredientId, (usage.get(line.ingredientId) || 0) + line.quantity * item.quantity);
+    });
+  });
+  return usage;
+}
+
+// How many more of an item can be made from what is on hand, after what is
+// already reserved (e.g. by the current cart). Items without a recipe are
+// never out of stock.
+export function getAvailableQuantity(item: MenuItem, ingredients: Ingredient[], reserved: StockUsage = new Map()): number {
+  return (item.recipe || []).reduce((available, line) => {
+    if (line.quantity <= 0) return available;
+    const ingredient = ingredients.find(i => i.id === line.ingredientId);
+    if (!ingredient) return available;
+    const left = ingredient.onHand - (reserved.get(ingredient.id) || 0);
+    return Math.min(available, Math.max(0, Math.floor(left / line.quantity)));
+  }, Infinity);
+}
+
+// What an order has taken from stock and not yet given back
+export function getOrderStockBalance(movements: StockMovement[], orderId: string): StockUsage {
+  const balance: StockUsage = new Map();
+  movements
+    .filter(m => m.orderId === orderId && (m.type === 'sale' || m.type === 'cancel'))
+    .forEach(m => balance.set(m.ingredientId, (balance.get(m.ingredientId) || 0) + m.quantity));
+  return balance;
+}
@@ -0,0 +1,74 @@
+import { CartItem, KitchenSettings, Order, OrderStatus } from '../types';
+import { getOrderPaymentStatus } from './payments';
+
+// Statuses of tickets still waiting on the kitchen
+export const KITCHEN_OPEN_STATUSES: OrderStatus[] = ['Pending', 'Paid', 'Preparing'];
+
+export type TicketUrgency = 'normal' | 'warning' | 'overdue';
+
+const MINUTE_MS = 60 * 1000;
+
+export const isKitchenOpen = (order: Order): boolean => KITCHEN_OPEN_STATUSES.includes(order.status);
+
+// Oldest first, so the ticket that has waited longest is always on the left
+export const getOpenTickets = (orders: Order[]): Order[] => {
+  return orders
+    .filter(isKitchenOpen)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+};
+
+// The order status implied by how many of its items have been made. An order
+// is only complete once every station has finished its items, and one with
+// nothing made yet goes back to Paid or Pending depending on its balance.
+export const derivePrepStatus = (order: Order, items: CartItem[]): OrderStatus => {
+  if (order.status === 'Cancelled' || order.status === 'Picked Up') return order.status;
+  const prepared = items.filter(i => i.isPrepared).length;
+  if (prepared === 0) return getOrderPaymentStatus(order) === 'Paid' ? 'Paid' : 'Pending';
+  if (prepared === items.length) return 'Completed';
+  return 'Preparing';
+};
+
+export const getElapsedMs = (order: Order, now: number = Date.now()): number => {
+  return Math.max(0, now - new Date(order.createdAt).getTime());
+};
+
+export const getTicketUrgency = (order: Order, settings: KitchenSettings, now: number = Date.now()): TicketUrgency => {
+  const elapsed = getElapsedMs(order, now);
+  if (elapsed >= settings.overdueAfterMinutes * MINUTE_MS) return 'overdue';
+  if (elapsed >= settings.warnAfterMinutes * MINUTE_MS) return 'warning';
+  return 'normal';
+};
+
+export const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+let audioContext: AudioContext | null = null;
+
+// A short two-tone chime synthesised with Web Audio, so no sound file has to
+// be shipped. Browsers only allow audio after a user gesture, which opening
+// the kitchen display provides.
+export const playChime = () => {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  if (!AudioContextClass) return;
+  if (!audioContext) audioContext = new AudioContextClass();
+  const ctx = audioContext;
+  if (ctx.state === 'suspended') ctx.resume();
+
+  [880, 1320].forEach((frequency, index) => {
+    const start = ctx.currentTime + index * 0.18;
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(0.3, start + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.35);
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.4);
+  });
+};
@@ -0,0 +1,78 @@
+import { Customer, LoyaltySettings, Order } from '../types';
+import { PricingResult } from './promotions';
+import { getOrderPaymentStatus } from './payments';
+import { getRefundState, getRefundableAmount } from './refunds';
+
+// Points redeemed at checkout are recorded as an order-level discount under this id
+export const LOYALTY_PROMOTION_ID = 'loyalty';
+
+// Thrown when an order tries to redeem points the customer does not have
+export class LoyaltyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LoyaltyError';
+  }
+}
+
+// Balances are worked out from the orders themselves rather than stored, so
+// voids and refunds correct them without any extra bookkeeping.
+
+// Earned once the order is paid in full, on the money actually kept: refunds
+// take their share of the points back and voided orders earn nothing
+export const getPointsEarned = (order: Order): number => {
+  const earnRate = order.loyalty?.earnRate || 0;
+  if (earnRate <= 0 || order.voided || order.status === 'Cancelled') return 0;
+  if (getOrderPaymentStatus(order) !== 'Paid') return 0;
+  return Math.floor(getRefundableAmount(order) / earnRate);
+};
+
+// Spent as soon as the order is rung up, so they cannot be used twice while it
+// is unpaid. Given back when the order is voided or refunded in full.
+export const getPointsRedeemed = (order: Order): number => {
+  const redeemed = order.loyalty?.pointsRedeemed || 0;
+  if (redeemed <= 0 || order.voided || order.status === 'Cancelled' || getRefundState(order) === 'full') return 0;
+  return redeemed;
+};
+
+export const getCustomerOrders = (orders: Order[], customerId: string): Order[] => {
+  return orders.filter(o => o.customerId === customerId);
+};
+
+export const getPointsBalance = (orders: Order[], customerId: string): number => {
+  return getCustomerOrders(orders, customerId).reduce((sum, o) => sum + getPointsEarned(o) - getPointsRedeemed(o), 0);
+};
+
+// The most points that can go towards an order: never more than the customer
+// has, nor more than the order is worth
+export const getMaxRedeemablePoints = (balance: number, amount: number, settings: LoyaltySettings): number => {
+  if (!settings.enabled || settings.pointValue <= 0 || balance < settings.minRedeemPoints) return 0;
+  return Math.max(0, Math.min(balance, Math.floor(amount / settings.pointValue)));
+};
+
+// Takes redeemed points off a priced cart after promotions, like a
+// minimum-spend discount, so tax is charged on what the customer pays
+export const applyPointsRedemption = (pricing: PricingResult, points: number, settings: LoyaltySettings): PricingResult => {
+  const amount = Math.min(pricing.total, points * settings.pointValue);
+  if (points <= 0 || amount <= 0) return pricing;
+  return {
+    ...pricing,
+    orderDiscount: pricing.orderDiscount + amount,
+    discountTotal: pricing.discountTotal + amount,
+    total: pricing.total - amount,
+    applied: [...pricing.applied, { promotionId: LOYALTY_PROMOTION_ID, name: `${points} points redeemed`, amount, lineIds: [] }],
+  };
+};
+
+const getDigits = (value: string) => value.replace(/\D/g, '');
+
+// Name matches anywhere; phone numbers match on digits so spacing and a
+// leading +62 or 0 do not matter
+export const searchCustomers = (customers: Customer[], query: string, limit = 6): Customer[] => {
+  const text = query.trim().toLowerCase();
+  if (!text) return [];
+  const digits = getDigits(text).replace(/^(62|0)/, '');
+  return customers
+    .filter(c => c.name.toLowerCase().includes(text) || (digits.length >= 3 && getDigits(c.phone || '').includes(digits)))
+    .sort((a, b) => Number(!a.name.toLowerCase().startsWith(text)) - Number(!b.name.toLowerCase().startsWith(text)) || a.name.localeCompare(b.name))
+    .slice(0, limit);
+};
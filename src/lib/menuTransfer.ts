@@ -0,0 +1,313 @@
+import { BundleConfig, Category, MenuItem } from '../types';
+import { generateUuid } from '../utils';
+import { parseCsv, toCsv } from './csv';
+import { Cell } from './xlsx';
+import { findCategory, getCategoryName } from './categories';
+
+export const MENU_FILE_VERSION = 1;
+
+// Thrown when an import file cannot be read at all; problems with single rows
+// are reported in the parse result instead
+export class MenuImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MenuImportError';
+  }
+}
+
+export type MenuField = Exclude<keyof MenuItem, 'id'>;
+
+// Fields compared when previewing an import, in display order
+export const MENU_FIELD_LABELS: Record<MenuField, string> = {
+  name: 'Name',
+  category: 'Category',
+  basePrice: 'Price',
+  image: 'Image',
+  bundle: 'Bundle',
+  modifierGroups: 'Modifiers',
+  recipe: 'Recipe',
+  stationId: 'Station',
+};
+
+const MENU_FIELDS = Object.keys(MENU_FIELD_LABELS) as MenuField[];
+
+// A row from the file: only the columns the file has are set, so a trimmed
+// down spreadsheet leaves everything else on the item alone
+export type ImportedMenuItem = Partial<MenuItem> & Pick<MenuItem, 'name'>;
+
+export interface MenuParseResult {
+  items: ImportedMenuItem[];
+  errors: string[];
+}
+
+export interface MenuItemChange {
+  before: MenuItem;
+  after: MenuItem;
+  fields: MenuField[];
+}
+
+export interface MenuDiff {
+  added: MenuItem[];
+  changed: MenuItemChange[];
+  removed: MenuItem[];
+  unchanged: number;
+}
+
+const CSV_COLUMNS = [
+  'id', 'name', 'category', 'price', 'image_url', 'station_id',
+  'bundle_enabled', 'bundle_buy_quantity', 'bundle_price', 'bundle_show_label',
+  'modifier_groups', 'recipe',
+] as const;
+
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+const BUNDLE_COLUMNS: CsvColumn[] = ['bundle_enabled', 'bundle_buy_quantity', 'bundle_price', 'bundle_show_label'];
+
+// Key order does not matter when comparing nested settings such as modifiers
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const isSameValue = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+export const exportMenuJson = (menu: MenuItem[]): string => {
+  return JSON.stringify({ version: MENU_FILE_VERSION, items: menu }, null, 2);
+};
+
+// Categories are written by name so the file reads well in a spreadsheet
+export const exportMenuCsv = (menu: MenuItem[], categories: Category[]): string => {
+  const rows: Cell[][] = menu.map(item => [
+    item.id,
+    item.name,
+    getCategoryName(categories, item.category),
+    item.basePrice,
+    item.image,
+    item.stationId,
+    item.bundle ? String(item.bundle.enabled) : '',
+    item.bundle?.buyQuantity,
+    item.bundle?.bundlePrice,
+    item.bundle ? String(item.bundle.showPromoLabel) : '',
+    item.modifierGroups ? JSON.stringify(item.modifierGroups) : '',
+    item.recipe ? JSON.stringify(item.recipe) : '',
+  ]);
+  return toCsv([...CSV_COLUMNS], rows);
+};
+
+const parseWholeNumber = (value: string, label: string, errors: string[]): number | undefined => {
+  const number = Number(value.trim());
+  if (value.trim() === '' || !Number.isInteger(number) || number < 0) {
+    errors.push(`${label} must be a whole number of rupiah`);
+    return undefined;
+  }
+  return number;
+};
+
+const parseBoolean = (value: string) => ['true', 'yes', '1', 'y'].includes(value.trim().toLowerCase());
+
+const parseJsonColumn = <T,>(value: string, label: string, errors: string[]): T | undefined => {
+  if (!value.trim()) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) throw new Error();
+    return parsed as T;
+  } catch {
+    errors.push(`${label} is not a valid list`);
+    return undefined;
+  }
+};
+
+const parseCsvRows = (text: string): MenuParseResult => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new MenuImportError('The file is empty');
+  const columns = header.map(h => h.trim().toLowerCase());
+  if (!columns.includes('name')) throw new MenuImportError('The file needs a "name" column');
+  const has = (column: CsvColumn) => columns.includes(column);
+
+  const items: ImportedMenuItem[] = [];
+  const errors: string[] = [];
+  rows.forEach((row, index) => {
+    const get = (column: CsvColumn) => (row[columns.indexOf(column)] ?? '').trim();
+    const rowErrors: string[] = [];
+    const item: ImportedMenuItem = { name: get('name') };
+    if (has('id') && get('id')) item.id = get('id');
+    if (has('category')) item.category = get('category');
+    if (has('price')) item.basePrice = parseWholeNumber(get('price'), 'Price', rowErrors);
+    if (has('image_url')) item.image = get('image_url') || undefined;
+    if (has('station_id')) item.stationId = get('station_id') || undefined;
+    if (BUNDLE_COLUMNS.some(has)) {
+      const isBlank = BUNDLE_COLUMNS.every(column => !get(column));
+      item.bundle = isBlank ? undefined : {
+        enabled: parseBoolean(get('bundle_enabled')),
+        buyQuantity: Number(get('bundle_buy_quantity')) || 0,
+        bundlePrice: Number(get('bundle_price')) || 0,
+        showPromoLabel: parseBoolean(get('bundle_show_label')),
+      };
+    }
+    if (has('modifier_groups')) item.modifierGroups = parseJsonColumn(get('modifier_groups'), 'Modifiers', rowErrors);
+    if (has('recipe')) item.recipe = parseJsonColumn(get('recipe'), 'Recipe', rowErrors);
+    // Header is row 1
+    rowErrors.forEach(error => errors.push(`Row ${index + 2}: ${error}`));
+    items.push(item);
+  });
+  return { items, errors };
+};
+
+const parseJsonItems = (text: string): MenuParseResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new MenuImportError('The file is not valid JSON');
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as { items?: unknown })?.items;
+  if (!Array.isArray(list)) throw new MenuImportError('Expected a list of menu items');
+  // Anything that is not a menu field is dropped
+  const items = list.map(entry => Object.fromEntries(
+    Object.entries(entry ?? {}).filter(([key]) => key === 'id' || key in MENU_FIELD_LABELS)
+  ) as ImportedMenuItem);
+  return { items, errors: [] };
+};
+
+// Nested settings are checked element by element, whichever file they came
+// from: a JSON file hands them over as they are, and a malformed one would
+// only fail once the till shows the item
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+};
+
+const isWholeNumber = (value: unknown): value is number => Number.isInteger(value);
+
+const isModifierOption = (option: unknown): boolean => {
+  return isRecord(option) && typeof option.id === 'string' && typeof option.name === 'string' && isWholeNumber(option.priceDelta);
+};
+
+const isModifierGroup = (group: unknown): boolean => {
+  return isRecord(group)
+    && typeof group.id === 'string'
+    && typeof group.name === 'string'
+    && typeof group.required === 'boolean'
+    && isWholeNumber(group.minSelect)
+    && isWholeNumber(group.maxSelect)
+    && Array.isArray(group.options)
+    && group.options.every(isModifierOption);
+};
+
+const isRecipeLine = (line: unknown): boolean => {
+  return isRecord(line) && typeof line.ingredientId === 'string' && typeof line.quantity === 'number' && line.quantity > 0;
+};
+
+const isBundleConfig = (bundle: unknown): boolean => {
+  return isRecord(bundle)
+    && typeof bundle.enabled === 'boolean'
+    && typeof bundle.buyQuantity === 'number'
+    && typeof bundle.bundlePrice === 'number'
+    && typeof bundle.showPromoLabel === 'boolean';
+};
+
+const isListOf = (value: unknown, isValid: (element: unknown) => boolean) => Array.isArray(value) && value.every(isValid);
+
+// Categories may be given by id or by name; both end up as the id
+const validateItems = ({ items, errors }: MenuParseResult, categories: Category[]): MenuParseResult => {
+  const problems = [...errors];
+  const seen = new Set<string>();
+  const resolved = items.map(item => {
+    if (item.category === undefined) return item;
+    const category = findCategory(categories, String(item.category));
+    return category ? { ...item, category: category.id } : item;
+  });
+  resolved.forEach((item, index) => {
+    const label = item.name ? `"${item.name}"` : `Item ${index + 1}`;
+    if (typeof item.name !== 'string' || !item.name.trim()) {
+      problems.push(`${label}: name is missing`);
+      return;
+    }
+    const key = item.name.trim().toLowerCase();
+    if (seen.has(key)) problems.push(`${label}: appears more than once`);
+    seen.add(key);
+    if (item.category !== undefined && !categories.some(c => c.id === item.category)) {
+      problems.push(`${label}: category "${item.category}" does not exist. Use one of ${categories.map(c => c.name).join(', ')}`);
+    }
+    if (item.basePrice !== undefined && (!Number.isInteger(item.basePrice) || item.basePrice < 0)) {
+      problems.push(`${label}: price must be a whole number of rupiah`);
+    }
+    (['image', 'stationId'] as const).forEach(field => {
+      if (item[field] != null && typeof item[field] !== 'string') problems.push(`${label}: ${MENU_FIELD_LABELS[field].toLowerCase()} must be text`);
+    });
+    if (item.modifierGroups != null && !isListOf(item.modifierGroups, isModifierGroup)) {
+      problems.push(`${label}: modifiers need an id, name, required flag, selection limits and options with an id, name and whole-rupiah price`);
+    }
+    if (item.recipe != null && !isListOf(item.recipe, isRecipeLine)) {
+      problems.push(`${label}: recipe lines need an ingredient id and a quantity above zero`);
+    }
+    if (item.bundle != null && !isBundleConfig(item.bundle)) {
+      problems.push(`${label}: bundle needs enabled, quantity, price and label settings`);
+      return;
+    }
+    const bundle: BundleConfig | undefined = item.bundle;
+    if (bundle?.enabled && (bundle.buyQuantity < 2 || bundle.bundlePrice <= 0)) {
+      problems.push(`${label}: an enabled bundle needs a quantity of at least 2 and a price`);
+    }
+  });
+  return { items: resolved, errors: Array.from(new Set(problems)) };
+};
+
+// JSON is recognised by content, so a renamed export still imports
+export const parseMenuFile = (text: string, categories: Category[]): MenuParseResult => {
+  const trimmed = text.replace(/^\ufeff/, '').trim();
+  const result = trimmed.startsWith('[') || trimmed.startsWith('{') ? parseJsonItems(trimmed) : parseCsvRows(trimmed);
+  return validateItems(result, categories);
+};
+
+// Rows match existing items by id first, then by name. New items without a
+// category go into the first one.
+export const diffMenu = (menu: MenuItem[], imported: ImportedMenuItem[], defaultCategoryId: string): MenuDiff => {
+  const matched = new Set<string>();
+  const added: MenuItem[] = [];
+  const changed: MenuItemChange[] = [];
+  let unchanged = 0;
+
+  imported.forEach(row => {
+    const name = row.name.trim();
+    const existing = menu.find(m => row.id && m.id === row.id)
+      || menu.find(m => !matched.has(m.id) && m.name.trim().toLowerCase() === name.toLowerCase());
+    if (!existing) {
+      added.push({
+        ...row,
+        // Keep ids from another till's export so a later import matches them
+        id: row.id && !menu.some(m => m.id === row.id) && /^[0-9a-f-]{36}$/i.test(row.id) ? row.id : generateUuid(),
+        name,
+        category: row.category ?? defaultCategoryId,
+        basePrice: row.basePrice ?? 0,
+      });
+      return;
+    }
+    matched.add(existing.id);
+    const after: MenuItem = {
+      ...existing,
+      ...Object.fromEntries(MENU_FIELDS.filter(field => field in row).map(field => [field, row[field]])),
+      name,
+    };
+    const fields = MENU_FIELDS.filter(field => !isSameValue(existing[field], after[field]));
+    if (fields.length > 0) {
+      changed.push({ before: existing, after, fields });
+    } else {
+      unchanged += 1;
+    }
+  });
+
+  return { added, changed, removed: menu.filter(m => !matched.has(m.id)), unchanged };
+};
+
+// Only the fields that differ, ready for an update. Cleared fields are sent
+// as null so the stored column is emptied rather than left as it was.
+export const getChangedFields = (change: MenuItemChange): Partial<MenuItem> => {
+  return Object.fromEntries(change.fields.map(field => [field, change.after[field] ?? null]));
+};
@@ -0,0 +1,29 @@
+import { CartItem, ModifierGroup, SelectedModifier } from '../types';
+
+// Lines for the same item merge only when the exact same options were chosen
+export const getLineKey = (itemId: string, modifiers: SelectedModifier[] = []): string => {
+  return [itemId, ...modifiers.map(m => m.optionId).sort()].join('|');
+};
+
+export const getCartLineKey = (line: CartItem): string => getLineKey(line.id, line.modifiers);
+
+export const describeModifiers = (modifiers: SelectedModifier[] = []): string => {
+  return modifiers.map(m => m.optionName).join(', ');
+};
+
+// Optional groups may be skipped entirely; otherwise the count must fall in range
+export const getSelectionError = (group: ModifierGroup, selectedCount: number): string | null => {
+  const min = group.required ? Math.max(1, group.minSelect) : group.minSelect;
+  if (!group.required && selectedCount === 0) return null;
+  if (selectedCount < min) {
+    return min === 1 ? `Choose a ${group.name.toLowerCase()}` : `Choose at least ${min}`;
+  }
+  if (group.maxSelect > 0 && selectedCount > group.maxSelect) {
+    return `Choose at most ${group.maxSelect}`;
+  }
+  return null;
+};
+
+export const hasModifiers = (item: { modifierGroups?: ModifierGroup[] }): boolean => {
+  return (item.modifierGroups || []).some(g => g.options.length > 0);
+};
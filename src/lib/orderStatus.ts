@@ -0,0 +1,98 @@
+import { Order, OrderStatus, StatusActor, StatusChange } from '../types';
+
+// Thrown when something tries to move an order along a transition the table
+// below does not allow.
+export class OrderTransitionError extends Error {
+  constructor(public readonly from: OrderStatus, public readonly to: OrderStatus, public readonly actor: StatusActor) {
+    super(`${actor} cannot move an order from ${from} to ${to}`);
+    this.name = 'OrderTransitionError';
+  }
+}
+
+// Every allowed status change and who may make it. Anything not listed is rejected.
+export const ORDER_TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, StatusActor[]>>> = {
+  Pending: {
+    Paid: ['system'],
+    // Or a tab merged into it brought items already made
+    Preparing: ['kitchen', 'system'],
+    Completed: ['kitchen'],
+    // The system closes tabs merged into another
+    Cancelled: ['cashier', 'admin', 'system'],
+  },
+  Paid: {
+    Preparing: ['kitchen'],
+    Completed: ['kitchen'],
+    Cancelled: ['admin'],
+  },
+  Preparing: {
+    // All items unticked again
+    Pending: ['kitchen'],
+    Paid: ['kitchen'],
+    // Or the lines still to make were taken off the order
+    Completed: ['kitchen', 'system'],
+    Cancelled: ['admin', 'system'],
+  },
+  Completed: {
+    // Recalled, or items unticked
+    Pending: ['kitchen'],
+    Paid: ['kitchen'],
+    // Or more lines were added to the order
+    Preparing: ['kitchen', 'system'],
+    'Picked Up': ['cashier', 'admin'],
+    Cancelled: ['admin', 'system'],
+  },
+  'Picked Up': {},
+  Cancelled: {},
+};
+
+export const canTransition = (from: OrderStatus, to: OrderStatus, actor: StatusActor): boolean => {
+  return ORDER_TRANSITIONS[from][to]?.includes(actor) ?? false;
+};
+
+export const createStatusChange = (from: OrderStatus | null, to: OrderStatus, by: StatusActor, staffId?: string): StatusChange => ({
+  from,
+  to,
+  by,
+  staffId,
+  at: new Date().toISOString(),
+});
+
+// The update that moves an order to a new status and records it in the
+// order's history. Moving to the current status is a no-op.
+export function buildStatusUpdate(order: Order, to: OrderStatus, actor: StatusActor, staffId?: string): Partial<Order> {
+  if (order.status === to) return {};
+  if (!canTransition(order.status, to, actor)) {
+    throw new OrderTransitionError(order.status, to, actor);
+  }
+  return {
+    status: to,
+    statusHistory: [...(order.statusHistory || []), createStatusChange(order.status, to, actor, staffId)],
+  };
+}
+
+const firstTimeAt = (order: Order, status: OrderStatus): number | undefined => {
+  const change = order.statusHistory?.find(c => c.to === status);
+  return change ? new Date(change.at).getTime() : undefined;
+};
+
+const lastTimeAt = (order: Order, status: OrderStatus): number | undefined => {
+  const change = [...(order.statusHistory || [])].reverse().find(c => c.to === status);
+  return change ? new Date(change.at).getTime() : undefined;
+};
+
+export interface StatusDurations {
+  prepMs?: number; // Order placed until the kitchen finished it
+  pickupMs?: number; // Finished until the customer collected it
+}
+
+// Durations derived from the status history. Orders from before the history
+// was recorded have none.
+export const getStatusDurations = (order: Order): StatusDurations => {
+  const placed = new Date(order.createdAt).getTime();
+  const completed = lastTimeAt(order, 'Completed');
+  const pickedUp = firstTimeAt(order, 'Picked Up');
+  return {
+    prepMs: completed !== undefined ? completed - placed : undefined,
+    pickupMs: completed !== undefined && pickedUp !== undefined ? pickedUp - completed : undefined,
+  };
+};
@@ -0,0 +1,23 @@
+import { Order, OrderType } from '../types';
+
+export const ORDER_TYPES: OrderType[] = ['dine_in', 'takeaway', 'delivery'];
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  dine_in: 'Dine-in',
+  takeaway: 'Takeaway',
+  delivery: 'Delivery',
+};
+
+export const DELIVERY_PLATFORMS = ['GoFood', 'GrabFood', 'ShopeeFood'];
+
+export const getOrderType = (order: Pick<Order, 'orderType'>): OrderType => order.orderType ?? 'takeaway';
+
+// One line for lists, receipts and tickets, e.g. "Dine-in · Table 4" or "GoFood #F-123"
+export const describeOrderType = (order: Pick<Order, 'orderType' | 'tableName' | 'delivery'>): string => {
+  const type = getOrderType(order);
+  if (type === 'dine_in' && order.tableName) return `${ORDER_TYPE_LABELS.dine_in} · ${order.tableName}`;
+  if (type === 'delivery' && order.delivery) {
+    return order.delivery.reference ? `${order.delivery.platform} #${order.delivery.reference}` : order.delivery.platform;
+  }
+  return ORDER_TYPE_LABELS[type];
+};
@@ -0,0 +1,98 @@
+import { generateId } from '../utils';
+import { StockMovement } from '../types';
+import { INSERT_POSITION, StoreBackend, TableName, TableRecords } from './backends/types';
+import { incrementRecord, patchRecord, removeRecord, upsertRecord } from './backends/records';
+
+const OUTBOX_KEY = 'pos_outbox';
+
+// 'move_stock' saves a stock movement and adds its quantity to the
+// ingredient's stock in the same step, on the backend rather than from a
+// till's copy. A movement the backend already has is skipped, so stock sold on
+// several tills at once all counts and a retried write never counts twice.
+export type OutboxAction = 'upsert' | 'update' | 'move_stock' | 'delete';
+
+// A single pending write, kept in the app's camelCase shape. Backends map it to
+// their own storage format when the entry is replayed.
+export interface OutboxEntry {
+  id: string;
+  table: TableName;
+  action: OutboxAction;
+  recordId: string;
+  data?: Record<string, any>;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export const loadOutbox = (): OutboxEntry[] => {
+  try {
+    const saved = localStorage.getItem(OUTBOX_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveOutbox = (entries: OutboxEntry[]) => {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+};
+
+export const createOutboxEntry = (
+  table: TableName,
+  action: OutboxAction,
+  recordId: string,
+  data?: Record<string, any>
+): OutboxEntry => ({
+  id: generateId(),
+  table,
+  action,
+  recordId,
+  data,
+  queuedAt: new Date().toISOString(),
+  attempts: 0,
+});
+
+// Applies a write to in-memory tables. Used both for optimistic updates and
+// for re-applying still-pending writes on top of freshly fetched data, which
+// may already hold a stock movement whose response was lost.
+export function applyOutboxEntry(tables: TableRecords, entry: OutboxEntry): TableRecords {
+  const records = tables[entry.table] as { id: string }[];
+  switch (entry.action) {
+    case 'upsert':
+      return { ...tables, [entry.table]: upsertRecord(records, entry.data as { id: string }, INSERT_POSITION[entry.table]) };
+    case 'update':
+      return { ...tables, [entry.table]: patchRecord(records, entry.recordId, entry.data || {}) };
+    case 'move_stock': {
+      const movement = entry.data as StockMovement;
+      if (tables.stock_movements.some(m => m.id === movement.id)) return tables;
+      return {
+        ...tables,
+        stock_movements: upsertRecord(tables.stock_movements, movement, INSERT_POSITION.stock_movements),
+        ingredients: incrementRecord(tables.ingredients, movement.ingredientId, { onHand: movement.quantity }),
+      };
+    }
+    case 'delete':
+      return { ...tables, [entry.table]: removeRecord(records, entry.recordId) };
+  }
+}
+
+// A pending stock movement also holds back its ingredient's row
+export const hasPendingWrite = (entries: OutboxEntry[], table: TableName, recordId: string): boolean => {
+  return entries.some(e =>
+    (e.table === table && e.recordId === recordId) ||
+    (table === 'ingredients' && e.action === 'move_stock' && e.data?.ingredientId === recordId)
+  );
+};
+
+export const replayOutboxEntry = (backend: StoreBackend, entry: OutboxEntry): Promise<void> => {
+  switch (entry.action) {
+    case 'upsert':
+      return backend.upsert(entry.table, entry.data as any);
+    case 'update':
+      return backend.update(entry.table, entry.recordId, entry.data || {});
+    case 'move_stock':
+      return backend.moveStock(entry.data as StockMovement);
+    case 'delete':
+      return backend.remove(entry.table, entry.recordId);
+  }
+};
@@ -0,0 +1,21 @@
+import { CartItem, MenuItem, ParkedCart } from '../types';
+
+// A parked cart keeps its lines as they were. Resuming it prices them from the
+// menu as it is now and drops anything taken off the menu meanwhile.
+export const refreshParkedItems = (items: CartItem[], menu: MenuItem[]): { items: CartItem[]; missing: string[] } => {
+  const refreshed: CartItem[] = [];
+  const missing: string[] = [];
+  items.forEach(item => {
+    const menuItem = menu.find(m => m.id === item.id);
+    if (!menuItem) {
+      missing.push(item.name);
+      return;
+    }
+    refreshed.push({ ...menuItem, lineId: item.lineId, quantity: item.quantity, modifiers: item.modifiers, note: item.note });
+  });
+  return { items: refreshed, missing };
+};
+
+export const describeParkedCart = (cart: ParkedCart): string => {
+  return cart.items.map(i => `${i.quantity}x ${i.name}`).join(', ');
+};
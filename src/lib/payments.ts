@@ -0,0 +1,59 @@
+import { Order, PaymentMethod, PaymentStatus, Tender } from '../types';
+import { generateId } from '../utils';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['Cash', 'QRIS', 'Card', 'E-Wallet', 'Transfer'];
+
+// Common banknotes offered as quick buttons when taking cash
+export const QUICK_CASH_AMOUNTS = [20000, 50000, 100000];
+
+export const getAmountPaid = (payments: Tender[] = []): number => {
+  return payments.reduce((sum, p) => sum + p.amount, 0);
+};
+
+export const getBalanceDue = (total: number, payments: Tender[] = []): number => {
+  return Math.max(0, total - getAmountPaid(payments));
+};
+
+export const derivePaymentStatus = (total: number, payments: Tender[] = []): PaymentStatus => {
+  const paid = getAmountPaid(payments);
+  if (paid <= 0) return total > 0 ? 'Unpaid' : 'Paid';
+  return paid >= total ? 'Paid' : 'Partially Paid';
+};
+
+// Orders saved before tenders existed only carry a paid/unpaid flag
+export const getOrderPaymentStatus = (order: Order): PaymentStatus => {
+  if (!order.payments) return order.paymentStatus;
+  return derivePaymentStatus(order.total, order.payments);
+};
+
+export const getOrderBalanceDue = (order: Order): number => {
+  if (!order.payments) return order.paymentStatus === 'Paid' ? 0 : order.total;
+  return getBalanceDue(order.total, order.payments);
+};
+
+// Builds a tender against the outstanding balance. Cash may exceed the balance
+// and produces change; other methods are capped at the balance.
+export const createTender = (
+  method: PaymentMethod,
+  amount: number,
+  balanceDue: number,
+  reference?: string
+): Tender => {
+  const applied = Math.min(Math.max(0, amount), balanceDue);
+  const tender: Tender = {
+    id: generateId(),
+    method,
+    amount: applied,
+    createdAt: new Date().toISOString(),
+  };
+  if (method === 'Cash') {
+    tender.tendered = amount;
+    tender.change = Math.max(0, amount - applied);
+  }
+  if (reference) tender.reference = reference;
+  return tender;
+};
+
+export const getChangeDue = (payments: Tender[] = []): number => {
+  return payments.reduce((sum, p) => sum + (p.change || 0), 0);
+};
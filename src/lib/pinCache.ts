@@ -0,0 +1,50 @@
+import { sha256Hex } from './sha256';
+import { generateUuid } from '../utils';
+
+// Backends that keep PIN hashes to themselves can only check a PIN while they
+// are reachable. Staff who signed in on this till before can still sign in
+// while it is offline: their PIN is kept here, salted per device and hashed
+// over many rounds so the short PINs are slow to guess from a stolen cache.
+
+const PIN_CACHE_KEY = 'pos_pin_cache';
+const ROUNDS = 20000;
+
+interface CachedPin {
+  salt: string;
+  hash: string;
+}
+
+const loadCache = (): Record<string, CachedPin> => {
+  try {
+    return JSON.parse(localStorage.getItem(PIN_CACHE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveCache = (cache: Record<string, CachedPin>) => {
+  localStorage.setItem(PIN_CACHE_KEY, JSON.stringify(cache));
+};
+
+const stretchPin = (salt: string, pin: string): string => {
+  let hash = sha256Hex(`${salt}:${pin}`);
+  for (let round = 1; round < ROUNDS; round++) {
+    hash = sha256Hex(`${hash}${salt}`);
+  }
+  return hash;
+};
+
+export const rememberPin = (staffId: string, pin: string) => {
+  const salt = generateUuid();
+  saveCache({ ...loadCache(), [staffId]: { salt, hash: stretchPin(salt, pin) } });
+};
+
+export const forgetPin = (staffId: string) => {
+  const { [staffId]: _forgotten, ...rest } = loadCache();
+  saveCache(rest);
+};
+
+export const checkRememberedPin = (staffId: string, pin: string): boolean => {
+  const cached = loadCache()[staffId];
+  return Boolean(cached) && stretchPin(cached.salt, pin) === cached.hash;
+};
@@ -0,0 +1,70 @@
+import { Order, StoreSettings } from '../types';
+import { getOrderLabel } from '../utils';
+import { buildKitchenTicketLines, buildReceiptLines, encodeEscPos, renderReceiptHtml } from './receipt';
+
+export type PrintDocument = 'receipt' | 'kitchen';
+
+const SERIAL_BAUD_RATE = 9600;
+
+// The Web Serial port of the receipt printer, remembered after the first grant
+let serialPort: any = null;
+
+// Prints through the browser's dialog using a throwaway iframe so the app
+// itself is not affected by the print stylesheet.
+export const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow!;
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  frameWindow.focus();
+  frameWindow.print();
+
+  setTimeout(() => frame.remove(), 1000);
+};
+
+// Sends raw ESC/POS bytes to a USB/serial printer via Web Serial (Chrome/Edge)
+export const sendEscPos = async (bytes: Uint8Array) => {
+  const serial = (navigator as any).serial;
+  if (!serial) {
+    throw new Error('This browser cannot talk to a receipt printer directly');
+  }
+
+  if (!serialPort) {
+    const [grantedPort] = await serial.getPorts();
+    serialPort = grantedPort ?? await serial.requestPort();
+    await serialPort.open({ baudRate: SERIAL_BAUD_RATE });
+  }
+
+  const writer = serialPort.writable.getWriter();
+  try {
+    await writer.write(bytes);
+  } finally {
+    writer.releaseLock();
+  }
+};
+
+export async function printOrderDocument(kind: PrintDocument, order: Order, settings: StoreSettings) {
+  const lines = kind === 'receipt'
+    ? buildReceiptLines(order, settings)
+    : buildKitchenTicketLines(order, settings);
+
+  if (settings.receipt.printerMode === 'escpos') {
+    try {
+      await sendEscPos(encodeEscPos(lines));
+      return;
+    } catch (err) {
+      console.warn('ESC/POS printing failed, falling back to the browser', err);
+      serialPort = null;
+    }
+  }
+
+  const title = `${kind === 'receipt' ? 'Receipt' : 'Kitchen'} ${getOrderLabel(order)}`;
+  printHtml(renderReceiptHtml(lines, settings.receipt.paperWidth, title));
+}
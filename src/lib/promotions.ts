@@ -0,0 +1,252 @@
+import { AppliedPromotion, CartItem, MenuItem, Promotion, PromotionType } from '../types';
+import { formatCurrency, getLineId, getModifierDelta } from '../utils';
+import { getShopClock } from './shopTime';
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  percentage: 'Percentage off',
+  fixed: 'Fixed amount off',
+  bundle: 'Mix & match bundle',
+  buyXGetY: 'Buy X get Y',
+  minimumSpend: 'Minimum spend',
+};
+
+// Promotions generated from an item's own bundle settings use this id prefix
+export const ITEM_BUNDLE_PREFIX = 'bundle:';
+
+export interface PricedLine {
+  lineId: string;
+  gross: number;
+  discount: number;
+  net: number;
+  promotions: { promotionId: string; name: string; amount: number }[];
+}
+
+export interface PricingResult {
+  lines: PricedLine[];
+  subtotal: number;
+  itemDiscount: number;
+  orderDiscount: number;
+  discountTotal: number;
+  total: number;
+  applied: AppliedPromotion[];
+}
+
+// One physical unit of a cart line; promotions are evaluated per unit so a
+// bundle can span several lines.
+interface Unit {
+  lineId: string;
+  itemId: string;
+  category: string;
+  basePrice: number;
+  price: number; // Base price plus modifiers
+  remaining: number; // Price left after discounts applied so far
+  claimed: boolean; // Taken by a non-stackable promotion
+}
+
+export const getLineGross = (item: CartItem): number => {
+  return (item.basePrice + getModifierDelta(item.modifiers)) * item.quantity;
+};
+
+// Turns the legacy per-item BundleConfig into a regular bundle promotion
+export const getItemBundlePromotion = (item: MenuItem): Promotion | null => {
+  const bundle = item.bundle;
+  if (!bundle?.enabled || !bundle.buyQuantity || !bundle.bundlePrice) return null;
+  return {
+    id: `${ITEM_BUNDLE_PREFIX}${item.id}`,
+    name: `${item.name} ${bundle.buyQuantity} for ${formatCurrency(bundle.bundlePrice)}`,
+    type: 'bundle',
+    enabled: true,
+    scope: { itemIds: [item.id], categories: [] },
+    buyQuantity: bundle.buyQuantity,
+    bundlePrice: bundle.bundlePrice,
+    stackable: false,
+    priority: 100,
+  };
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// Dates and happy hours are read on the shop's clock, whatever the till's is
+export const isPromotionActive = (promotion: Promotion, timeZone: string, now: Date = new Date()): boolean => {
+  if (!promotion.enabled) return false;
+  const { date, weekday, minute } = getShopClock(now.toISOString(), timeZone);
+  if (promotion.validFrom && date < promotion.validFrom) return false;
+  if (promotion.validUntil && date > promotion.validUntil) return false;
+
+  const schedule = promotion.schedule;
+  if (schedule) {
+    if (schedule.days.length > 0 && !schedule.days.includes(weekday)) return false;
+    const start = toMinutes(schedule.startTime);
+    const end = toMinutes(schedule.endTime);
+    // Windows such as 22:00-02:00 wrap past midnight
+    const inWindow = start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+    if (!inWindow) return false;
+  }
+  return true;
+};
+
+const inScope = (promotion: Promotion, unit: Unit) => {
+  const { itemIds, categories } = promotion.scope;
+  if (itemIds.length === 0 && categories.length === 0) return true;
+  return itemIds.includes(unit.itemId) || categories.includes(unit.category);
+};
+
+// Returns the discount for each unit the promotion touches
+const evaluateUnitPromotion = (promotion: Promotion, units: Unit[]): Map<Unit, number> => {
+  const discounts = new Map<Unit, number>();
+  const eligible = units
+    .filter(u => inScope(promotion, u) && (promotion.stackable || !u.claimed) && u.remaining > 0)
+    // Most expensive first, so bundles and free items favour the customer
+    .sort((a, b) => b.price - a.price);
+
+  switch (promotion.type) {
+    case 'percentage':
+      eligible.forEach(u => discounts.set(u, u.remaining * (promotion.value || 0) / 100));
+      break;
+
+    case 'fixed':
+      eligible.forEach(u => discounts.set(u, Math.min(u.remaining, promotion.value || 0)));
+      break;
+
+    case 'bundle': {
+      const size = promotion.buyQuantity || 0;
+      if (size < 1 || promotion.bundlePrice === undefined) break;
+      for (let i = 0; i + size <= eligible.length; i += size) {
+        const group = eligible.slice(i, i + size);
+        // The bundle price replaces base prices; modifiers are still charged
+        const groupBase = group.reduce((sum, u) => sum + u.basePrice, 0);
+        const saving = groupBase - promotion.bundlePrice;
+        if (saving <= 0) continue;
+        group.forEach(u => discounts.set(u, Math.min(u.remaining, saving * u.basePrice / groupBase)));
+      }
+      break;
+    }
+
+    case 'buyXGetY': {
+      const buy = promotion.buyQuantity || 0;
+      const get = promotion.getQuantity || 0;
+      if (buy < 1 || get < 1) break;
+      const percent = promotion.value ?? 100;
+      for (let i = 0; i + buy + get <= eligible.length; i += buy + get) {
+        // The cheapest units of each group are the free (or discounted) ones
+        eligible.slice(i + buy, i + buy + get).forEach(u => discounts.set(u, u.remaining * percent / 100));
+      }
+      break;
+    }
+  }
+
+  return discounts;
+};
+
+const byPriority = (a: Promotion, b: Promotion) => b.priority - a.priority;
+
+// Prices a cart against every active promotion plus the items' own bundles.
+//
+// Stacking rules: a unit can be claimed by at most one non-stackable promotion
+// (highest priority first); stackable promotions then apply to whatever price
+// is left. A non-stackable minimum-spend discount only applies when no item
+// discount did, and only the best one of those is used.
+export function priceCart(
+  items: CartItem[],
+  promotions: Promotion[],
+  menu: MenuItem[],
+  timeZone: string,
+  now: Date = new Date()
+): PricingResult {
+  const units: Unit[] = items.flatMap(item => {
+    const price = item.basePrice + getModifierDelta(item.modifiers);
+    return Array.from({ length: item.quantity }, () => ({
+      lineId: getLineId(item),
+      itemId: item.id,
+      category: item.category,
+      basePrice: item.basePrice,
+      price,
+      remaining: price,
+      claimed: false,
+    }));
+  });
+
+  // Bundle settings come from the live menu when available, else the cart line
+  const bundleSources = items.map(item => menu.find(m => m.id === item.id) || item);
+  const itemBundles = bundleSources
+    .map(getItemBundlePromotion)
+    .filter((p, index, all): p is Promotion => p !== null && all.findIndex(o => o?.id === p.id) === index);
+
+  const active = [...promotions.filter(p => isPromotionActive(p, timeZone, now)), ...itemBundles];
+  const unitPromotions = active.filter(p => p.type !== 'minimumSpend');
+  const ordered = [
+    ...unitPromotions.filter(p => !p.stackable).sort(byPriority),
+    ...unitPromotions.filter(p => p.stackable).sort(byPriority),
+  ];
+
+  const applied: AppliedPromotion[] = [];
+  const lineSavings = new Map<string, PricedLine['promotions']>();
+
+  ordered.forEach(promotion => {
+    const discounts = evaluateUnitPromotion(promotion, units);
+    if (discounts.size === 0) return;
+
+    const perLine = new Map<string, number>();
+    discounts.forEach((amount, unit) => {
+      unit.remaining -= amount;
+      if (!promotion.stackable) unit.claimed = true;
+      perLine.set(unit.lineId, (perLine.get(unit.lineId) || 0) + amount);
+    });
+
+    let total = 0;
+    perLine.forEach((amount, lineId) => {
+      const rounded = Math.round(amount);
+      if (rounded <= 0) return;
+      total += rounded;
+      lineSavings.set(lineId, [...(lineSavings.get(lineId) || []), { promotionId: promotion.id, name: promotion.name, amount: rounded }]);
+    });
+    if (total > 0) {
+      applied.push({ promotionId: promotion.id, name: promotion.name, amount: total, lineIds: Array.from(perLine.keys()) });
+    }
+  });
+
+  const lines: PricedLine[] = items.map(item => {
+    const lineId = getLineId(item);
+    const savings = lineSavings.get(lineId) || [];
+    const gross = getLineGross(item);
+    const discount = Math.min(gross, savings.reduce((sum, s) => sum + s.amount, 0));
+    return { lineId, gross, discount, net: gross - discount, promotions: savings };
+  });
+
+  const subtotal = lines.reduce((sum, l) => sum + l.gross, 0);
+  const itemDiscount = lines.reduce((sum, l) => sum + l.discount, 0);
+  let afterItems = subtotal - itemDiscount;
+
+  // Order-level discounts on what is left after item promotions
+  const orderAmount = (promotion: Promotion, base: number) => {
+    const value = promotion.value || 0;
+    return Math.round(Math.min(base, promotion.valueKind === 'fixed' ? value : base * value / 100));
+  };
+  const spendPromotions = active.filter(p => p.type === 'minimumSpend' && afterItems >= (p.minSpend || 0));
+  const exclusive = itemDiscount === 0
+    ? spendPromotions.filter(p => !p.stackable).sort((a, b) => orderAmount(b, afterItems) - orderAmount(a, afterItems))[0]
+    : undefined;
+
+  let orderDiscount = 0;
+  [...(exclusive ? [exclusive] : []), ...spendPromotions.filter(p => p.stackable).sort(byPriority)].forEach(promotion => {
+    const amount = orderAmount(promotion, afterItems);
+    if (amount <= 0) return;
+    orderDiscount += amount;
+    afterItems -= amount;
+    applied.push({ promotionId: promotion.id, name: promotion.name, amount, lineIds: [] });
+  });
+
+  const discountTotal = itemDiscount + orderDiscount;
+  return {
+    lines,
+    subtotal,
+    itemDiscount,
+    orderDiscount,
+    discountTotal,
+    total: subtotal - discountTotal,
+    applied,
+  };
+}
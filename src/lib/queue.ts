@@ -0,0 +1,26 @@
+import { Order } from '../types';
+import { getShopDate } from './shopTime';
+import { getOrderType } from './orderTypes';
+
+// A till with no shared backend hands out numbers by counting its own orders
+export const getNextQueueNumber = (orders: Order[], date: string): number => {
+  return orders.filter(o => o.queueDate === date).reduce((max, o) => Math.max(max, o.queueNumber || 0), 0) + 1;
+};
+
+export interface PickupBoard {
+  preparing: Order[];
+  ready: Order[];
+}
+
+// Today's orders for the customer-facing pickup screen, oldest first. Dine-in
+// orders are brought to the table, so they are left off.
+export const getPickupBoard = (orders: Order[], timeZone: string, now: number = Date.now()): PickupBoard => {
+  const today = getShopDate(new Date(now).toISOString(), timeZone);
+  const shown = orders
+    .filter(o => !o.voided && getOrderType(o) !== 'dine_in' && getShopDate(o.createdAt, timeZone) === today)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  return {
+    preparing: shown.filter(o => o.status === 'Pending' || o.status === 'Paid' || o.status === 'Preparing'),
+    ready: shown.filter(o => o.status === 'Completed'),
+  };
+};
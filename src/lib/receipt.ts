@@ -0,0 +1,234 @@
+import { Order, PaperWidth, StoreSettings } from '../types';
+import { calculateItemTotal, formatCurrency, getModifierDelta, getOrderLabel, getOrderReference } from '../utils';
+import { getOrderBalanceDue, getOrderPaymentStatus } from './payments';
+import { getLineGross } from './promotions';
+import { getSummaryLines } from './totals';
+import { describeOrderType } from './orderTypes';
+
+// A printer-independent receipt: both the HTML and the ESC/POS renderers work
+// from the same list of lines so the two always match.
+export interface ReceiptLine {
+  text: string;
+  align?: 'left' | 'center' | 'right';
+  bold?: boolean;
+  large?: boolean; // Double width and height
+}
+
+// Characters per line in the printer's default font
+export const CHARS_PER_LINE: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+const divider = (width: number): ReceiptLine => ({ text: '-'.repeat(width) });
+
+const wrap = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    while (word.length > width) {
+      if (current) lines.push(current);
+      lines.push(word.slice(0, width));
+      word = word.slice(width);
+      current = '';
+    }
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= width) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+// Left text with a right-aligned value; the left side wraps if both don't fit
+const columns = (left: string, right: string, width: number, bold = false): ReceiptLine[] => {
+  const indent = left.match(/^\s*/)![0];
+  const leftLines = wrap(left, width - indent.length).map(text => indent + text);
+  const last = leftLines.pop() || '';
+  if (last.length + 1 + right.length > width) {
+    return [...leftLines, last, right.padStart(width)].map(text => ({ text, bold }));
+  }
+  return [
+    ...leftLines.map(text => ({ text, bold })),
+    { text: last + right.padStart(width - last.length), bold },
+  ];
+};
+
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString('id-ID', {
+  day: '2-digit',
+  month: '2-digit',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+export function buildReceiptLines(order: Order, settings: StoreSettings): ReceiptLine[] {
+  const width = CHARS_PER_LINE[settings.receipt.paperWidth];
+  const lines: ReceiptLine[] = [
+    { text: settings.shopName, align: 'center', bold: true, large: true },
+  ];
+
+  if (settings.receipt.header) {
+    settings.receipt.header.split('\n').forEach(text => lines.push({ text, align: 'center' }));
+  }
+
+  lines.push(divider(width));
+  if (order.queueNumber) {
+    lines.push(
+      { text: 'QUEUE NO.', align: 'center' },
+      { text: String(order.queueNumber), align: 'center', bold: true, large: true },
+      divider(width),
+    );
+  }
+  lines.push(
+    ...columns(`Order ${getOrderReference(order)}`, formatDateTime(order.createdAt), width),
+    ...columns('Customer', order.customerName, width),
+    ...columns('Type', describeOrderType(order), width),
+    ...(order.staffName ? columns('Served by', order.staffName, width) : []),
+    divider(width),
+  );
+
+  order.items.forEach(item => {
+    lines.push(...wrap(item.name, width).map(text => ({ text })));
+    (item.modifiers || []).forEach(m => {
+      lines.push(...columns(`  + ${m.optionName}`, m.priceDelta ? formatCurrency(m.priceDelta) : '', width));
+    });
+    lines.push(...columns(
+      `  ${item.quantity} x ${formatCurrency(item.basePrice + getModifierDelta(item.modifiers))}`,
+      // Promotion-priced orders list gross lines and the discounts below them
+      formatCurrency(order.appliedPromotions ? getLineGross(item) : calculateItemTotal(item, item.quantity)),
+      width
+    ));
+    if (item.note) {
+      lines.push(...wrap(`* ${item.note}`, width - 2).map(text => ({ text: `  ${text}` })));
+    }
+  });
+
+  lines.push(divider(width));
+  getSummaryLines(order).forEach(line => {
+    const amount = line.amount < 0 ? `-${formatCurrency(-line.amount)}` : formatCurrency(line.amount);
+    lines.push(...columns(line.label, amount, width));
+  });
+  lines.push(...columns('TOTAL', formatCurrency(order.total), width, true));
+
+  (order.payments || []).forEach(p => {
+    lines.push(...columns(p.method, formatCurrency(p.tendered ?? p.amount), width));
+    if (p.change) lines.push(...columns('Change', formatCurrency(p.change), width));
+  });
+
+  const paymentStatus = getOrderPaymentStatus(order);
+  if (paymentStatus !== 'Paid') {
+    lines.push(...columns('BALANCE DUE', formatCurrency(getOrderBalanceDue(order)), width, true));
+  }
+  lines.push({ text: paymentStatus.toUpperCase(), align: 'center', bold: true });
+
+  if (order.note) {
+    lines.push(divider(width), ...wrap(`Note: ${order.note}`, width).map(text => ({ text })));
+  }
+
+  if (settings.receipt.footer) {
+    lines.push({ text: '' });
+    settings.receipt.footer.split('\n').forEach(text => lines.push({ text, align: 'center' }));
+  }
+
+  return lines;
+}
+
+// Kitchen tickets carry no prices, just what to make, in large type
+export function buildKitchenTicketLines(order: Order, settings: StoreSettings): ReceiptLine[] {
+  const width = CHARS_PER_LINE[settings.receipt.paperWidth];
+  const largeWidth = Math.floor(width / 2);
+  const lines: ReceiptLine[] = [
+    { text: 'KITCHEN', align: 'center', bold: true },
+    { text: getOrderLabel(order), align: 'center', bold: true, large: true },
+    { text: describeOrderType(order).toUpperCase(), align: 'center', bold: true },
+    ...columns(order.customerName, new Date(order.createdAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' }), width),
+    divider(width),
+  ];
+
+  order.items.forEach(item => {
+    lines.push(...wrap(`${item.quantity}x ${item.name}`, largeWidth).map(text => ({ text, bold: true, large: true })));
+    (item.modifiers || []).forEach(m => {
+      lines.push(...wrap(`+ ${m.optionName}`, largeWidth - 2).map(text => ({ text: `  ${text}`, large: true })));
+    });
+    if (item.note) {
+      lines.push(...wrap(`>> ${item.note}`, width - 2).map(text => ({ text: `  ${text}`, bold: true })));
+    }
+  });
+
+  if (order.note) {
+    lines.push(divider(width), ...wrap(`NOTE: ${order.note}`, width).map(text => ({ text, bold: true })));
+  }
+
+  return lines;
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;');
+
+// A standalone HTML document sized for a thermal roll of the given width
+export function renderReceiptHtml(lines: ReceiptLine[], paperWidth: PaperWidth, title: string): string {
+  const body = lines.map(line => {
+    const classes = ['line', line.align, line.bold && 'bold', line.large && 'large'].filter(Boolean).join(' ');
+    return `<div class="${classes}">${escapeHtml(line.text) || '&nbsp;'}</div>`;
+  }).join('\n');
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: ${paperWidth}mm auto; margin: 0; }
+  body { width: ${paperWidth - 4}mm; margin: 0; padding: 2mm; font-family: 'Courier New', monospace; font-size: ${paperWidth === 58 ? 10.5 : 10}px; line-height: 1.3; color: #000; }
+  .line { white-space: pre; overflow: hidden; }
+  .center { text-align: center; }
+  .right { text-align: right; }
+  .bold { font-weight: bold; }
+  .large { font-size: 2em; line-height: 1.15; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+const ALIGN_CODES = { left: 0, center: 1, right: 2 };
+
+// Printers use a single-byte code page, so accents are stripped and anything
+// else outside ASCII becomes '?'. Intl currency output uses non-breaking spaces.
+const encodeText = (text: string): number[] => {
+  return Array.from(text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\u00a0/g, ' '))
+    .map(char => char.charCodeAt(0) < 128 ? char.charCodeAt(0) : 0x3f);
+};
+
+export function encodeEscPos(lines: ReceiptLine[], { cut = true } = {}): Uint8Array {
+  const bytes: number[] = [ESC, 0x40];
+
+  lines.forEach(line => {
+    bytes.push(
+      ESC, 0x61, ALIGN_CODES[line.align || 'left'],
+      ESC, 0x45, line.bold ? 1 : 0,
+      GS, 0x21, line.large ? 0x11 : 0x00,
+      ...encodeText(line.text),
+      LF
+    );
+  });
+
+  // Reset styles, feed past the cutter and cut
+  bytes.push(ESC, 0x45, 0, GS, 0x21, 0, ESC, 0x64, 4);
+  if (cut) bytes.push(GS, 0x56, 0x42, 0x00);
+
+  return new Uint8Array(bytes);
+}
@@ -0,0 +1,121 @@
+import { CartItem, Order, Refund, RefundLine, RefundReason } from '../types';
+import { getLineId } from '../utils';
+import { getLineGross } from './promotions';
+import { getAmountPaid } from './payments';
+import { getNetSales } from './totals';
+import { getShopDate } from './shopTime';
+
+// Thrown for a void or refund the order cannot take
+export class RefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+export const REFUND_REASONS: RefundReason[] = ['changed_mind', 'wrong_item', 'quality', 'mistake', 'price', 'other'];
+
+export const REFUND_REASON_LABELS: Record<RefundReason, string> = {
+  changed_mind: 'Customer changed mind',
+  wrong_item: 'Wrong item',
+  quality: 'Quality issue',
+  mistake: 'Entered by mistake',
+  price: 'Price error',
+  other: 'Other',
+};
+
+export interface RefundSelection {
+  lineId: string;
+  quantity: number;
+}
+
+export type RefundState = 'none' | 'partial' | 'full';
+
+export const getRefundedAmount = (order: Order): number => {
+  return (order.refunds || []).reduce((sum, r) => sum + r.amount, 0);
+};
+
+export const getRefundedQuantity = (order: Order, lineId: string): number => {
+  return (order.refunds || [])
+    .flatMap(r => r.lines)
+    .filter(line => line.lineId === lineId)
+    .reduce((sum, line) => sum + line.quantity, 0);
+};
+
+export const getRefundableQuantity = (order: Order, item: CartItem): number => {
+  return Math.max(0, item.quantity - getRefundedQuantity(order, getLineId(item)));
+};
+
+// Orders saved before tenders existed only carry a paid/unpaid flag
+const getOrderAmountPaid = (order: Order): number => {
+  if (!order.payments) return order.paymentStatus === 'Paid' ? order.total : 0;
+  return getAmountPaid(order.payments);
+};
+
+// Refunds can never give back more than was taken
+export const getRefundableAmount = (order: Order): number => {
+  return Math.max(0, getOrderAmountPaid(order) - getRefundedAmount(order));
+};
+
+export const getRefundState = (order: Order): RefundState => {
+  const refunded = getRefundedAmount(order);
+  if (refunded <= 0) return 'none';
+  return getRefundableAmount(order) <= 0 ? 'full' : 'partial';
+};
+
+// What a line sold for after its own promotions
+const getLineNet = (item: CartItem): number => Math.max(0, getLineGross(item) - (item.discount || 0));
+
+// Each line's share of what the customer paid. Line promotions stay with their
+// line; order-wide discounts, service charge and tax come back in the same
+// proportion they were charged.
+const getLineShare = (order: Order, item: CartItem): number => {
+  const net = order.items.reduce((sum, i) => sum + getLineNet(i), 0);
+  return net > 0 ? (getLineNet(item) / net) * order.total : 0;
+};
+
+export const buildRefundLines = (order: Order, selections: RefundSelection[]): RefundLine[] => {
+  const lines: RefundLine[] = [];
+  selections.forEach(({ lineId, quantity }) => {
+    const item = order.items.find(i => getLineId(i) === lineId);
+    if (!item || quantity <= 0) return;
+    const refundQuantity = Math.min(quantity, getRefundableQuantity(order, item));
+    if (refundQuantity <= 0) return;
+    lines.push({
+      lineId,
+      name: item.name,
+      quantity: refundQuantity,
+      amount: Math.round(getLineShare(order, item) * refundQuantity / item.quantity),
+    });
+  });
+
+  // Refunding everything that is left gives back the exact remaining balance,
+  // so rounding never leaves a few rupiah behind
+  const refundsEverything = order.items.every(item => {
+    const line = lines.find(l => l.lineId === getLineId(item));
+    return getRefundableQuantity(order, item) === (line?.quantity || 0);
+  });
+  const refundable = getRefundableAmount(order);
+  const total = lines.reduce((sum, l) => sum + l.amount, 0);
+  if (lines.length > 0 && (refundsEverything || total > refundable)) {
+    const last = lines[lines.length - 1];
+    last.amount = Math.max(0, last.amount + refundable - total);
+  }
+  return lines;
+};
+
+export const getRefundTotal = (lines: RefundLine[]): number => lines.reduce((sum, l) => sum + l.amount, 0);
+
+// The part of a refund that came out of net sales rather than tax or service
+export const getRefundNetSales = (order: Order, refund: Refund): number => {
+  return order.total > 0 ? refund.amount * (getNetSales(order) / order.total) : 0;
+};
+
+// Refunds made on the given shop day ('YYYY-MM-DD'), with the order each belongs to
+export const getRefundsOnDay = (orders: Order[], day: string, timeZone: string): { order: Order; refund: Refund }[] => {
+  return orders.flatMap(order =>
+    (order.refunds || [])
+      .filter(refund => getShopDate(refund.createdAt, timeZone) === day)
+      .map(refund => ({ order, refund }))
+  );
+};
@@ -0,0 +1,312 @@
+import { MenuItem, Order, PaymentMethod } from '../types';
+import { ITEM_BUNDLE_PREFIX, getLineGross } from './promotions';
+import { PAYMENT_METHODS } from './payments';
+import { getNetSales } from './totals';
+import { getRefundNetSales } from './refunds';
+import { getShopDate } from './shopTime';
+
+export type ReportGranularity = 'day' | 'week' | 'month';
+
+// Inclusive range of the shop's calendar days, as 'YYYY-MM-DD'
+export interface ReportRange {
+  from: string;
+  to: string;
+}
+
+export interface SalesSummary {
+  revenue: number; // After refunds
+  netSales: number; // Excluding tax and service charge, after refunds
+  refunds: number;
+  discounts: number;
+  orderCount: number; // Every order placed, including cancelled ones
+  completedCount: number;
+  cancelledCount: number;
+  cancellationRate: number;
+  averageOrderValue: number;
+  itemsSold: number;
+}
+
+export interface RevenueBucket {
+  key: string;
+  label: string;
+  revenue: number;
+  netSales: number;
+  orders: number;
+}
+
+export interface ItemSales {
+  itemId: string;
+  name: string;
+  category: string; // Category id
+  quantity: number;
+  revenue: number; // After promotion discounts
+}
+
+export interface CategorySales {
+  category: string; // Category id
+  quantity: number;
+  revenue: number;
+  share: number;
+}
+
+export interface PaymentMix {
+  method: PaymentMethod;
+  amount: number;
+  share: number;
+}
+
+export interface BundleUptake {
+  itemId: string;
+  name: string;
+  ordersWithItem: number;
+  ordersWithBundle: number;
+  uptakeRate: number;
+  savings: number;
+}
+
+export interface SalesReport {
+  range: ReportRange;
+  summary: SalesSummary;
+  series: RevenueBucket[];
+  items: ItemSales[];
+  categories: CategorySales[];
+  payments: PaymentMix[];
+  bundles: BundleUptake[];
+}
+
+export const REPORT_GRANULARITIES: { id: ReportGranularity; label: string }[] = [
+  { id: 'day', label: 'Daily' },
+  { id: 'week', label: 'Weekly' },
+  { id: 'month', label: 'Monthly' },
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toDateKey = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+};
+
+export const getRangeDays = (range: ReportRange): number => {
+  const ms = parseDateKey(range.to).getTime() - parseDateKey(range.from).getTime();
+  return Math.round(ms / 86400000) + 1;
+};
+
+// The same number of days immediately before the range
+export const getPreviousRange = (range: ReportRange): ReportRange => {
+  const days = getRangeDays(range);
+  const from = parseDateKey(range.from);
+  return { from: toDateKey(addDays(from, -days)), to: toDateKey(addDays(from, -1)) };
+};
+
+// Days follow the shop's time zone, not the browser's, so reports agree with
+// exports for the same range
+export const isInRange = (timestamp: string, range: ReportRange, timeZone: string): boolean => {
+  const key = getShopDate(timestamp, timeZone);
+  return key >= range.from && key <= range.to;
+};
+
+// The shop's current calendar day, for the presets below
+export const getShopToday = (timeZone: string): Date => parseDateKey(getShopDate(new Date().toISOString(), timeZone));
+
+export const REPORT_PRESETS: { id: string; label: string; getRange: (today: Date) => ReportRange }[] = [
+  { id: 'today', label: 'Today', getRange: today => ({ from: toDateKey(today), to: toDateKey(today) }) },
+  { id: '7d', label: 'Last 7 days', getRange: today => ({ from: toDateKey(addDays(today, -6)), to: toDateKey(today) }) },
+  { id: '30d', label: 'Last 30 days', getRange: today => ({ from: toDateKey(addDays(today, -29)), to: toDateKey(today) }) },
+  {
+    id: 'month',
+    label: 'This month',
+    getRange: today => ({ from: toDateKey(new Date(today.getFullYear(), today.getMonth(), 1)), to: toDateKey(today) }),
+  },
+  {
+    id: 'lastMonth',
+    label: 'Last month',
+    getRange: today => ({
+      from: toDateKey(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+      to: toDateKey(new Date(today.getFullYear(), today.getMonth(), 0)),
+    }),
+  },
+];
+
+// Same rule as the daily analytics: only orders the kitchen finished count as sales
+const isSale = (order: Order) => order.status === 'Completed' || order.status === 'Picked Up';
+
+const getLineRevenue = (item: Order['items'][number]) => getLineGross(item) - (item.discount || 0);
+
+// Weeks start on Monday
+const getBucketStart = (date: Date, granularity: ReportGranularity): Date => {
+  if (granularity === 'month') return new Date(date.getFullYear(), date.getMonth(), 1);
+  if (granularity === 'week') return addDays(date, -((date.getDay() + 6) % 7));
+  return date;
+};
+
+const getBucketLabel = (start: Date, granularity: ReportGranularity): string => {
+  if (granularity === 'month') return start.toLocaleDateString([], { month: 'short', year: 'numeric' });
+  const label = start.toLocaleDateString([], { day: 'numeric', month: 'short' });
+  return granularity === 'week' ? `Wk ${label}` : label;
+};
+
+// Refunds given within the range on orders that count as sales, dated by when
+// the money went back rather than when the order was placed
+const getRefundsInRange = (orders: Order[], range: ReportRange, timeZone: string) => {
+  return orders
+    .filter(isSale)
+    .flatMap(order => (order.refunds || []).filter(r => isInRange(r.createdAt, range, timeZone)).map(refund => ({ order, refund })));
+};
+
+export const getSalesSummary = (orders: Order[], range: ReportRange, timeZone: string): SalesSummary => {
+  const placed = orders.filter(o => isInRange(o.createdAt, range, timeZone));
+  const sales = placed.filter(isSale);
+  const refunds = getRefundsInRange(orders, range, timeZone);
+  const refundTotal = refunds.reduce((sum, { refund }) => sum + refund.amount, 0);
+  const revenue = sales.reduce((sum, o) => sum + o.total, 0) - refundTotal;
+  const cancelledCount = placed.filter(o => o.status === 'Cancelled').length;
+
+  return {
+    revenue,
+    netSales: sales.reduce((sum, o) => sum + getNetSales(o), 0)
+      - refunds.reduce((sum, { order, refund }) => sum + getRefundNetSales(order, refund), 0),
+    refunds: refundTotal,
+    discounts: sales.reduce((sum, o) => sum + (o.discountTotal || 0), 0),
+    orderCount: placed.length,
+    completedCount: sales.length,
+    cancelledCount,
+    cancellationRate: placed.length > 0 ? cancelledCount / placed.length : 0,
+    averageOrderValue: sales.length > 0 ? revenue / sales.length : 0,
+    itemsSold: sales.reduce((sum, o) => sum + o.items.reduce((n, i) => n + i.quantity, 0), 0),
+  };
+};
+
+// One bucket per day, week or month in the range, including empty ones
+export const getRevenueSeries = (orders: Order[], range: ReportRange, timeZone: string, granularity: ReportGranularity): RevenueBucket[] => {
+  const buckets = new Map<string, RevenueBucket>();
+  const last = parseDateKey(range.to);
+  for (let day = parseDateKey(range.from); day <= last; day = addDays(day, 1)) {
+    const start = getBucketStart(day, granularity);
+    const key = toDateKey(start);
+    if (!buckets.has(key)) {
+      buckets.set(key, { key, label: getBucketLabel(start, granularity), revenue: 0, netSales: 0, orders: 0 });
+    }
+  }
+  const bucketFor = (timestamp: string) => {
+    return buckets.get(toDateKey(getBucketStart(parseDateKey(getShopDate(timestamp, timeZone)), granularity)));
+  };
+
+  orders.filter(o => isInRange(o.createdAt, range, timeZone)).forEach(order => {
+    const bucket = bucketFor(order.createdAt);
+    if (!bucket) return;
+    bucket.orders += 1;
+    if (isSale(order)) {
+      bucket.revenue += order.total;
+      bucket.netSales += getNetSales(order);
+    }
+  });
+  getRefundsInRange(orders, range, timeZone).forEach(({ order, refund }) => {
+    const bucket = bucketFor(refund.createdAt);
+    if (!bucket) return;
+    bucket.revenue -= refund.amount;
+    bucket.netSales -= getRefundNetSales(order, refund);
+  });
+
+  return Array.from(buckets.values());
+};
+
+// Best sellers first, by revenue
+export const getItemSales = (orders: Order[], range: ReportRange, timeZone: string): ItemSales[] => {
+  const items = new Map<string, ItemSales>();
+  orders.filter(o => isSale(o) && isInRange(o.createdAt, range, timeZone)).forEach(order => {
+    order.items.forEach(item => {
+      const entry = items.get(item.id) || { itemId: item.id, name: item.name, category: item.category, quantity: 0, revenue: 0 };
+      entry.quantity += item.quantity;
+      entry.revenue += getLineRevenue(item);
+      items.set(item.id, entry);
+    });
+  });
+  return Array.from(items.values()).sort((a, b) => b.revenue - a.revenue || b.quantity - a.quantity);
+};
+
+export const getCategorySales = (orders: Order[], range: ReportRange, timeZone: string): CategorySales[] => {
+  const categories = new Map<string, CategorySales>();
+  getItemSales(orders, range, timeZone).forEach(item => {
+    const entry = categories.get(item.category) || { category: item.category, quantity: 0, revenue: 0, share: 0 };
+    entry.quantity += item.quantity;
+    entry.revenue += item.revenue;
+    categories.set(item.category, entry);
+  });
+  const total = Array.from(categories.values()).reduce((sum, c) => sum + c.revenue, 0);
+  return Array.from(categories.values())
+    .map(c => ({ ...c, share: total > 0 ? c.revenue / total : 0 }))
+    .sort((a, b) => b.revenue - a.revenue);
+};
+
+// What was taken by each method on sales in the range, less what went back
+// the same way. Orders from before tenders were recorded are left out.
+export const getPaymentMix = (orders: Order[], range: ReportRange, timeZone: string): PaymentMix[] => {
+  const amounts = Object.fromEntries(PAYMENT_METHODS.map(m => [m, 0])) as Record<PaymentMethod, number>;
+  orders.filter(o => isSale(o) && isInRange(o.createdAt, range, timeZone)).forEach(order => {
+    (order.payments || []).forEach(p => {
+      amounts[p.method] += p.amount;
+    });
+  });
+  getRefundsInRange(orders, range, timeZone).forEach(({ refund }) => {
+    amounts[refund.method] -= refund.amount;
+  });
+  const total = PAYMENT_METHODS.reduce((sum, m) => sum + Math.max(0, amounts[m]), 0);
+  return PAYMENT_METHODS.map(method => ({
+    method,
+    amount: amounts[method],
+    share: total > 0 ? Math.max(0, amounts[method]) / total : 0,
+  }));
+};
+
+// How often orders containing a bundle item actually got the bundle price
+export const getBundleUptake = (orders: Order[], menu: MenuItem[], range: ReportRange, timeZone: string): BundleUptake[] => {
+  const sales = orders.filter(o => isSale(o) && isInRange(o.createdAt, range, timeZone));
+  return menu
+    .filter(item => item.bundle?.enabled)
+    .map(item => {
+      const promotionId = `${ITEM_BUNDLE_PREFIX}${item.id}`;
+      const withItem = sales.filter(o => o.items.some(i => i.id === item.id));
+      const applied = withItem.flatMap(o => (o.appliedPromotions || []).filter(p => p.promotionId === promotionId));
+      const ordersWithBundle = withItem.filter(o => (o.appliedPromotions || []).some(p => p.promotionId === promotionId)).length;
+      return {
+        itemId: item.id,
+        name: item.name,
+        ordersWithItem: withItem.length,
+        ordersWithBundle,
+        uptakeRate: withItem.length > 0 ? ordersWithBundle / withItem.length : 0,
+        savings: applied.reduce((sum, p) => sum + p.amount, 0),
+      };
+    });
+};
+
+export const buildSalesReport = (
+  orders: Order[],
+  menu: MenuItem[],
+  range: ReportRange,
+  timeZone: string,
+  granularity: ReportGranularity
+): SalesReport => ({
+  range,
+  summary: getSalesSummary(orders, range, timeZone),
+  series: getRevenueSeries(orders, range, timeZone, granularity),
+  items: getItemSales(orders, range, timeZone),
+  categories: getCategorySales(orders, range, timeZone),
+  payments: getPaymentMix(orders, range, timeZone),
+  bundles: getBundleUptake(orders, menu, range, timeZone),
+});
+
+// Relative change against the previous period, or undefined when there is
+// nothing to compare with
+export const getChange = (current: number, previous: number): number | undefined => {
+  if (previous === 0) return undefined;
+  return (current - previous) / Math.abs(previous);
+};
@@ -0,0 +1,58 @@
+import { StoreSettings } from '../types';
+
+export const SETTINGS_ID = 'store';
+
+export const TIME_ZONES: { id: string; label: string }[] = [
+  { id: 'Asia/Jakarta', label: 'WIB (Jakarta)' },
+  { id: 'Asia/Makassar', label: 'WITA (Makassar)' },
+  { id: 'Asia/Jayapura', label: 'WIT (Jayapura)' },
+];
+
+export const DEFAULT_SETTINGS: StoreSettings = {
+  id: SETTINGS_ID,
+  shopName: 'Nasi Bupar',
+  timeZone: 'Asia/Jakarta',
+  receipt: {
+    paperWidth: 58,
+    printerMode: 'browser',
+    footer: 'Terima kasih!',
+    autoPrintReceipt: false,
+    autoPrintKitchenTicket: false,
+  },
+  tax: {
+    enabled: false,
+    label: 'PPN',
+    rate: 11,
+    inclusive: false,
+    categoryRates: {},
+    serviceChargeEnabled: false,
+    serviceChargeRate: 5,
+  },
+  kitchen: {
+    warnAfterMinutes: 5,
+    overdueAfterMinutes: 10,
+    chimeOnNewOrder: true,
+  },
+  stations: [
+    { id: 'bar', name: 'Bar', categories: ['Coffee', 'Tea'] },
+    { id: 'kitchen', name: 'Kitchen', categories: ['Food', 'Dessert', 'Other'] },
+  ],
+  loyalty: {
+    enabled: false,
+    spendPerPoint: 10000,
+    pointValue: 100,
+    minRedeemPoints: 50,
+  },
+};
+
+// Fills in defaults for anything the stored record does not have yet, so older
+// records keep working as new settings are introduced.
+export const resolveSettings = (stored?: Partial<StoreSettings>): StoreSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...stored,
+  id: SETTINGS_ID,
+  receipt: { ...DEFAULT_SETTINGS.receipt, ...stored?.receipt },
+  tax: { ...DEFAULT_SETTINGS.tax, ...stored?.tax },
+  kitchen: { ...DEFAULT_SETTINGS.kitchen, ...stored?.kitchen },
+  loyalty: { ...DEFAULT_SETTINGS.loyalty, ...stored?.loyalty },
+});
@@ -0,0 +1,27 @@
+// Shop-local calendar and clock. Reports, exports, the pickup board and
+// promotions all follow the shop's time zone rather than the browser's.
+
+export const formatParts = (timestamp: string, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(timestamp));
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '00';
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, time: `${get('hour')}:${get('minute')}:${get('second')}` };
+};
+
+// 'YYYY-MM-DD' of the shop's calendar day the timestamp falls on
+export const getShopDate = (timestamp: string, timeZone: string): string => formatParts(timestamp, timeZone).date;
+
+// Day, weekday (0 = Sunday) and minutes past midnight on the shop's clock
+export const getShopClock = (timestamp: string, timeZone: string): { date: string; weekday: number; minute: number } => {
+  const { date, time } = formatParts(timestamp, timeZone);
+  const [hours, minutes] = time.split(':').map(Number);
+  return { date, weekday: new Date(`${date}T00:00:00Z`).getUTCDay(), minute: hours * 60 + minutes };
+};
@@ -0,0 +1,107 @@
+import { StaffMember, StaffRole, StatusActor } from '../types';
+import { sha256Hex } from './sha256';
+
+export type Permission =
+  | 'take_orders'
+  | 'view_orders'
+  | 'use_kitchen'
+  | 'void_orders'
+  | 'refund_orders'
+  | 'approve_refunds'
+  | 'delete_orders'
+  | 'view_revenue'
+  | 'manage_menu'
+  | 'delete_menu_items'
+  | 'manage_promotions'
+  | 'manage_inventory'
+  | 'manage_customers'
+  | 'manage_tables'
+  | 'manage_cash_drawer'
+  | 'manage_settings'
+  | 'manage_staff';
+
+// Thrown by store actions the signed-in staff member is not allowed to take
+export class PermissionError extends Error {
+  constructor(public readonly permission: Permission) {
+    super(`Not allowed: ${permission}`);
+    this.name = 'PermissionError';
+  }
+}
+
+// Thrown when a void or refund is not approved by someone allowed to
+export class ApprovalError extends Error {
+  constructor() {
+    super('Manager approval required');
+    this.name = 'ApprovalError';
+  }
+}
+
+// A manager vouching for an action by entering their PIN on someone else's till
+export interface ManagerApproval {
+  staffId: string;
+  pin: string;
+}
+
+export const STAFF_ROLES: StaffRole[] = ['cashier', 'kitchen', 'manager', 'owner'];
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  cashier: 'Cashier',
+  kitchen: 'Kitchen',
+  manager: 'Manager',
+  owner: 'Owner',
+};
+
+const CASHIER_PERMISSIONS: Permission[] = ['take_orders', 'view_orders', 'void_orders', 'refund_orders', 'manage_cash_drawer'];
+
+const MANAGER_PERMISSIONS: Permission[] = [
+  ...CASHIER_PERMISSIONS,
+  'use_kitchen',
+  'approve_refunds',
+  'view_revenue',
+  'manage_menu',
+  'delete_menu_items',
+  'manage_promotions',
+  'manage_inventory',
+  'manage_customers',
+  'manage_tables',
+];
+
+// Keep in step with the row-level security policies in supabase_schema.sql
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  cashier: CASHIER_PERMISSIONS,
+  kitchen: ['use_kitchen'],
+  manager: MANAGER_PERMISSIONS,
+  owner: [...MANAGER_PERMISSIONS, 'delete_orders', 'manage_settings', 'manage_staff'],
+};
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 6;
+
+export const hasPermission = (staff: StaffMember | null | undefined, permission: Permission): boolean => {
+  return Boolean(staff && staff.active && ROLE_PERMISSIONS[staff.role].includes(permission));
+};
+
+// Managers and owners act with admin rights on orders
+export const getStatusActor = (role: StaffRole): StatusActor => {
+  if (role === 'cashier' || role === 'kitchen') return role;
+  return 'admin';
+};
+
+export const isValidPin = (pin: string): boolean => {
+  return new RegExp(`^\\d{${PIN_MIN_LENGTH},${PIN_MAX_LENGTH}}$`).test(pin);
+};
+
+// Salted with the staff id so equal PINs hash differently. Supabase stores it
+// hashed again with bcrypt and checks it in check_staff_pin.
+export const hashPin = (staffId: string, pin: string): string => sha256Hex(`${staffId}:${pin}`);
+
+// Only for backends that hand the hashes to tills; Supabase does not
+export const verifyPin = (staff: StaffMember, pin: string): boolean => {
+  return staff.active && Boolean(staff.pinHash) && staff.pinHash === hashPin(staff.id, pin);
+};
+
+// The last active owner cannot be removed, demoted or deactivated
+export const isLastOwner = (staff: StaffMember[], staffId: string): boolean => {
+  const owners = staff.filter(s => s.role === 'owner' && s.active);
+  return owners.length === 1 && owners[0].id === staffId;
+};
@@ -0,0 +1,32 @@
+import { CartItem, MenuItem, Order, Station } from '../types';
+
+export interface StationProgress {
+  station: Station;
+  total: number;
+  prepared: number;
+}
+
+// Items are routed by their own station first, then by category. Anything
+// left over goes to the first station so it is never lost.
+export const getItemStationId = (item: Pick<MenuItem, 'category' | 'stationId'>, stations: Station[]): string | undefined => {
+  if (item.stationId && stations.some(s => s.id === item.stationId)) return item.stationId;
+  return stations.find(s => s.categories.includes(item.category))?.id ?? stations[0]?.id;
+};
+
+export const getStationItems = (order: Order, stationId: string, stations: Station[]): CartItem[] => {
+  return order.items.filter(item => getItemStationId(item, stations) === stationId);
+};
+
+// Progress for each station that has items on the order
+export const getStationProgress = (order: Order, stations: Station[]): StationProgress[] => {
+  return stations
+    .map(station => {
+      const items = getStationItems(order, station.id, stations);
+      return { station, total: items.length, prepared: items.filter(i => i.isPrepared).length };
+    })
+    .filter(progress => progress.total > 0);
+};
+
+export const isStationDone = (order: Order, stationId: string, stations: Station[]): boolean => {
+  return getStationItems(order, stationId, stations).every(item => item.isPrepared);
+};
@@ -0,0 +1,31 @@
+import { DiningTable, Order } from '../types';
+import { isOrderOpen } from './amendments';
+
+// Thrown when a table or tab change cannot be made, e.g. moving a tab onto a
+// table that already has one
+export class TableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TableError';
+  }
+}
+
+export const sortTables = (tables: DiningTable[]): DiningTable[] => {
+  return [...tables].sort((a, b) => a.area.localeCompare(b.area) || a.position - b.position || a.name.localeCompare(b.name));
+};
+
+// Tables by area, in the order the map shows them
+export const groupTablesByArea = (tables: DiningTable[]): [string, DiningTable[]][] => {
+  const groups = new Map<string, DiningTable[]>();
+  sortTables(tables).forEach(table => {
+    groups.set(table.area, [...(groups.get(table.area) || []), table]);
+  });
+  return [...groups.entries()];
+};
+
+// A table's order, for as long as it can still be added to
+export const isOpenTab = (order: Order): boolean => Boolean(order.tableId) && isOrderOpen(order);
+
+export const getTableTab = (orders: Order[], tableId: string): Order | undefined => {
+  return orders.find(o => o.tableId === tableId && isOpenTab(o));
+};
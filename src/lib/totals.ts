@@ -0,0 +1,116 @@
+import { AppliedPromotion, CartItem, Order, TaxLine, TaxSettings } from '../types';
+import { PricingResult } from './promotions';
+
+export interface OrderTotals {
+  subtotal: number;
+  discountTotal: number;
+  serviceCharge: number;
+  taxes: TaxLine[];
+  taxTotal: number;
+  taxInclusive: boolean;
+  total: number;
+}
+
+// The parts of an order that make up its itemized total
+export type OrderBreakdown = Pick<Order, 'subtotal' | 'appliedPromotions' | 'serviceCharge' | 'taxes' | 'taxInclusive' | 'total'>;
+
+export interface SummaryLine {
+  label: string;
+  amount: number;
+  kind: 'subtotal' | 'discount' | 'service' | 'tax';
+  included?: boolean; // Already part of the prices above, shown for information
+}
+
+export const getTaxRate = (categoryId: string, tax: TaxSettings): number => {
+  if (!tax.enabled) return 0;
+  return tax.categoryRates[categoryId] ?? tax.rate;
+};
+
+// Adds service charge and tax to a priced cart.
+//
+// Order-level discounts are spread over the lines by value so each line's tax
+// is charged on what the customer actually pays. Service charge is calculated
+// on the pre-tax amount and is itself taxed at the line's rate. With inclusive
+// tax the menu prices already contain tax, so only the tax on the service
+// charge adds to the total.
+export function calculateOrderTotals(items: CartItem[], pricing: PricingResult, tax: TaxSettings): OrderTotals {
+  const serviceRate = tax.serviceChargeEnabled ? tax.serviceChargeRate / 100 : 0;
+  const netBeforeOrderDiscount = pricing.lines.reduce((sum, line) => sum + line.net, 0);
+
+  let service = 0;
+  let serviceTax = 0;
+  const byRate = new Map<number, { taxable: number; amount: number }>();
+
+  pricing.lines.forEach((line, index) => {
+    const share = netBeforeOrderDiscount > 0 ? pricing.orderDiscount * line.net / netBeforeOrderDiscount : 0;
+    const net = line.net - share;
+    const rate = getTaxRate(items[index].category, tax) / 100;
+    const base = tax.inclusive ? net / (1 + rate) : net;
+    const lineService = base * serviceRate;
+    const taxable = base + lineService;
+
+    service += lineService;
+    serviceTax += lineService * rate;
+    if (rate > 0) {
+      const group = byRate.get(rate) || { taxable: 0, amount: 0 };
+      group.taxable += taxable;
+      group.amount += taxable * rate;
+      byRate.set(rate, group);
+    }
+  });
+
+  const taxes: TaxLine[] = [...byRate.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([rate, group]) => ({
+      label: tax.label,
+      rate: Math.round(rate * 10000) / 100,
+      taxable: Math.round(group.taxable),
+      amount: Math.round(group.amount),
+    }));
+
+  const serviceCharge = Math.round(service);
+  const taxTotal = taxes.reduce((sum, t) => sum + t.amount, 0);
+  const total = tax.inclusive
+    ? pricing.total + serviceCharge + Math.round(serviceTax)
+    : pricing.total + serviceCharge + taxTotal;
+
+  return {
+    subtotal: pricing.subtotal,
+    discountTotal: pricing.discountTotal,
+    serviceCharge,
+    taxes,
+    taxTotal,
+    taxInclusive: tax.inclusive,
+    total,
+  };
+}
+
+// The lines between the items and the grand total on receipts and summaries.
+// Empty for plain orders, where the total is simply the sum of the items.
+export function getSummaryLines(breakdown: OrderBreakdown): SummaryLine[] {
+  const promotions: AppliedPromotion[] = breakdown.appliedPromotions || [];
+  const taxes = breakdown.taxes || [];
+  if (promotions.length === 0 && !breakdown.serviceCharge && taxes.length === 0) return [];
+
+  const lines: SummaryLine[] = [
+    { label: 'Subtotal', amount: breakdown.subtotal ?? breakdown.total, kind: 'subtotal' },
+    ...promotions.map(promo => ({ label: promo.name, amount: -promo.amount, kind: 'discount' as const })),
+  ];
+  if (breakdown.serviceCharge) {
+    lines.push({ label: 'Service charge', amount: breakdown.serviceCharge, kind: 'service' });
+  }
+  taxes.forEach(t => {
+    lines.push({
+      label: `${t.label} ${t.rate}%${breakdown.taxInclusive ? ' (incl.)' : ''}`,
+      amount: t.amount,
+      kind: 'tax',
+      included: breakdown.taxInclusive,
+    });
+  });
+  return lines;
+}
+
+// Sales excluding tax and service charge
+export const getNetSales = (order: Order): number => {
+  return order.total - (order.taxTotal || 0) - (order.serviceCharge || 0);
+};
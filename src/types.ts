@@ -1,4 +1,18 @@
-export type Category = 'Coffee' | 'Tea' | 'Food' | 'Dessert' | 'Other';
+export type CategoryColor = 'orange' | 'amber' | 'green' | 'teal' | 'blue' | 'purple' | 'pink' | 'red' | 'gray';
+
+export type CategoryIcon =
+  | 'coffee' | 'leaf' | 'cup' | 'glass' | 'citrus' | 'utensils' | 'rice' | 'soup' | 'drumstick'
+  | 'beef' | 'fish' | 'egg' | 'sandwich' | 'cake' | 'ice-cream' | 'cookie' | 'flame' | 'star' | 'package';
+
+// A section of the menu. Items, promotions, stations and tax rates refer to it by id.
+export interface Category {
+  id: string;
+  name: string;
+  color: CategoryColor;
+  icon: CategoryIcon;
+  position: number; // Lower comes first on the till
+  hidden: boolean; // Kept off the till, e.g. seasonal sections out of season
+}
 
 export interface BundleConfig {
   enabled: boolean;
@@ -7,30 +21,374 @@ export interface BundleConfig {
   showPromoLabel: boolean;
 }
 
+export interface ModifierOption {
+  id: string;
+  name: string;
+  priceDelta: number;
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  required: boolean;
+  minSelect: number;
+  maxSelect: number;
+  options: ModifierOption[];
+}
+
+// A chosen option, copied onto the cart line so later menu edits don't change past orders
+export interface SelectedModifier {
+  groupId: string;
+  groupName: string;
+  optionId: string;
+  optionName: string;
+  priceDelta: number;
+}
+
+export type IngredientUnit = 'g' | 'ml' | 'pcs';
+
+export interface Ingredient {
+  id: string;
+  name: string;
+  unit: IngredientUnit;
+  onHand: number;
+  lowStockThreshold: number;
+  costPerUnit?: number; // Rp per unit, from the last delivery
+}
+
+// How much of an ingredient one unit of a menu item uses
+export interface RecipeLine {
+  ingredientId: string;
+  quantity: number;
+}
+
+export type StockMovementType = 'sale' | 'cancel' | 'receive' | 'adjust' | 'waste';
+
+export interface StockMovement {
+  id: string;
+  ingredientId: string;
+  type: StockMovementType;
+  quantity: number; // Signed change to the quantity on hand
+  orderId?: string;
+  note?: string;
+  createdAt: string;
+}
+
 export interface MenuItem {
   id: string;
   name: string;
   basePrice: number;
-  category: Category;
+  category: string; // Category id
   image?: string;
   bundle?: BundleConfig;
+  modifierGroups?: ModifierGroup[];
+  recipe?: RecipeLine[];
+  stationId?: string; // Overrides the station picked by category
 }
 
 export interface CartItem extends MenuItem {
+  lineId?: string; // Older orders identify lines by the menu item id
   quantity: number;
+  modifiers?: SelectedModifier[];
+  discount?: number; // Promotion savings on this line
   note?: string;
   isPrepared?: boolean;
 }
 
+export type PromotionType = 'percentage' | 'fixed' | 'bundle' | 'buyXGetY' | 'minimumSpend';
+
+// Which units a promotion looks at. Empty lists on both sides mean everything.
+export interface PromotionScope {
+  itemIds: string[];
+  categories: string[]; // Category ids
+}
+
+// Happy-hour style window; days are 0 (Sunday) to 6, times are 'HH:MM'
+export interface PromotionSchedule {
+  days: number[];
+  startTime: string;
+  endTime: string;
+}
+
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  enabled: boolean;
+  scope: PromotionScope;
+  value?: number; // Percent off, or Rp off per unit / per order
+  valueKind?: 'percentage' | 'fixed'; // For minimumSpend
+  buyQuantity?: number; // bundle and buyXGetY
+  getQuantity?: number; // buyXGetY
+  bundlePrice?: number;
+  minSpend?: number;
+  schedule?: PromotionSchedule;
+  validFrom?: string;
+  validUntil?: string;
+  stackable: boolean;
+  priority: number; // Higher runs first
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  amount: number;
+  lineIds: string[]; // Empty for order-level discounts
+}
+
 export type OrderStatus = 'Pending' | 'Paid' | 'Completed' | 'Cancelled' | 'Preparing' | 'Picked Up';
 
+// Who moved an order: the till, the kitchen display, the back office, or the
+// app itself (e.g. when a payment settles the balance)
+export type StatusActor = 'cashier' | 'kitchen' | 'admin' | 'system';
+
+export interface StatusChange {
+  from: OrderStatus | null; // null when the order was created
+  to: OrderStatus;
+  by: StatusActor;
+  staffId?: string; // The staff member signed in when it happened
+  at: string;
+}
+
+export type PaymentMethod = 'Cash' | 'QRIS' | 'Card' | 'E-Wallet' | 'Transfer';
+
+export type PaymentStatus = 'Paid' | 'Unpaid' | 'Partially Paid';
+
+export interface Tender {
+  id: string;
+  method: PaymentMethod;
+  amount: number; // Applied to the order
+  tendered?: number; // Cash handed over by the customer
+  change?: number;
+  reference?: string;
+  sessionId?: string; // Cash session the tender was taken in
+  createdAt: string;
+}
+
+export type RefundReason = 'changed_mind' | 'wrong_item' | 'quality' | 'mistake' | 'price' | 'other';
+
+export interface RefundLine {
+  lineId: string;
+  name: string;
+  quantity: number;
+  amount: number;
+}
+
+// Money given back on a paid order. Refunds are recorded on the day they are
+// made, so they reduce that day's revenue rather than the original sale's.
+export interface Refund {
+  id: string;
+  lines: RefundLine[];
+  amount: number;
+  method: PaymentMethod;
+  reason: RefundReason;
+  note?: string;
+  staffId?: string; // Who issued it
+  approvedBy: string; // The manager who approved it
+  sessionId?: string; // Cash drawer session it was paid out of
+  createdAt: string;
+}
+
+// Why an unpaid order was cancelled and who approved it
+// A cart set aside at the till to serve the next customer, resumed later.
+// Carts with payments taken cannot be parked, so the drawer always matches.
+export interface ParkedCart {
+  id: string;
+  label: string;
+  items: CartItem[];
+  orderType: OrderType;
+  tableId?: string;
+  delivery?: OrderDelivery;
+  customerName?: string;
+  customerId?: string;
+  note?: string;
+  staffId?: string; // Who parked it
+  createdAt: string;
+}
+
+export interface AmendmentLine {
+  lineId: string;
+  name: string;
+  quantity: number;
+}
+
+// A change to an order's lines after it was rung up, e.g. a second round
+export interface OrderAmendment {
+  added: AmendmentLine[];
+  removed: AmendmentLine[];
+  staffId?: string;
+  at: string;
+}
+
+export interface OrderVoid {
+  reason: RefundReason;
+  note?: string;
+  staffId?: string;
+  approvedBy: string;
+  at: string;
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+// Loyalty points on an order. The earn rate is copied from the settings at the
+// time, so changing the program later does not rewrite past balances.
+export interface OrderLoyalty {
+  earnRate: number; // Rp paid per point earned; 0 when the order earns nothing
+  pointsRedeemed: number;
+}
+
+export type OrderType = 'dine_in' | 'takeaway' | 'delivery';
+
+// An order that came in through a delivery app
+export interface OrderDelivery {
+  platform: string; // e.g. GoFood
+  reference?: string; // The platform's own order number, for matching payouts
+}
+
+// A table on the floor. Dine-in orders seated at it form its open tab.
+export interface DiningTable {
+  id: string;
+  name: string;
+  area: string; // e.g. Indoor or Terrace; the table map groups by it
+  seats: number;
+  position: number; // Lower comes first within its area
+}
+
 export interface Order {
   id: string;
+  queueNumber?: number; // Called out at the counter; restarts every shop day
+  queueDate?: string; // The shop day the number belongs to, 'YYYY-MM-DD'
+  orderType?: OrderType; // Older orders have none and count as takeaway
+  tableId?: string;
+  tableName?: string; // The table's name at the time, kept for receipts and tickets
+  delivery?: OrderDelivery;
+  mergedInto?: string; // Set on a tab merged into another; its items and payments moved there
   customerName: string;
+  customerId?: string; // Set when the customer was picked from the directory
+  loyalty?: OrderLoyalty;
   items: CartItem[];
+  subtotal?: number; // Before discounts
+  discountTotal?: number;
+  appliedPromotions?: AppliedPromotion[];
+  serviceCharge?: number;
+  taxes?: TaxLine[];
+  taxTotal?: number;
+  taxInclusive?: boolean; // Tax is part of the item prices rather than added on top
   total: number;
   status: OrderStatus;
-  paymentStatus: 'Paid' | 'Unpaid';
+  statusHistory?: StatusChange[];
+  amendments?: OrderAmendment[];
+  paymentStatus: PaymentStatus;
+  payments?: Tender[];
+  refunds?: Refund[];
+  voided?: OrderVoid;
+  sessionId?: string;
+  staffId?: string; // Who rang the order up
+  staffName?: string; // Their name at the time, kept for receipts and history
   createdAt: string;
   note?: string;
 }
+
+// What the till supplies when ringing up an order; the store fills in the rest
+export type NewOrder = Omit<Order, 'id' | 'createdAt' | 'status' | 'statusHistory' | 'paymentStatus' | 'refunds' | 'voided' | 'mergedInto' | 'amendments' | 'queueNumber' | 'queueDate'>;
+
+export type CashMovementType = 'Pay In' | 'Payout' | 'Drop';
+
+export interface CashMovement {
+  id: string;
+  type: CashMovementType;
+  amount: number;
+  reason?: string;
+  createdAt: string;
+}
+
+export interface CashSession {
+  id: string;
+  tillId?: string; // Device whose drawer this is
+  openedAt: string;
+  openingFloat: number;
+  movements: CashMovement[];
+  closedAt?: string;
+  countedCash?: number;
+  expectedCash?: number; // Frozen when the session is closed
+  closingNote?: string;
+}
+
+export type PaperWidth = 58 | 80;
+
+export interface ReceiptSettings {
+  paperWidth: PaperWidth;
+  printerMode: 'browser' | 'escpos';
+  header?: string;
+  footer?: string;
+  autoPrintReceipt: boolean;
+  autoPrintKitchenTicket: boolean;
+}
+
+// Shop-wide configuration, stored as a single shared record
+export interface TaxSettings {
+  enabled: boolean;
+  label: string; // e.g. PPN
+  rate: number; // Percent
+  inclusive: boolean; // Menu prices already include tax
+  categoryRates: Record<string, number>; // By category id; overrides the default rate
+  serviceChargeEnabled: boolean;
+  serviceChargeRate: number; // Percent, charged before tax
+}
+
+export interface TaxLine {
+  label: string;
+  rate: number;
+  taxable: number;
+  amount: number;
+}
+
+export interface KitchenSettings {
+  warnAfterMinutes: number;
+  overdueAfterMinutes: number;
+  chimeOnNewOrder: boolean;
+}
+
+// A prep area such as the bar or the kitchen, with the categories it makes
+export interface Station {
+  id: string;
+  name: string;
+  categories: string[]; // Category ids
+}
+
+export interface LoyaltySettings {
+  enabled: boolean;
+  spendPerPoint: number; // Rp paid to earn one point
+  pointValue: number; // Rp off per point redeemed
+  minRedeemPoints: number;
+}
+
+export interface StoreSettings {
+  id: string;
+  shopName: string;
+  timeZone: string; // IANA zone used for exports and business days
+  receipt: ReceiptSettings;
+  tax: TaxSettings;
+  kitchen: KitchenSettings;
+  stations: Station[];
+  loyalty: LoyaltySettings;
+}
+
+export type StaffRole = 'cashier' | 'kitchen' | 'manager' | 'owner';
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  role: StaffRole;
+  pinHash?: string; // SHA-256 of "<id>:<pin>", see lib/staff.ts. Never read back from Supabase.
+  active: boolean;
+  createdAt: string;
+}
+
+export type ConnectionStatus = 'local' | 'online' | 'syncing' | 'offline';
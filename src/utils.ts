@@ -1,15 +1,26 @@
-import { MenuItem } from './types';
+import { CartItem, MenuItem, SelectedModifier } from './types';
+
+export const getModifierDelta = (modifiers: SelectedModifier[] = []): number => {
+  return modifiers.reduce((sum, m) => sum + m.priceDelta, 0);
+};
+
+// Bundle pricing covers the base price; modifier deltas are charged on every unit
+export const calculateItemTotal = (item: MenuItem & { modifiers?: SelectedModifier[] }, quantity: number): number => {
+  const modifierTotal = getModifierDelta(item.modifiers) * quantity;
 
-export const calculateItemTotal = (item: MenuItem, quantity: number): number => {
   if (!item.bundle?.enabled || !item.bundle.buyQuantity || !item.bundle.bundlePrice) {
-    return item.basePrice * quantity;
+    return item.basePrice * quantity + modifierTotal;
   }
 
   const { buyQuantity, bundlePrice } = item.bundle;
   const bundleCount = Math.floor(quantity / buyQuantity);
   const remaining = quantity % buyQuantity;
 
-  return (bundleCount * bundlePrice) + (remaining * item.basePrice);
+  return (bundleCount * bundlePrice) + (remaining * item.basePrice) + modifierTotal;
+};
+
+export const getLineId = (item: CartItem): string => {
+  return item.lineId ?? item.id;
 };
 
 export const formatCurrency = (amount: number): string => {
@@ -24,3 +35,24 @@ export const formatCurrency = (amount: number): string => {
 export const generateId = (): string => {
   return Math.random().toString(36).substr(2, 9);
 };
+
+export const generateUuid = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+};
+
+// Short form of the order id, unique across days
+export const getOrderReference = (order: { id: string }): string => {
+  return `#${order.id.replace(/-/g, '').slice(0, 6).toUpperCase()}`;
+};
+
+// What an order is called out as: its queue number for the day, or its
+// reference if it was taken while the till was offline
+export const getOrderLabel = (order: { id: string; queueNumber?: number }): string => {
+  return order.queueNumber ? `#${order.queueNumber}` : getOrderReference(order);
+};